@@ -0,0 +1,241 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { rateLimitResponse } from '../../lib/rate-limiter';
+import { splitMarkdownBlocks } from '../../lib/chunker';
+import {
+  correctionsDB, findSourceParagraph, findTermChanges, loadCorrectedTranslation, scheduleGlossaryProposals
+} from '../../lib/corrections';
+import { stripFootnoteMarkers } from '../../lib/footnotes';
+import { translationCache } from '../../lib/translation-cache';
+import { checkBudget, createUsageTracker, getClientKey } from '../../lib/usage';
+import { extractNovelKey } from '../../lib/url-prediction';
+import { validateRequest, getClientIP, logSecurityEvent, extractChapterNumber, adminRequiredResponse } from '../../lib/security';
+
+// GET /api/corrections?chapterUrl=...[&targetLanguage=...] - the corrections made to a chapter, oldest first
+export async function GET(request: NextRequest) {
+  const ip = getClientIP(request);
+  const userAgent = request.headers.get('user-agent') || undefined;
+
+  const limited = rateLimitResponse(ip, userAgent, request.url, '/api/corrections', 'CORRECTIONS_RATE_LIMIT_EXCEEDED');
+  if (limited) return limited;
+
+  const { searchParams } = new URL(request.url);
+  const validation = validateRequest({
+    chapterUrl: searchParams.get('chapterUrl'),
+    targetLanguage: searchParams.get('targetLanguage')
+  }, 'correction');
+  if (!validation.isValid) {
+    return NextResponse.json(
+      {
+        error: 'Request validation failed',
+        details: validation.errors
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { chapterUrl, targetLanguage } = validation.sanitized!;
+    // All languages unless one was asked for
+    const corrections = await correctionsDB.listForChapter(
+      chapterUrl!,
+      searchParams.get('targetLanguage') ? targetLanguage : undefined
+    );
+    return NextResponse.json({ chapterUrl, corrections });
+  } catch (error) {
+    console.error('Correction list error:', error);
+    return NextResponse.json(
+      { error: 'Failed to list corrections' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/corrections - save a reader's correction of one paragraph:
+// { chapterUrl, targetLanguage?, versionId?, paragraphIndex, original, corrected }.
+// It applies to what this reader is served right away, and to everyone's once approved.
+export async function POST(request: NextRequest) {
+  const ip = getClientIP(request);
+  const userAgent = request.headers.get('user-agent') || undefined;
+
+  const limited = rateLimitResponse(ip, userAgent, request.url, '/api/corrections', 'CORRECTIONS_RATE_LIMIT_EXCEEDED');
+  if (limited) return limited;
+
+  let requestData;
+  try {
+    requestData = await request.json();
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Invalid JSON in request body' },
+      { status: 400 }
+    );
+  }
+
+  const validation = validateRequest(
+    { ...requestData, paragraphIndex: requestData?.paragraphIndex ?? null },
+    'correction'
+  );
+  if (!validation.isValid) {
+    return NextResponse.json(
+      {
+        error: 'Request validation failed',
+        details: validation.errors
+      },
+      { status: 400 }
+    );
+  }
+
+  const { chapterUrl, versionId, paragraphIndex, original, corrected } = validation.sanitized!;
+  let { targetLanguage } = validation.sanitized!;
+
+  try {
+    const clientKey = getClientKey(request, ip);
+    const chapterNumber = extractChapterNumber(chapterUrl!);
+    // The source paragraph feeds glossary proposals, so it only ever comes from the cached original
+    let sourceParagraph: string | null = null;
+
+    // A correction of a cached version is checked against it, and its source text is used when it lines up
+    if (versionId) {
+      const version = chapterNumber ? await translationCache.getVersion(chapterUrl!, chapterNumber, versionId) : null;
+      if (!version) {
+        return NextResponse.json(
+          { error: 'Translation version not found for this chapter' },
+          { status: 404 }
+        );
+      }
+
+      // The paragraph must be the one this reader was served, with or without footnote markers
+      const served = await Promise.all(
+        [version.translatedText, stripFootnoteMarkers(version.translatedText)]
+          .map(text => loadCorrectedTranslation(versionId, text, clientKey))
+      );
+      if (!served.some(text => splitMarkdownBlocks(text)[paragraphIndex!]?.trim() === original)) {
+        logSecurityEvent('CORRECTION_MISMATCH', {
+          ip,
+          userAgent,
+          url: request.url,
+          reason: `Paragraph ${paragraphIndex} of version ${versionId} doesn't match the original sent`
+        });
+        return NextResponse.json(
+          {
+            error: 'Request validation failed',
+            details: [`original is not paragraph ${paragraphIndex} of version ${versionId}`]
+          },
+          { status: 400 }
+        );
+      }
+
+      targetLanguage = version.targetLanguage;
+      if (version.originalText) {
+        sourceParagraph = findSourceParagraph(version.originalText, version.translatedText, paragraphIndex!);
+      }
+    } else if (chapterNumber) {
+      // A translation the server didn't serve: the newest cached original of the chapter, if there is one
+      const [latest] = await translationCache.listVersions(chapterUrl!, chapterNumber, targetLanguage);
+      const version = latest ? await translationCache.getVersion(chapterUrl!, chapterNumber, latest.id) : null;
+      if (version?.originalText) {
+        sourceParagraph = findSourceParagraph(version.originalText, version.translatedText, paragraphIndex!);
+      }
+    }
+
+    const novelKey = extractNovelKey(chapterUrl!);
+    const termChanges = findTermChanges(original!, corrected!);
+    const correction = await correctionsDB.add({
+      authorKey: clientKey,
+      novelKey,
+      chapterUrl: chapterUrl!,
+      versionId: versionId ?? null,
+      targetLanguage: targetLanguage!,
+      paragraphIndex: paragraphIndex!,
+      original: original!,
+      corrected: corrected!,
+      sourceParagraph
+    }, termChanges);
+
+    logSecurityEvent('TRANSLATION_CORRECTED', {
+      ip,
+      userAgent,
+      url: request.url,
+      reason: `Paragraph ${paragraphIndex} of ${chapterUrl}${termChanges.length ? `: ${termChanges.map(c => `${c.from} -> ${c.to}`).join(', ')}` : ''}`
+    });
+
+    // Recurring term changes become glossary proposals in the background. Finding the source term is a model
+    // call paid from the reader's budget, so there are none while it is exhausted.
+    if (termChanges.length > 0 && (await checkBudget(clientKey)).action === 'allow') {
+      const usage = createUsageTracker({ clientKey, clientIp: ip, novelKey, sourceUrl: chapterUrl });
+      scheduleGlossaryProposals(novelKey, targetLanguage!, termChanges, usage);
+    }
+
+    return NextResponse.json({ correction }, { status: 201 });
+  } catch (error) {
+    console.error('Correction save error:', error);
+    return NextResponse.json(
+      { error: 'Failed to save the correction' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/corrections - approve a pending correction, so it applies to everyone's text, or reject it:
+// { correctionId, status: 'approved' | 'rejected' }
+export async function PUT(request: NextRequest) {
+  const ip = getClientIP(request);
+  const userAgent = request.headers.get('user-agent') || undefined;
+
+  const limited = rateLimitResponse(ip, userAgent, request.url, '/api/corrections', 'CORRECTIONS_RATE_LIMIT_EXCEEDED');
+  if (limited) return limited;
+
+  const forbidden = adminRequiredResponse(request, ip, userAgent);
+  if (forbidden) return forbidden;
+
+  let requestData;
+  try {
+    requestData = await request.json();
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Invalid JSON in request body' },
+      { status: 400 }
+    );
+  }
+
+  const validation = validateRequest(requestData, 'correctionReview');
+  if (!validation.isValid) {
+    return NextResponse.json(
+      {
+        error: 'Request validation failed',
+        details: validation.errors
+      },
+      { status: 400 }
+    );
+  }
+
+  const { correctionId, review } = validation.sanitized!;
+  try {
+    const correction = await correctionsDB.review(correctionId!, review!);
+    if (!correction) {
+      return NextResponse.json(
+        { error: 'Pending correction not found' },
+        { status: 404 }
+      );
+    }
+
+    // The stored summary was made without the correction
+    if (correction.status === 'approved' && correction.versionId) {
+      await translationCache.setSummary(correction.versionId, null);
+    }
+
+    logSecurityEvent('TRANSLATION_CORRECTION_REVIEWED', {
+      ip,
+      userAgent,
+      url: request.url,
+      reason: `Correction ${correctionId} of ${correction.chapterUrl} ${correction.status}`
+    });
+
+    return NextResponse.json({ correction });
+  } catch (error) {
+    console.error('Correction review error:', error);
+    return NextResponse.json(
+      { error: 'Failed to review the correction' },
+      { status: 500 }
+    );
+  }
+}
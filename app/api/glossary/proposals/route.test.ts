@@ -0,0 +1,56 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+
+const correctionsDB = vi.hoisted(() => ({
+  acceptProposal: vi.fn(async () => ({ id: 3, source: '林凡', target: 'Lin Fan', targetLanguage: 'en' })),
+  resolveProposal: vi.fn(async () => ({ id: 3 }))
+}));
+
+vi.mock('../../../lib/corrections', () => ({ correctionsDB }));
+vi.mock('../../../lib/glossary', () => ({ glossaryDB: { getEntries: vi.fn(async () => []) } }));
+
+import { DELETE, PUT } from './route';
+
+function request(method: string, adminKey?: string): NextRequest {
+  return new NextRequest('http://localhost/api/glossary/proposals', {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      'x-real-ip': '203.0.113.10',
+      ...(adminKey ? { Authorization: `Bearer ${adminKey}` } : {})
+    },
+    body: JSON.stringify({ novelUrl: 'https://novels.example.com/book', proposalId: 3 })
+  });
+}
+
+const originalKey = process.env.ADMIN_API_KEY;
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  process.env.ADMIN_API_KEY = 'operator-key';
+});
+
+afterEach(() => {
+  if (originalKey === undefined) delete process.env.ADMIN_API_KEY;
+  else process.env.ADMIN_API_KEY = originalKey;
+});
+
+describe('glossary proposal review', () => {
+  it('accepts proposals only for the operator', async () => {
+    expect((await PUT(request('PUT'))).status).toBe(401);
+    expect(correctionsDB.acceptProposal).not.toHaveBeenCalled();
+
+    expect((await PUT(request('PUT', 'operator-key'))).status).toBe(200);
+    expect(correctionsDB.acceptProposal).toHaveBeenCalledWith('novels.example.com/book', 3);
+  });
+
+  it('dismisses proposals only for the operator', async () => {
+    expect((await DELETE(request('DELETE', 'wrong'))).status).toBe(401);
+    expect(correctionsDB.resolveProposal).not.toHaveBeenCalled();
+
+    expect((await DELETE(request('DELETE', 'operator-key'))).status).toBe(200);
+    expect(correctionsDB.resolveProposal).toHaveBeenCalledWith('novels.example.com/book', 3, 'dismissed');
+  });
+});
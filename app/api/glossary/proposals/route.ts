@@ -0,0 +1,153 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { rateLimitResponse } from '../../../lib/rate-limiter';
+import { correctionsDB } from '../../../lib/corrections';
+import { glossaryDB } from '../../../lib/glossary';
+import { extractNovelKey } from '../../../lib/url-prediction';
+import { validateRequest, getClientIP, logSecurityEvent, adminRequiredResponse } from '../../../lib/security';
+
+async function readProposalRequest(request: NextRequest) {
+  let requestData;
+  try {
+    requestData = await request.json();
+  } catch (error) {
+    return {
+      error: NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      )
+    };
+  }
+
+  const validation = validateRequest(
+    { novelUrl: requestData?.novelUrl, proposalId: requestData?.proposalId ?? null },
+    'glossaryProposal'
+  );
+  if (!validation.isValid) {
+    return {
+      error: NextResponse.json(
+        {
+          error: 'Request validation failed',
+          details: validation.errors
+        },
+        { status: 400 }
+      )
+    };
+  }
+
+  const { novelUrl, proposalId } = validation.sanitized!;
+  return { novelKey: extractNovelKey(novelUrl!), proposalId: proposalId! };
+}
+
+// GET /api/glossary/proposals?novelUrl=... - pending glossary entries proposed from reader corrections
+export async function GET(request: NextRequest) {
+  const ip = getClientIP(request);
+  const userAgent = request.headers.get('user-agent') || undefined;
+
+  const limited = rateLimitResponse(ip, userAgent, request.url, '/api/glossary', 'GLOSSARY_RATE_LIMIT_EXCEEDED');
+  if (limited) return limited;
+
+  const { searchParams } = new URL(request.url);
+  const validation = validateRequest({ novelUrl: searchParams.get('novelUrl') }, 'glossaryProposal');
+  if (!validation.isValid) {
+    return NextResponse.json(
+      {
+        error: 'Request validation failed',
+        details: validation.errors
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const novelKey = extractNovelKey(validation.sanitized!.novelUrl!);
+    const proposals = await correctionsDB.listProposals(novelKey);
+
+    return NextResponse.json({ novelKey, proposals });
+  } catch (error) {
+    console.error('Glossary proposal list error:', error);
+    return NextResponse.json(
+      { error: 'Failed to list glossary proposals' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/glossary/proposals - accept a proposal into the glossary of its target language: { novelUrl, proposalId }.
+// Reviewing proposals needs the admin key, like editing the glossary.
+export async function PUT(request: NextRequest) {
+  const ip = getClientIP(request);
+  const userAgent = request.headers.get('user-agent') || undefined;
+
+  const limited = rateLimitResponse(ip, userAgent, request.url, '/api/glossary', 'GLOSSARY_RATE_LIMIT_EXCEEDED');
+  if (limited) return limited;
+
+  const forbidden = adminRequiredResponse(request, ip, userAgent);
+  if (forbidden) return forbidden;
+
+  const parsed = await readProposalRequest(request);
+  if (parsed.error) return parsed.error;
+  const { novelKey, proposalId } = parsed;
+
+  try {
+    const proposal = await correctionsDB.acceptProposal(novelKey, proposalId);
+    if (!proposal) {
+      return NextResponse.json(
+        { error: 'No pending glossary proposal with this id' },
+        { status: 404 }
+      );
+    }
+
+    logSecurityEvent('GLOSSARY_UPDATED', {
+      ip,
+      userAgent,
+      url: request.url,
+      reason: `Accepted proposal ${proposal.source} -> ${proposal.target} for ${novelKey} (${proposal.targetLanguage})`
+    });
+
+    return NextResponse.json({
+      novelKey,
+      proposal,
+      entries: await glossaryDB.getEntries(novelKey, proposal.targetLanguage)
+    });
+  } catch (error) {
+    console.error('Glossary proposal accept error:', error);
+    return NextResponse.json(
+      { error: 'Failed to accept the glossary proposal' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/glossary/proposals - dismiss a proposal: { novelUrl, proposalId }
+export async function DELETE(request: NextRequest) {
+  const ip = getClientIP(request);
+  const userAgent = request.headers.get('user-agent') || undefined;
+
+  const limited = rateLimitResponse(ip, userAgent, request.url, '/api/glossary', 'GLOSSARY_RATE_LIMIT_EXCEEDED');
+  if (limited) return limited;
+
+  const forbidden = adminRequiredResponse(request, ip, userAgent);
+  if (forbidden) return forbidden;
+
+  const parsed = await readProposalRequest(request);
+  if (parsed.error) return parsed.error;
+  const { novelKey, proposalId } = parsed;
+
+  try {
+    const proposal = await correctionsDB.resolveProposal(novelKey, proposalId, 'dismissed');
+    if (!proposal) {
+      return NextResponse.json(
+        { error: 'No pending glossary proposal with this id' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ novelKey, proposal });
+  } catch (error) {
+    console.error('Glossary proposal dismiss error:', error);
+    return NextResponse.json(
+      { error: 'Failed to dismiss the glossary proposal' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,181 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { rateLimitResponse } from '../../lib/rate-limiter';
+import { glossaryDB } from '../../lib/glossary';
+import { extractNovelKey } from '../../lib/url-prediction';
+import { detectPromptInjection } from '../../lib/prompt-injection';
+import { validateRequest, getClientIP, logSecurityEvent, adminRequiredResponse } from '../../lib/security';
+
+// GET /api/glossary?novelUrl=...[&targetLanguage=...] - list the glossary of a novel for a target language
+export async function GET(request: NextRequest) {
+  const ip = getClientIP(request);
+  const userAgent = request.headers.get('user-agent') || undefined;
+
+  const limited = rateLimitResponse(ip, userAgent, request.url, '/api/glossary', 'GLOSSARY_RATE_LIMIT_EXCEEDED');
+  if (limited) return limited;
+
+  const { searchParams } = new URL(request.url);
+  const validation = validateRequest({
+    novelUrl: searchParams.get('novelUrl'),
+    targetLanguage: searchParams.get('targetLanguage')
+  }, 'glossary');
+  if (!validation.isValid) {
+    return NextResponse.json(
+      {
+        error: 'Request validation failed',
+        details: validation.errors
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { novelUrl, targetLanguage } = validation.sanitized!;
+    const novelKey = extractNovelKey(novelUrl!);
+    const entries = await glossaryDB.getEntries(novelKey, targetLanguage!);
+
+    return NextResponse.json({ novelKey, targetLanguage, entries });
+  } catch (error) {
+    console.error('Glossary get error:', error);
+    return NextResponse.json(
+      { error: 'Failed to retrieve glossary' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/glossary - add or update entries: { novelUrl, targetLanguage?, entries: [{ source, target, notes? }] }. The
+// write methods need the admin key, since entries go into the system instruction of every chapter of the novel.
+export async function PUT(request: NextRequest) {
+  const ip = getClientIP(request);
+  const userAgent = request.headers.get('user-agent') || undefined;
+
+  const limited = rateLimitResponse(ip, userAgent, request.url, '/api/glossary', 'GLOSSARY_RATE_LIMIT_EXCEEDED');
+  if (limited) return limited;
+
+  const forbidden = adminRequiredResponse(request, ip, userAgent);
+  if (forbidden) return forbidden;
+
+  let requestData;
+  try {
+    requestData = await request.json();
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Invalid JSON in request body' },
+      { status: 400 }
+    );
+  }
+
+  const validation = validateRequest(
+    { ...requestData, entries: requestData?.entries ?? null },
+    'glossary'
+  );
+  if (!validation.isValid) {
+    return NextResponse.json(
+      {
+        error: 'Request validation failed',
+        details: validation.errors
+      },
+      { status: 400 }
+    );
+  }
+
+  const { novelUrl, targetLanguage, entries } = validation.sanitized!;
+
+  const flagged = entries!.flatMap((entry, index) =>
+    detectPromptInjection(`${entry.target} ${entry.notes || ''}`).length > 0 ? [index] : []
+  );
+  if (flagged.length > 0) {
+    logSecurityEvent('GLOSSARY_INJECTION_REJECTED', {
+      ip,
+      userAgent,
+      url: request.url,
+      reason: `Entries ${flagged.join(', ')} read like instructions to a model`
+    });
+    return NextResponse.json(
+      {
+        error: 'Request validation failed',
+        details: flagged.map(index => `Entry ${index}: target and notes must not read like instructions to a model`)
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const novelKey = extractNovelKey(novelUrl!);
+    await glossaryDB.upsertEntries(novelKey, targetLanguage!, entries!);
+
+    logSecurityEvent('GLOSSARY_UPDATED', {
+      ip,
+      userAgent,
+      url: request.url,
+      reason: `${entries!.length} ${targetLanguage} entries for ${novelKey}`
+    });
+
+    return NextResponse.json({
+      novelKey,
+      targetLanguage,
+      entries: await glossaryDB.getEntries(novelKey, targetLanguage!)
+    });
+  } catch (error) {
+    console.error('Glossary update error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update glossary' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/glossary - remove an entry: { novelUrl, targetLanguage?, source }
+export async function DELETE(request: NextRequest) {
+  const ip = getClientIP(request);
+  const userAgent = request.headers.get('user-agent') || undefined;
+
+  const limited = rateLimitResponse(ip, userAgent, request.url, '/api/glossary', 'GLOSSARY_RATE_LIMIT_EXCEEDED');
+  if (limited) return limited;
+
+  const forbidden = adminRequiredResponse(request, ip, userAgent);
+  if (forbidden) return forbidden;
+
+  let requestData;
+  try {
+    requestData = await request.json();
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Invalid JSON in request body' },
+      { status: 400 }
+    );
+  }
+
+  const validation = validateRequest(requestData, 'glossary');
+  const source = typeof requestData?.source === 'string' ? requestData.source.trim() : '';
+  if (!validation.isValid || !source) {
+    return NextResponse.json(
+      {
+        error: 'Request validation failed',
+        details: source ? validation.errors : [...validation.errors, 'Source term is required']
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { novelUrl, targetLanguage } = validation.sanitized!;
+    const novelKey = extractNovelKey(novelUrl!);
+    const deleted = await glossaryDB.deleteEntry(novelKey, targetLanguage!, source);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Glossary entry not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ novelKey, deleted: source });
+  } catch (error) {
+    console.error('Glossary delete error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete glossary entry' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,157 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { rateLimitResponse } from '../../lib/rate-limiter';
+import { translationJobDB, jobWorker } from '../../lib/jobs';
+import { getClientKey } from '../../lib/usage';
+import { validateRequest, getClientIP, logSecurityEvent } from '../../lib/security';
+
+function parseJobId(value: unknown): number | null {
+  const id = typeof value === 'number' ? value : parseInt(String(value ?? ''), 10);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+// GET /api/jobs - recent jobs; GET /api/jobs?id=... - one job with per-chapter progress
+export async function GET(request: NextRequest) {
+  const ip = getClientIP(request);
+  const userAgent = request.headers.get('user-agent') || undefined;
+
+  const limited = rateLimitResponse(ip, userAgent, request.url, '/api/jobs', 'JOBS_RATE_LIMIT_EXCEEDED');
+  if (limited) return limited;
+
+  // Workers start with the first request that touches the queue after a server start
+  jobWorker.start();
+
+  const { searchParams } = new URL(request.url);
+
+  try {
+    if (!searchParams.has('id')) {
+      return NextResponse.json({ jobs: await translationJobDB.list() });
+    }
+
+    const id = parseJobId(searchParams.get('id'));
+    if (!id) {
+      return NextResponse.json({ error: 'Invalid job id' }, { status: 400 });
+    }
+
+    const job = await translationJobDB.get(id);
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ job });
+  } catch (error) {
+    console.error('Job lookup error:', error);
+    return NextResponse.json(
+      { error: 'Failed to retrieve jobs' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/jobs - queue a job: { startUrl, chapterCount, targetLanguage? }
+export async function POST(request: NextRequest) {
+  const ip = getClientIP(request);
+  const userAgent = request.headers.get('user-agent') || undefined;
+
+  const limited = rateLimitResponse(ip, userAgent, request.url, '/api/jobs', 'JOBS_RATE_LIMIT_EXCEEDED');
+  if (limited) return limited;
+
+  let requestData;
+  try {
+    requestData = await request.json();
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Invalid JSON in request body' },
+      { status: 400 }
+    );
+  }
+
+  const validation = validateRequest(requestData, 'job');
+  if (!validation.isValid) {
+    logSecurityEvent('JOB_VALIDATION_FAILED', {
+      ip,
+      userAgent,
+      url: request.url,
+      reason: `Validation errors: ${validation.errors.join(', ')}`
+    });
+
+    return NextResponse.json(
+      {
+        error: 'Request validation failed',
+        details: validation.errors
+      },
+      { status: 400 }
+    );
+  }
+
+  const { startUrl, chapterCount, targetLanguage } = validation.sanitized!;
+
+  try {
+    const job = await translationJobDB.create(startUrl!, chapterCount!, targetLanguage!, ip, getClientKey(request, ip));
+
+    logSecurityEvent('JOB_QUEUED', {
+      ip,
+      userAgent,
+      url: request.url,
+      reason: `Job ${job.id}: ${chapterCount} chapters from ${startUrl}`
+    });
+
+    jobWorker.wake();
+
+    return NextResponse.json({ job }, { status: 202 });
+  } catch (error) {
+    console.error('Job creation error:', error);
+    return NextResponse.json(
+      { error: 'Failed to queue job' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/jobs - cancel a queued or running job: { id }
+export async function DELETE(request: NextRequest) {
+  const ip = getClientIP(request);
+  const userAgent = request.headers.get('user-agent') || undefined;
+
+  const limited = rateLimitResponse(ip, userAgent, request.url, '/api/jobs', 'JOBS_RATE_LIMIT_EXCEEDED');
+  if (limited) return limited;
+
+  let requestData;
+  try {
+    requestData = await request.json();
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Invalid JSON in request body' },
+      { status: 400 }
+    );
+  }
+
+  const id = parseJobId(requestData?.id);
+  if (!id) {
+    return NextResponse.json({ error: 'Invalid job id' }, { status: 400 });
+  }
+
+  try {
+    const cancelled = await translationJobDB.cancel(id);
+    if (!cancelled) {
+      return NextResponse.json(
+        { error: 'Job not found or already finished' },
+        { status: 409 }
+      );
+    }
+
+    logSecurityEvent('JOB_CANCELLED', {
+      ip,
+      userAgent,
+      url: request.url,
+      reason: `Job ${id} cancelled`
+    });
+
+    return NextResponse.json({ job: await translationJobDB.get(id) });
+  } catch (error) {
+    console.error('Job cancel error:', error);
+    return NextResponse.json(
+      { error: 'Failed to cancel job' },
+      { status: 500 }
+    );
+  }
+}
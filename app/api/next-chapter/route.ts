@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { navigationEngine } from '../../lib/pattern-storage';
 import { cache } from '../../lib/cache';
-import { checkRateLimit } from '../../lib/rate-limiter';
+import { rateLimitResponse } from '../../lib/rate-limiter';
 import { validateRequest, getClientIP, logSecurityEvent } from '../../lib/security';
 
 // Response interfaces
@@ -45,30 +45,8 @@ export async function POST(request: NextRequest) {
 
   try {
     // Rate limiting check
-    const rateLimitResult = checkRateLimit(ip, '/api/next-chapter');
-    if (!rateLimitResult.success) {
-      logSecurityEvent('NEXT_CHAPTER_RATE_LIMIT_EXCEEDED', {
-        ip,
-        userAgent,
-        url: request.url,
-        reason: 'Rate limit exceeded at API level'
-      });
-
-      const response = NextResponse.json(
-        { 
-          error: 'Rate limit exceeded',
-          message: 'Too many navigation requests. Please try again later.',
-          retryAfter: rateLimitResult.retryAfter || 60
-        } as NextChapterErrorResponse,
-        { status: 429 }
-      );
-
-      if (rateLimitResult.retryAfter) {
-        response.headers.set('Retry-After', rateLimitResult.retryAfter.toString());
-      }
-
-      return response;
-    }
+    const limited = rateLimitResponse(ip, userAgent, request.url, '/api/next-chapter', 'NEXT_CHAPTER_RATE_LIMIT_EXCEEDED');
+    if (limited) return limited;
 
     // Parse and validate request
     let requestData;
@@ -215,18 +193,13 @@ export async function POST(request: NextRequest) {
 export async function GET(request: NextRequest) {
   const startTime = Date.now();
   const ip = getClientIP(request);
+  const userAgent = request.headers.get('user-agent') || undefined;
   
   logSecurityEvent('NEXT_CHAPTER_STATS_REQUEST', { ip });
 
   try {
-    // Simple rate limiting for GET requests
-    const rateLimitResult = checkRateLimit(ip, '/api/next-chapter');
-    if (!rateLimitResult.success) {
-      return NextResponse.json(
-        { error: 'Rate limit exceeded' },
-        { status: 429 }
-      );
-    }
+    const limited = rateLimitResponse(ip, userAgent, request.url, '/api/next-chapter', 'NEXT_CHAPTER_RATE_LIMIT_EXCEEDED');
+    if (limited) return limited;
 
     const patterns = await navigationEngine['storage'].getPatterns();
     const stats = {
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { rateLimitResponse } from '../../../lib/rate-limiter';
+import { translationCache } from '../../../lib/translation-cache';
+import { correctionsDB } from '../../../lib/corrections';
+import { promptTemplateDB, BUILT_IN_PROMPT_TEMPLATE } from '../../../lib/prompt-templates';
+import { LOW_CONFIDENCE_THRESHOLD } from '../../../lib/confidence';
+import { getClientIP, logSecurityEvent } from '../../../lib/security';
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+// GET /api/prompt-templates/compare[?days=30] - confidence, fidelity failures and reader corrections of the
+// translations made with each template. Without days, covers everything since the first template was saved,
+// so chapters translated before the split started don't count towards the built-in template.
+export async function GET(request: NextRequest) {
+  const ip = getClientIP(request);
+  const userAgent = request.headers.get('user-agent') || undefined;
+
+  const limited = rateLimitResponse(ip, userAgent, request.url, '/api/prompt-templates', 'PROMPT_TEMPLATES_RATE_LIMIT_EXCEEDED');
+  if (limited) return limited;
+
+  const { searchParams } = new URL(request.url);
+  const days = searchParams.has('days') ? parseInt(searchParams.get('days')!, 10) : null;
+  if (days !== null && (isNaN(days) || days < 1 || days > 365)) {
+    return NextResponse.json(
+      {
+        error: 'Request validation failed',
+        details: ['days must be between 1 and 365']
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const templates = await promptTemplateDB.list();
+    const since = days !== null
+      ? new Date(Date.now() - days * 24 * 60 * 60 * 1000)
+      : await promptTemplateDB.getFirstCreatedAt();
+    if (!since) {
+      return NextResponse.json({ since: null, templates: [] });
+    }
+
+    const stats = await translationCache.summarizeByPromptTemplate(since, LOW_CONFIDENCE_THRESHOLD);
+    const corrections = await correctionsDB.countByPromptTemplate(since);
+
+    const comparison = stats.map(stat => {
+      const template = templates.find(candidate => candidate.id === stat.promptTemplateId);
+      const corrected = corrections.find(count => count.promptTemplateId === stat.promptTemplateId);
+      const correctionCount = corrected?.corrections ?? 0;
+
+      return {
+        template: template
+          ? { id: template.id, name: template.name, version: template.version, trafficPercent: template.trafficPercent }
+          : { id: stat.promptTemplateId, name: BUILT_IN_PROMPT_TEMPLATE.name, version: BUILT_IN_PROMPT_TEMPLATE.version },
+        translations: stat.translations,
+        averageConfidence: stat.averageConfidence === null ? null : round(stat.averageConfidence),
+        lowConfidenceRate: round(stat.lowConfidence / stat.translations),
+        fidelityFailureRate: stat.fidelityChecked > 0 ? round(stat.fidelityFailures / stat.fidelityChecked) : null,
+        corrections: correctionCount,
+        correctionsPerTranslation: round(correctionCount / stat.translations),
+        correctedShare: round((corrected?.correctedTranslations ?? 0) / stat.translations)
+      };
+    });
+    comparison.sort((a, b) => b.translations - a.translations);
+
+    return NextResponse.json({
+      since: since.getTime(),
+      lowConfidenceThreshold: LOW_CONFIDENCE_THRESHOLD,
+      templates: comparison
+    });
+  } catch (error) {
+    console.error('Prompt template comparison error:', error);
+    return NextResponse.json(
+      { error: 'Failed to compare prompt templates' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,203 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { rateLimitResponse } from '../../lib/rate-limiter';
+import { promptTemplateDB, findUnknownPlaceholders, BUILT_IN_PROMPT_TEMPLATE } from '../../lib/prompt-templates';
+import { PROMPT_PLACEHOLDERS } from '../../lib/translation-prompt';
+import { validateRequest, getClientIP, logSecurityEvent, adminRequiredResponse } from '../../lib/security';
+
+async function readTemplateRequest(request: NextRequest, fields: (data: any) => object) {
+  let requestData;
+  try {
+    requestData = await request.json();
+  } catch (error) {
+    return {
+      error: NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      )
+    };
+  }
+
+  const validation = validateRequest(requestData && typeof requestData === 'object' ? fields(requestData) : null, 'promptTemplate');
+  if (!validation.isValid) {
+    return {
+      error: NextResponse.json(
+        {
+          error: 'Request validation failed',
+          details: validation.errors
+        },
+        { status: 400 }
+      )
+    };
+  }
+
+  return { sanitized: validation.sanitized! };
+}
+
+function overAllocated(trafficPercent: number, allocated: number): NextResponse {
+  return NextResponse.json(
+    {
+      error: 'Traffic over 100%',
+      details: [`${allocated}% of traffic is already assigned to other templates; ${trafficPercent}% does not fit`]
+    },
+    { status: 409 }
+  );
+}
+
+// GET /api/prompt-templates - every template version with its traffic share, and the built-in template
+export async function GET(request: NextRequest) {
+  const ip = getClientIP(request);
+  const userAgent = request.headers.get('user-agent') || undefined;
+
+  const limited = rateLimitResponse(ip, userAgent, request.url, '/api/prompt-templates', 'PROMPT_TEMPLATES_RATE_LIMIT_EXCEEDED');
+  if (limited) return limited;
+
+  try {
+    const templates = await promptTemplateDB.list();
+    const allocated = templates.reduce((sum, template) => sum + template.trafficPercent, 0);
+
+    return NextResponse.json({
+      templates,
+      builtIn: { ...BUILT_IN_PROMPT_TEMPLATE, trafficPercent: 100 - allocated },
+      placeholders: PROMPT_PLACEHOLDERS
+    });
+  } catch (error) {
+    console.error('Prompt template list error:', error);
+    return NextResponse.json(
+      { error: 'Failed to list prompt templates' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/prompt-templates - save a new version: { name, body, description?, trafficPercent? }. The write
+// methods need the admin key, since a template is the system instruction of every translation it serves.
+export async function POST(request: NextRequest) {
+  const ip = getClientIP(request);
+  const userAgent = request.headers.get('user-agent') || undefined;
+
+  const limited = rateLimitResponse(ip, userAgent, request.url, '/api/prompt-templates', 'PROMPT_TEMPLATES_RATE_LIMIT_EXCEEDED');
+  if (limited) return limited;
+
+  const forbidden = adminRequiredResponse(request, ip, userAgent);
+  if (forbidden) return forbidden;
+
+  const read = await readTemplateRequest(request, ({ name, body, description, trafficPercent }) => (
+    { name, body, description, trafficPercent }
+  ));
+  if (read.error) return read.error;
+
+  const { templateName, templateBody, description, trafficPercent = 0 } = read.sanitized;
+  const unknown = findUnknownPlaceholders(templateBody!);
+  if (unknown.length > 0) {
+    return NextResponse.json(
+      {
+        error: 'Request validation failed',
+        details: [`Unknown placeholders: ${unknown.join(', ')} (allowed: ${PROMPT_PLACEHOLDERS.join(', ')})`]
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const template = await promptTemplateDB.addVersion(templateName!, templateBody!, description || null, trafficPercent);
+    if (!template) {
+      const templates = await promptTemplateDB.list();
+      return overAllocated(trafficPercent, templates.reduce((sum, existing) => sum + existing.trafficPercent, 0));
+    }
+
+    logSecurityEvent('PROMPT_TEMPLATE_CREATED', {
+      ip,
+      userAgent,
+      url: request.url,
+      reason: `${template.name} v${template.version} at ${template.trafficPercent}% of traffic`
+    });
+
+    return NextResponse.json({ template }, { status: 201 });
+  } catch (error) {
+    console.error('Prompt template create error:', error);
+    return NextResponse.json(
+      { error: 'Failed to save the prompt template' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/prompt-templates - change the traffic share of a version: { templateId, trafficPercent }
+export async function PUT(request: NextRequest) {
+  const ip = getClientIP(request);
+  const userAgent = request.headers.get('user-agent') || undefined;
+
+  const limited = rateLimitResponse(ip, userAgent, request.url, '/api/prompt-templates', 'PROMPT_TEMPLATES_RATE_LIMIT_EXCEEDED');
+  if (limited) return limited;
+
+  const forbidden = adminRequiredResponse(request, ip, userAgent);
+  if (forbidden) return forbidden;
+
+  const read = await readTemplateRequest(request, ({ templateId, trafficPercent }) => (
+    { templateId: templateId ?? null, trafficPercent: trafficPercent ?? null }
+  ));
+  if (read.error) return read.error;
+
+  const { templateId, trafficPercent } = read.sanitized;
+  return updateTraffic(request, ip, userAgent, templateId!, trafficPercent!);
+}
+
+// DELETE /api/prompt-templates - stop sending traffic to a version: { templateId }. Versions are kept, since
+// cached translations refer to them.
+export async function DELETE(request: NextRequest) {
+  const ip = getClientIP(request);
+  const userAgent = request.headers.get('user-agent') || undefined;
+
+  const limited = rateLimitResponse(ip, userAgent, request.url, '/api/prompt-templates', 'PROMPT_TEMPLATES_RATE_LIMIT_EXCEEDED');
+  if (limited) return limited;
+
+  const forbidden = adminRequiredResponse(request, ip, userAgent);
+  if (forbidden) return forbidden;
+
+  const read = await readTemplateRequest(request, ({ templateId }) => ({ templateId: templateId ?? null }));
+  if (read.error) return read.error;
+
+  return updateTraffic(request, ip, userAgent, read.sanitized.templateId!, 0);
+}
+
+async function updateTraffic(
+  request: NextRequest,
+  ip: string,
+  userAgent: string | undefined,
+  templateId: number,
+  trafficPercent: number
+): Promise<NextResponse> {
+  try {
+    const existing = await promptTemplateDB.get(templateId);
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Prompt template not found' },
+        { status: 404 }
+      );
+    }
+
+    const template = await promptTemplateDB.setTraffic(templateId, trafficPercent);
+    if (!template) {
+      const templates = await promptTemplateDB.list();
+      const allocated = templates
+        .filter(other => other.id !== templateId)
+        .reduce((sum, other) => sum + other.trafficPercent, 0);
+      return overAllocated(trafficPercent, allocated);
+    }
+
+    logSecurityEvent('PROMPT_TEMPLATE_TRAFFIC_UPDATED', {
+      ip,
+      userAgent,
+      url: request.url,
+      reason: `${template.name} v${template.version}: ${existing.trafficPercent}% -> ${template.trafficPercent}%`
+    });
+
+    return NextResponse.json({ template });
+  } catch (error) {
+    console.error('Prompt template update error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update the prompt template' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { rateLimitResponse } from '../../../lib/rate-limiter';
+import { getProviderChain, getDegradedProviderChain } from '../../../lib/providers/registry';
+import { getBreakerStatuses } from '../../../lib/providers/circuit-breaker';
+import { getClientIP, logSecurityEvent } from '../../../lib/security';
+
+// GET /api/providers/health - circuit breaker state of every provider in the configured chains
+export async function GET(request: NextRequest) {
+  const ip = getClientIP(request);
+  const userAgent = request.headers.get('user-agent') || undefined;
+
+  const limited = rateLimitResponse(ip, userAgent, request.url, '/api/providers/health', 'PROVIDER_HEALTH_RATE_LIMIT_EXCEEDED');
+  if (limited) return limited;
+
+  const chain = getProviderChain();
+  const degradedChain = getDegradedProviderChain();
+  const providers = [...chain, ...degradedChain.filter(provider => !chain.includes(provider))];
+
+  return NextResponse.json({
+    providers: getBreakerStatuses(providers),
+    chain: chain.map(provider => provider.id),
+    degradedChain: degradedChain.map(provider => provider.id)
+  });
+}
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { checkRateLimit } from '../../lib/rate-limiter';
+import { rateLimitResponse } from '../../lib/rate-limiter';
 import { cache, cacheHelpers } from '../../lib/cache';
 import { 
   validateRequest, 
@@ -22,30 +22,8 @@ export async function POST(request: NextRequest) {
 
   try {
     // Rate limiting check
-    const rateLimitResult = checkRateLimit(ip, '/api/scrape');
-    if (!rateLimitResult.success) {
-      logSecurityEvent('SCRAPE_RATE_LIMIT_EXCEEDED', {
-        ip,
-        userAgent,
-        url: request.url,
-        reason: 'Rate limit exceeded at API level'
-      });
-
-      const response = NextResponse.json(
-        { 
-          error: 'Rate limit exceeded',
-          message: 'Too many scrape requests. Please try again later.',
-          retryAfter: rateLimitResult.retryAfter || 60
-        },
-        { status: 429 }
-      );
-
-      if (rateLimitResult.retryAfter) {
-        response.headers.set('Retry-After', rateLimitResult.retryAfter.toString());
-      }
-
-      return response;
-    }
+    const limited = rateLimitResponse(ip, userAgent, request.url, '/api/scrape', 'SCRAPE_RATE_LIMIT_EXCEEDED');
+    if (limited) return limited;
 
     // Parse and validate request
     let requestData;
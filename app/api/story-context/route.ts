@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { rateLimitResponse } from '../../lib/rate-limiter';
+import { storyContextDB } from '../../lib/story-context';
+import { extractNovelKey } from '../../lib/url-prediction';
+import { validateRequest, getClientIP, logSecurityEvent } from '../../lib/security';
+
+// GET /api/story-context?novelUrl=...&targetLanguage=en - the story so far used when translating a novel
+export async function GET(request: NextRequest) {
+  const ip = getClientIP(request);
+  const userAgent = request.headers.get('user-agent') || undefined;
+
+  const limited = rateLimitResponse(ip, userAgent, request.url, '/api/story-context', 'STORY_CONTEXT_RATE_LIMIT_EXCEEDED');
+  if (limited) return limited;
+
+  const { searchParams } = new URL(request.url);
+  const validation = validateRequest({
+    novelUrl: searchParams.get('novelUrl'),
+    targetLanguage: searchParams.get('targetLanguage')
+  }, 'storyContext');
+  if (!validation.isValid) {
+    return NextResponse.json(
+      {
+        error: 'Request validation failed',
+        details: validation.errors
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const novelKey = extractNovelKey(validation.sanitized!.novelUrl!);
+    const context = await storyContextDB.get(novelKey, validation.sanitized!.targetLanguage!);
+
+    return NextResponse.json({ novelKey, context });
+  } catch (error) {
+    console.error('Story context get error:', error);
+    return NextResponse.json(
+      { error: 'Failed to retrieve story context' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/story-context - start the story so far over: { novelUrl, targetLanguage? }
+export async function DELETE(request: NextRequest) {
+  const ip = getClientIP(request);
+  const userAgent = request.headers.get('user-agent') || undefined;
+
+  const limited = rateLimitResponse(ip, userAgent, request.url, '/api/story-context', 'STORY_CONTEXT_RATE_LIMIT_EXCEEDED');
+  if (limited) return limited;
+
+  let requestData;
+  try {
+    requestData = await request.json();
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Invalid JSON in request body' },
+      { status: 400 }
+    );
+  }
+
+  const validation = validateRequest(requestData, 'storyContext');
+  if (!validation.isValid) {
+    return NextResponse.json(
+      {
+        error: 'Request validation failed',
+        details: validation.errors
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const novelKey = extractNovelKey(validation.sanitized!.novelUrl!);
+    const deleted = await storyContextDB.delete(novelKey, validation.sanitized!.targetLanguage!);
+
+    logSecurityEvent('STORY_CONTEXT_RESET', {
+      ip,
+      userAgent,
+      url: request.url,
+      reason: `Story context reset for ${novelKey}`
+    });
+
+    return NextResponse.json({ novelKey, deleted });
+  } catch (error) {
+    console.error('Story context delete error:', error);
+    return NextResponse.json(
+      { error: 'Failed to reset story context' },
+      { status: 500 }
+    );
+  }
+}
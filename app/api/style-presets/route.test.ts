@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+
+const novelStyleDB = vi.hoisted(() => ({
+  getPresetId: vi.fn(async () => null),
+  setPresetId: vi.fn(async () => {}),
+  clear: vi.fn(async () => true)
+}));
+
+vi.mock('../../lib/style-presets', async importOriginal => ({
+  ...await importOriginal<typeof import('../../lib/style-presets')>(),
+  novelStyleDB
+}));
+
+import { extractNovelKey } from '../../lib/url-prediction';
+import { DEFAULT_STYLE_PRESET } from '../../lib/style-presets';
+import { DELETE, PUT } from './route';
+
+const novelUrl = 'https://r.jina.ai/https://novels.example.com/book/12';
+const novelKey = extractNovelKey(novelUrl);
+
+function request(method: string, body: unknown, adminKey?: string): NextRequest {
+  return new NextRequest('http://localhost/api/style-presets', {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      'x-real-ip': '203.0.113.8',
+      ...(adminKey ? { Authorization: `Bearer ${adminKey}` } : {})
+    },
+    body: JSON.stringify(body)
+  });
+}
+
+const originalKey = process.env.ADMIN_API_KEY;
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  process.env.ADMIN_API_KEY = 'operator-key';
+});
+
+afterEach(() => {
+  if (originalKey === undefined) delete process.env.ADMIN_API_KEY;
+  else process.env.ADMIN_API_KEY = originalKey;
+});
+
+describe('PUT /api/style-presets', () => {
+  const body = { novelUrl, stylePreset: DEFAULT_STYLE_PRESET };
+
+  it('needs the admin key', async () => {
+    expect((await PUT(request('PUT', body))).status).toBe(401);
+    expect((await PUT(request('PUT', body, 'wrong'))).status).toBe(401);
+    expect(novelStyleDB.setPresetId).not.toHaveBeenCalled();
+
+    delete process.env.ADMIN_API_KEY;
+    expect((await PUT(request('PUT', body, 'operator-key'))).status).toBe(403);
+  });
+
+  it('saves the preset for the operator', async () => {
+    const response = await PUT(request('PUT', body, 'operator-key'));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ novelKey, novelPreset: DEFAULT_STYLE_PRESET });
+    expect(novelStyleDB.setPresetId).toHaveBeenCalledWith(novelKey, DEFAULT_STYLE_PRESET);
+  });
+});
+
+describe('DELETE /api/style-presets', () => {
+  it('needs the admin key', async () => {
+    expect((await DELETE(request('DELETE', { novelUrl }))).status).toBe(401);
+    expect(novelStyleDB.clear).not.toHaveBeenCalled();
+
+    expect((await DELETE(request('DELETE', { novelUrl }, 'operator-key'))).status).toBe(200);
+    expect(novelStyleDB.clear).toHaveBeenCalledWith(novelKey);
+  });
+});
@@ -0,0 +1,165 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { rateLimitResponse } from '../../lib/rate-limiter';
+import { getStylePresets, getStylePreset, novelStyleDB, DEFAULT_STYLE_PRESET } from '../../lib/style-presets';
+import { extractNovelKey } from '../../lib/url-prediction';
+import { validateRequest, getClientIP, logSecurityEvent, adminRequiredResponse } from '../../lib/security';
+
+// GET /api/style-presets[?novelUrl=...] - the available presets, and the one saved for the novel
+export async function GET(request: NextRequest) {
+  const ip = getClientIP(request);
+  const userAgent = request.headers.get('user-agent') || undefined;
+
+  const limited = rateLimitResponse(ip, userAgent, request.url, '/api/style-presets', 'STYLE_PRESETS_RATE_LIMIT_EXCEEDED');
+  if (limited) return limited;
+
+  const presets = getStylePresets();
+  const { searchParams } = new URL(request.url);
+  if (!searchParams.has('novelUrl')) {
+    return NextResponse.json({ presets, defaultPreset: DEFAULT_STYLE_PRESET });
+  }
+
+  const validation = validateRequest({ novelUrl: searchParams.get('novelUrl') }, 'novelStyle');
+  if (!validation.isValid) {
+    return NextResponse.json(
+      {
+        error: 'Request validation failed',
+        details: validation.errors
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const novelKey = extractNovelKey(validation.sanitized!.novelUrl!);
+    const novelPreset = await novelStyleDB.getPresetId(novelKey);
+
+    return NextResponse.json({ presets, defaultPreset: DEFAULT_STYLE_PRESET, novelKey, novelPreset });
+  } catch (error) {
+    console.error('Novel style get error:', error);
+    return NextResponse.json(
+      { error: 'Failed to retrieve the novel style' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/style-presets - save the preset used for a novel: { novelUrl, stylePreset }. The write methods need the
+// admin key, since the saved preset applies to every reader of the novel who doesn't pick one.
+export async function PUT(request: NextRequest) {
+  const ip = getClientIP(request);
+  const userAgent = request.headers.get('user-agent') || undefined;
+
+  const limited = rateLimitResponse(ip, userAgent, request.url, '/api/style-presets', 'STYLE_PRESETS_RATE_LIMIT_EXCEEDED');
+  if (limited) return limited;
+
+  const forbidden = adminRequiredResponse(request, ip, userAgent);
+  if (forbidden) return forbidden;
+
+  let requestData;
+  try {
+    requestData = await request.json();
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Invalid JSON in request body' },
+      { status: 400 }
+    );
+  }
+
+  const validation = validateRequest(
+    { ...requestData, stylePreset: requestData?.stylePreset ?? null },
+    'novelStyle'
+  );
+  if (!validation.isValid) {
+    return NextResponse.json(
+      {
+        error: 'Request validation failed',
+        details: validation.errors
+      },
+      { status: 400 }
+    );
+  }
+
+  const { novelUrl, stylePreset } = validation.sanitized!;
+  if (!getStylePreset(stylePreset!)) {
+    return NextResponse.json(
+      {
+        error: 'Request validation failed',
+        details: [`Unknown style preset: ${stylePreset}`]
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const novelKey = extractNovelKey(novelUrl!);
+    await novelStyleDB.setPresetId(novelKey, stylePreset!);
+
+    logSecurityEvent('NOVEL_STYLE_UPDATED', {
+      ip,
+      userAgent,
+      url: request.url,
+      reason: `${stylePreset} for ${novelKey}`
+    });
+
+    return NextResponse.json({ novelKey, novelPreset: stylePreset });
+  } catch (error) {
+    console.error('Novel style update error:', error);
+    return NextResponse.json(
+      { error: 'Failed to save the novel style' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/style-presets - go back to the default preset for a novel: { novelUrl }
+export async function DELETE(request: NextRequest) {
+  const ip = getClientIP(request);
+  const userAgent = request.headers.get('user-agent') || undefined;
+
+  const limited = rateLimitResponse(ip, userAgent, request.url, '/api/style-presets', 'STYLE_PRESETS_RATE_LIMIT_EXCEEDED');
+  if (limited) return limited;
+
+  const forbidden = adminRequiredResponse(request, ip, userAgent);
+  if (forbidden) return forbidden;
+
+  let requestData;
+  try {
+    requestData = await request.json();
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Invalid JSON in request body' },
+      { status: 400 }
+    );
+  }
+
+  const validation = validateRequest({ novelUrl: requestData?.novelUrl }, 'novelStyle');
+  if (!validation.isValid) {
+    return NextResponse.json(
+      {
+        error: 'Request validation failed',
+        details: validation.errors
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const novelKey = extractNovelKey(validation.sanitized!.novelUrl!);
+    const cleared = await novelStyleDB.clear(novelKey);
+
+    if (!cleared) {
+      return NextResponse.json(
+        { error: 'No style preset saved for this novel' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ novelKey, novelPreset: null });
+  } catch (error) {
+    console.error('Novel style delete error:', error);
+    return NextResponse.json(
+      { error: 'Failed to clear the novel style' },
+      { status: 500 }
+    );
+  }
+}
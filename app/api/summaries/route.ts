@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { rateLimitResponse } from '../../lib/rate-limiter';
+import { summarizeChapter, summarizeVersion, type ChapterSummaryResult } from '../../lib/chapter-summaries';
+import { checkBudget, createUsageTracker, getClientKey } from '../../lib/usage';
+import { extractNovelKey } from '../../lib/url-prediction';
+import { validateRequest, getClientIP, logSecurityEvent } from '../../lib/security';
+
+// POST /api/summaries - spoiler-safe summary of one translated chapter: { sourceUrl, versionId } for a cached
+// version, where the summary is stored with it, or { text, targetLanguage? } for a translation the server
+// doesn't have
+export async function POST(request: NextRequest) {
+  const ip = getClientIP(request);
+  const userAgent = request.headers.get('user-agent') || undefined;
+
+  const limited = rateLimitResponse(ip, userAgent, request.url, '/api/summaries', 'SUMMARIES_RATE_LIMIT_EXCEEDED');
+  if (limited) return limited;
+
+  let requestData;
+  try {
+    requestData = await request.json();
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Invalid JSON in request body' },
+      { status: 400 }
+    );
+  }
+
+  const validation = validateRequest(requestData, 'chapterSummary');
+  if (!validation.isValid) {
+    return NextResponse.json(
+      {
+        error: 'Request validation failed',
+        details: validation.errors
+      },
+      { status: 400 }
+    );
+  }
+
+  const { sourceUrl, chapterNumber, versionId, text, targetLanguage } = validation.sanitized!;
+  try {
+    const clientKey = getClientKey(request, ip);
+    const budget = await checkBudget(clientKey);
+    const usage = createUsageTracker({
+      clientKey,
+      clientIp: ip,
+      novelKey: sourceUrl ? extractNovelKey(sourceUrl) : null,
+      sourceUrl
+    });
+
+    const result: ChapterSummaryResult = versionId !== undefined
+      ? await summarizeVersion(sourceUrl!, chapterNumber!, versionId, { usage, budget })
+      : await summarizeChapter(text!, targetLanguage!, { usage, budget });
+
+    if (result.status === 'not-found') {
+      return NextResponse.json(
+        { error: 'Translation version not found' },
+        { status: 404 }
+      );
+    }
+
+    if (result.status === 'over-budget') {
+      const retryAfter = Math.max(1, Math.ceil((result.budget.resetAt! - Date.now()) / 1000));
+      logSecurityEvent('SUMMARY_BUDGET_EXCEEDED', {
+        ip,
+        userAgent,
+        url: request.url,
+        reason: `${result.budget.period} budget of $${result.budget.limitUsd} exhausted for ${clientKey}`
+      });
+
+      const response = NextResponse.json(
+        {
+          error: 'Budget exceeded',
+          details: [`The ${result.budget.period} translation budget for this client is exhausted`],
+          budget: result.budget,
+          retryAfter
+        },
+        { status: 429 }
+      );
+      response.headers.set('Retry-After', retryAfter.toString());
+      return response;
+    }
+
+    if (result.status === 'unconfigured') {
+      return NextResponse.json(
+        { error: 'No instruction-following model is configured for summaries' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      summary: result.summary,
+      versionId: result.versionId,
+      cached: result.status === 'cached',
+      usage: usage.getTotals()
+    });
+  } catch (error) {
+    console.error('Chapter summary error:', error);
+    return NextResponse.json(
+      { error: 'Failed to summarize the chapter' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,210 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { rateLimitResponse } from '../../../lib/rate-limiter';
+import { modelComparisonDB, voteForParagraph, approveComparison, toPublicComparison } from '../../../lib/model-comparison';
+import { getClientKey } from '../../../lib/usage';
+import { validateRequest, getClientIP, logSecurityEvent, adminRequiredResponse } from '../../../lib/security';
+
+// GET /api/translate/compare?comparisonId=... - the candidates of a comparison, aligned by paragraph, with the vote
+// tallies and the requesting reader's own picks
+export async function GET(request: NextRequest) {
+  const ip = getClientIP(request);
+  const userAgent = request.headers.get('user-agent') || undefined;
+
+  const limited = rateLimitResponse(ip, userAgent, request.url, '/api/translate/compare', 'TRANSLATE_COMPARE_RATE_LIMIT_EXCEEDED');
+  if (limited) return limited;
+
+  const { searchParams } = new URL(request.url);
+  const validation = validateRequest({ comparisonId: Number(searchParams.get('comparisonId')) }, 'comparisonVote');
+  if (!validation.isValid) {
+    return NextResponse.json(
+      {
+        error: 'Request validation failed',
+        details: validation.errors
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const comparison = await modelComparisonDB.get(validation.sanitized!.comparisonId!);
+    if (!comparison) {
+      return NextResponse.json(
+        { error: 'Comparison not found' },
+        { status: 404 }
+      );
+    }
+
+    const votes = await modelComparisonDB.listVotes(comparison.id);
+    return NextResponse.json({ comparison: toPublicComparison(comparison, votes, getClientKey(request, ip)) });
+  } catch (error) {
+    console.error('Comparison lookup error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load the comparison' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/translate/compare - pick the best rendering of a paragraph: { comparisonId, paragraphIndex, candidate }.
+// Returns the chapter made of the reader's own picks; the preferred version is pinned once enough readers voted.
+export async function PUT(request: NextRequest) {
+  const ip = getClientIP(request);
+  const userAgent = request.headers.get('user-agent') || undefined;
+
+  const limited = rateLimitResponse(ip, userAgent, request.url, '/api/translate/compare', 'TRANSLATE_COMPARE_RATE_LIMIT_EXCEEDED');
+  if (limited) return limited;
+
+  let requestData;
+  try {
+    requestData = await request.json();
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Invalid JSON in request body' },
+      { status: 400 }
+    );
+  }
+
+  const validation = validateRequest({
+    comparisonId: requestData?.comparisonId ?? null,
+    paragraphIndex: requestData?.paragraphIndex ?? null,
+    candidate: requestData?.candidate ?? null
+  }, 'comparisonVote');
+  if (!validation.isValid) {
+    return NextResponse.json(
+      {
+        error: 'Request validation failed',
+        details: validation.errors
+      },
+      { status: 400 }
+    );
+  }
+
+  const { comparisonId, paragraphIndex, candidate } = validation.sanitized!;
+  try {
+    const comparison = await modelComparisonDB.get(comparisonId!);
+    if (!comparison) {
+      return NextResponse.json(
+        { error: 'Comparison not found' },
+        { status: 404 }
+      );
+    }
+
+    const details: string[] = [];
+    if (paragraphIndex! >= comparison.sourceParagraphs.length) {
+      details.push(`paragraphIndex must be below ${comparison.sourceParagraphs.length}`);
+    } else if (candidate! >= comparison.candidates.length) {
+      details.push(`candidate must be below ${comparison.candidates.length}`);
+    } else if (comparison.candidates[candidate!].paragraphs[paragraphIndex!] == null) {
+      details.push(`${comparison.candidates[candidate!].provider} has no translation of paragraph ${paragraphIndex}`);
+    }
+    if (details.length > 0) {
+      return NextResponse.json(
+        {
+          error: 'Request validation failed',
+          details
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await voteForParagraph(comparisonId!, {
+      voterKey: getClientKey(request, ip),
+      paragraphIndex: paragraphIndex!,
+      candidate: candidate!
+    });
+    if (!result) {
+      return NextResponse.json(
+        { error: 'Comparison not found' },
+        { status: 404 }
+      );
+    }
+
+    logSecurityEvent('TRANSLATION_COMPARE_VOTE', {
+      ip,
+      userAgent,
+      url: request.url,
+      reason: `Comparison ${comparisonId}: paragraph ${paragraphIndex} -> ${comparison.candidates[candidate!].provider}`
+    });
+
+    if (result.pinned) {
+      logSecurityEvent('TRANSLATION_VERSION_PINNED', {
+        ip,
+        userAgent,
+        url: request.url,
+        reason: `Version ${result.comparison.preferredVersionId} of ${comparison.sourceUrl} from ${result.comparison.voters} readers' votes`
+      });
+    }
+
+    return NextResponse.json({
+      comparison: result.comparison,
+      translatedText: result.translatedText,
+      pinned: result.pinned
+    });
+  } catch (error) {
+    console.error('Comparison vote error:', error);
+    return NextResponse.json(
+      { error: 'Failed to record the vote' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/translate/compare - admin approval: build and pin the preferred version from the votes so far,
+// whatever their number: { comparisonId }
+export async function POST(request: NextRequest) {
+  const ip = getClientIP(request);
+  const userAgent = request.headers.get('user-agent') || undefined;
+
+  const limited = rateLimitResponse(ip, userAgent, request.url, '/api/translate/compare', 'TRANSLATE_COMPARE_RATE_LIMIT_EXCEEDED');
+  if (limited) return limited;
+
+  const forbidden = adminRequiredResponse(request, ip, userAgent);
+  if (forbidden) return forbidden;
+
+  let requestData;
+  try {
+    requestData = await request.json();
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Invalid JSON in request body' },
+      { status: 400 }
+    );
+  }
+
+  const validation = validateRequest({ comparisonId: requestData?.comparisonId ?? null }, 'comparisonVote');
+  if (!validation.isValid) {
+    return NextResponse.json(
+      {
+        error: 'Request validation failed',
+        details: validation.errors
+      },
+      { status: 400 }
+    );
+  }
+
+  const { comparisonId } = validation.sanitized!;
+  try {
+    const comparison = await approveComparison(comparisonId!);
+    if (!comparison) {
+      return NextResponse.json(
+        { error: 'Comparison not found' },
+        { status: 404 }
+      );
+    }
+
+    logSecurityEvent('TRANSLATION_VERSION_PINNED', {
+      ip,
+      userAgent,
+      url: request.url,
+      reason: `Version ${comparison.preferredVersionId} of ${comparison.sourceUrl} approved from comparison ${comparisonId}`
+    });
+
+    return NextResponse.json({ comparison, versionId: comparison.preferredVersionId, pinned: true });
+  } catch (error) {
+    console.error('Comparison approval error:', error);
+    return NextResponse.json(
+      { error: 'Failed to approve the comparison' },
+      { status: 500 }
+    );
+  }
+}
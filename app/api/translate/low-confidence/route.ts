@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { rateLimitResponse } from '../../../lib/rate-limiter';
+import { translationCache } from '../../../lib/translation-cache';
+import { LOW_CONFIDENCE_THRESHOLD } from '../../../lib/confidence';
+import { getClientIP, logSecurityEvent } from '../../../lib/security';
+
+// GET /api/translate/low-confidence?threshold=0.6&limit=50 - cached chapters worth retranslating, weakest first
+export async function GET(request: NextRequest) {
+  const ip = getClientIP(request);
+  const userAgent = request.headers.get('user-agent') || undefined;
+
+  const limited = rateLimitResponse(ip, userAgent, request.url, '/api/translate/low-confidence', 'TRANSLATE_RATE_LIMIT_EXCEEDED');
+  if (limited) return limited;
+
+  const { searchParams } = new URL(request.url);
+  const threshold = parseFloat(searchParams.get('threshold') || `${LOW_CONFIDENCE_THRESHOLD}`);
+  const limit = parseInt(searchParams.get('limit') || '50', 10);
+
+  if (isNaN(threshold) || threshold < 0 || threshold > 1 || isNaN(limit) || limit < 1 || limit > 500) {
+    return NextResponse.json(
+      {
+        error: 'Request validation failed',
+        details: ['threshold must be between 0 and 1, limit between 1 and 500']
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const translations = await translationCache.listLowConfidence(threshold, limit);
+    return NextResponse.json({ threshold, translations });
+  } catch (error) {
+    console.error('Low-confidence query error:', error);
+    return NextResponse.json(
+      { error: 'Failed to list translations' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,14 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { NextRequest, NextResponse } from 'next/server';
-import { checkRateLimit } from '../../lib/rate-limiter';
-import { translationCache } from '../../lib/translation-cache';
-import { isEnglish } from '../../lib/validation';
-import { translateWithGoogle } from '../../lib/google-translate';
+import { rateLimitResponse } from '../../lib/rate-limiter';
+import { getLanguageName } from '../../lib/languages';
 import { cacheHelpers } from '../../lib/cache';
+import { translateChapter, type ChapterTranslationResult } from '../../lib/translation-pipeline';
+import { describeInjection } from '../../lib/prompt-injection';
+import { compareProviders, getDefaultCompareProviders, resolveCompareProviders } from '../../lib/model-comparison';
+import { getStylePreset } from '../../lib/style-presets';
+import { extractNovelKey } from '../../lib/url-prediction';
+import { checkBudget, createUsageTracker, getClientKey } from '../../lib/usage';
+import { TranslationFailedError, httpStatusForErrorClass } from '../../lib/providers/errors';
 import { 
   validateRequest, 
   getClientIP, 
@@ -24,40 +28,8 @@ export async function POST(request: NextRequest) {
   });
   try {
     // Rate limiting check
-    const rateLimitResult = checkRateLimit(ip, '/api/translate');
-    if (!rateLimitResult.success) {
-      logSecurityEvent('TRANSLATE_RATE_LIMIT_EXCEEDED', {
-        ip,
-        userAgent,
-        url: request.url,
-        reason: 'Rate limit exceeded at API level'
-      });
-
-      // Try fallback to Google Translate on rate limit? 
-      // Ticket says: "Implement rate limiting fallback to Google Translate API"
-      // So if rate limited on our internal limiter, do we fallback? 
-      // Usually rate limit protects our resources/budget. 
-      // If we fallback to Google Translate (which might cost money), we might want to still respect rate limit?
-      // Assuming rate limit is for Gemini usage or general API abuse.
-      // If the user is rate limited, we probably should REJECT them, unless the rate limit is specific to Gemini quota.
-      // But checkRateLimit here is IP-based generic limit. 
-      // Let's return 429 for now as per standard practice. The "fallback" requirement likely applies to Gemini API limits/failures, not user IP rate limits.
-
-      const response = NextResponse.json(
-        { 
-          error: 'Rate limit exceeded',
-          message: 'Too many translation requests. Please try again later.',
-          retryAfter: rateLimitResult.retryAfter || 60
-        },
-        { status: 429 }
-      );
-
-      if (rateLimitResult.retryAfter) {
-        response.headers.set('Retry-After', rateLimitResult.retryAfter.toString());
-      }
-
-      return response;
-    }
+    const limited = rateLimitResponse(ip, userAgent, request.url, '/api/translate', 'TRANSLATE_RATE_LIMIT_EXCEEDED');
+    if (limited) return limited;
 
     // Parse and validate request
     let requestData;
@@ -82,7 +54,17 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { text, sourceUrl, chapterNumber } = validation.sanitized!;
+    const { text, sourceUrl, chapterNumber, targetLanguage, format, footnotes, stylePreset, retranslate, compare } = validation.sanitized!;
+
+    if (stylePreset && !getStylePreset(stylePreset)) {
+      return NextResponse.json(
+        {
+          error: 'Request validation failed',
+          details: [`Unknown style preset: ${stylePreset}`]
+        },
+        { status: 400 }
+      );
+    }
 
     // Check content size
     if (!cacheHelpers.isValidContentSize(text!)) {
@@ -95,152 +77,284 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Check DB cache first
-    try {
-      const cachedTranslation = await translationCache.get(sourceUrl!, chapterNumber!, text!);
-      if (cachedTranslation) {
-        const response = NextResponse.json({ 
-          translatedText: cachedTranslation.translatedText,
-          originalMarkdown: cachedTranslation.originalText,
-          confidence: 1.0, // Cached result is considered high confidence
-          cached: true,
-          model: cachedTranslation.model,
-          timestamp: cachedTranslation.timestamp
-        });
-        
-        response.headers.set('X-Cache-Hit', 'true');
-        response.headers.set('X-Response-Time', `${Date.now() - startTime}ms`);
-        
-        logSecurityEvent('TRANSLATE_CACHE_HIT', {
+    // Usage is accounted per client (API key or IP); an exhausted budget degrades or rejects cache misses
+    const clientKey = getClientKey(request, ip);
+    const budget = await checkBudget(clientKey);
+    const usage = createUsageTracker({
+      clientKey,
+      clientIp: ip,
+      novelKey: sourceUrl ? extractNovelKey(sourceUrl) : null,
+      sourceUrl
+    });
+
+    let result: ChapterTranslationResult;
+    if (compare) {
+      const { providers, errors } = resolveCompareProviders(compare === true ? getDefaultCompareProviders() : compare);
+      if (errors.length > 0 || providers.length < 2) {
+        return NextResponse.json(
+          {
+            error: 'Request validation failed',
+            details: errors.length > 0 ? errors : ['Compare mode needs at least two configured providers']
+          },
+          { status: 400 }
+        );
+      }
+
+      let compared;
+      try {
+        compared = await compareProviders(
+          { text: text!, sourceUrl: sourceUrl!, chapterNumber: chapterNumber!, targetLanguage: targetLanguage!, stylePreset },
+          providers,
+          { usage, budget }
+        );
+      } finally {
+        await usage.flush();
+      }
+
+      if (compared.status === 'compared') {
+        const { comparison } = compared;
+        const responseTime = Date.now() - startTime;
+        logSecurityEvent('TRANSLATE_COMPARE', {
           ip,
           userAgent,
-          url: request.url
+          url: request.url,
+          reason: `Comparison ${comparison.id}: ${comparison.candidates.map(c => c.error ? `${c.provider} (failed)` : c.provider).join(', ')}`
         });
 
+        const response = NextResponse.json({
+          comparison,
+          originalMarkdown: text,
+          targetLanguage,
+          usage: usage.getTotals(),
+          responseTime
+        });
+        response.headers.set('X-Cache-Hit', 'false');
+        response.headers.set('X-Response-Time', `${responseTime}ms`);
+        response.headers.set('X-Comparison-Id', comparison.id.toString());
         return response;
       }
-    } catch (cacheError) {
-      console.error('Cache retrieval failed:', cacheError);
-      // Continue to translation if cache fails
+
+      // Passed-through chapters and spent budgets are answered as for a single translation
+      result = compared;
+    } else {
+      try {
+        result = await translateChapter(
+          { text: text!, sourceUrl, chapterNumber, targetLanguage: targetLanguage!, format, footnotes, stylePreset, retranslate },
+          { usage, budget, readerKey: clientKey }
+        );
+      } finally {
+        await usage.flush();
+      }
+    }
+
+    if (result.status === 'over-budget') {
+      const retryAfter = Math.max(1, Math.ceil((result.budget.resetAt! - Date.now()) / 1000));
+      logSecurityEvent('TRANSLATE_BUDGET_EXCEEDED', {
+        ip,
+        userAgent,
+        url: request.url,
+        reason: `${result.budget.period} budget of $${result.budget.limitUsd} exhausted for ${clientKey}`
+      });
+
+      const response = NextResponse.json(
+        {
+          error: 'Budget exceeded',
+          details: [`The ${result.budget.period} translation budget for this client is exhausted`],
+          budget: result.budget,
+          retryAfter
+        },
+        { status: 429 }
+      );
+      response.headers.set('Retry-After', retryAfter.toString());
+      return response;
     }
 
-    if (!process.env.GOOGLE_GENERATIVE_AI_API_KEY) {
+    if (result.status === 'unconfigured') {
       return NextResponse.json(
         { error: 'Translation service is not configured' },
         { status: 500 }
       );
     }
 
-    const genAI = new GoogleGenerativeAI(process.env.GOOGLE_GENERATIVE_AI_API_KEY);
-
-    const systemInstruction = `You are an expert literary translator and editor. 
-Your goal is to produce a high-fidelity translation that reads like a native English novel while preserving the original meaning, character voice, and narrative tone.
-
-Guidelines:
-1. Proper Nouns: Detect and preserve all proper nouns (names of characters, places, sects, etc.). Capitalize them correctly. Do not translate names literally unless they are nicknames or titles best understood in translation.
-2. Tone & Style: Analyze the text to determine the tone (e.g., action, romance, mystery). Maintain this tone. Action scenes should be fast-paced; romance emotional; descriptions vivid.
-3. Natural Phrasing: Avoid robotic or literal translation. Rephrase sentences to flow naturally in English using idiomatic expressions where appropriate.
-4. Formatting: Strict adherence to the original Markdown formatting (bold, italic, headers, lists).
-5. Accuracy: Do not summarize or omit content. Translate the entire text.`;
-
-    // Timeout wrapper for API calls
-    const timeout = (promise: Promise<any>, ms: number) => {
-      return Promise.race([
-        promise,
-        new Promise((_, reject) => 
-          setTimeout(() => reject(new Error('Request timeout after 60 seconds')), ms)
-        )
-      ]);
-    };
-
-    let translation: string | undefined;
-    let modelName = 'gemini-2.5-pro';
-    let confidence = 0.95;
-    let usedFallback = false;
-
-    // Helper to run Gemini model
-    const runGemini = async (modelId: string): Promise<string> => {
-      const model = genAI.getGenerativeModel({
-        model: modelId,
-        systemInstruction
+    if (result.status === 'invalid-output') {
+      logSecurityEvent('TRANSLATE_VALIDATION_FAILED', {
+         ip,
+         reason: `Output determined not to be ${getLanguageName(targetLanguage!)}`
+      });
+      // Requirement: "reject if output isn't proper English" (now: the requested target language)
+      return NextResponse.json(
+        { error: `Translation output validation failed: Result does not appear to be valid ${getLanguageName(targetLanguage!)}` },
+        { status: 502 }
+      );
+    }
+
+    // Detected locally; chapters already in the target language skip the model
+    if (result.status === 'passthrough') {
+      const responseTime = Date.now() - startTime;
+      const response = NextResponse.json({
+        translatedText: result.translatedText,
+        originalMarkdown: text,
+        confidence: result.sourceLanguage.confidence,
+        sourceLanguage: result.sourceLanguage,
+        passThrough: true,
+        cached: false,
+        model: 'passthrough',
+        targetLanguage,
+        responseTime
       });
-      const result = await timeout(model.generateContent(text!), 60000) as any;
-      if (!result || !result.response) throw new Error('Invalid response structure');
-      return result.response.text();
-    };
 
-    // 1. Try Gemini 2.5 Pro
-    try {
-      translation = await runGemini('gemini-2.5-pro');
-    } catch (error: any) {
-      console.log('gemini-2.5-pro failed:', error.message);
+      response.headers.set('X-Cache-Hit', 'false');
+      response.headers.set('X-Response-Time', `${responseTime}ms`);
+      response.headers.set('X-Model-Used', 'passthrough');
+      response.headers.set('X-Source-Language', result.sourceLanguage.language);
+
+      logSecurityEvent('TRANSLATE_PASSTHROUGH', {
+        ip,
+        userAgent,
+        url: request.url,
+        reason: `Source already in ${targetLanguage} (confidence ${result.sourceLanguage.confidence})`
+      });
+
+      return response;
+    }
+
+    if (result.status === 'cached') {
+      const response = NextResponse.json({ 
+        translatedText: result.translatedText,
+        originalMarkdown: result.originalText,
+        confidence: result.confidence.score,
+        confidenceDetails: result.confidence,
+        glossaryViolations: result.glossaryViolations,
+        fidelity: result.fidelity,
+        safetyPassages: result.safetyPassages,
+        sourceLanguage: result.sourceLanguage,
+        cached: true,
+        model: result.model,
+        targetLanguage: result.targetLanguage,
+        timestamp: result.timestamp,
+        footnotes: result.footnotes ?? undefined,
+        stylePreset: result.stylePreset,
+        versionId: result.versionId,
+        ...result.structured
+      });
       
-      // 2. Try Gemini 2.5 Flash
-      try {
-        modelName = 'gemini-2.5-flash';
-        translation = await runGemini('gemini-2.5-flash');
-        confidence = 0.9;
-      } catch (flashError: any) {
-        console.log('gemini-2.5-flash failed:', flashError.message);
-        
-        // 3. Fallback to Google Translate API
-        if (process.env.GOOGLE_TRANSLATE_API_KEY || process.env.GOOGLE_GENERATIVE_AI_API_KEY) {
-           // Assuming we might use GOOGLE_GENERATIVE_AI_API_KEY for Google Cloud Translate if it's the same project 
-           // but usually they are different. We'll try GOOGLE_TRANSLATE_API_KEY first.
-           const apiKey = process.env.GOOGLE_TRANSLATE_API_KEY || process.env.GOOGLE_GENERATIVE_AI_API_KEY;
-           try {
-             modelName = 'google-translate-api';
-             translation = await translateWithGoogle(text!, apiKey!);
-             confidence = 0.7;
-             usedFallback = true;
-           } catch (gtError: any) {
-             console.error('Google Translate fallback failed:', gtError);
-             throw new Error('All translation services failed');
-           }
-        } else {
-             throw new Error('All translation services failed and no Google Translate key available');
-        }
-      }
+      response.headers.set('X-Cache-Hit', 'true');
+      response.headers.set('X-Translation-Version', `${result.versionId}`);
+      response.headers.set('X-Source-Language', result.sourceLanguage.language);
+      response.headers.set('X-Response-Time', `${Date.now() - startTime}ms`);
+      
+      logSecurityEvent('TRANSLATE_CACHE_HIT', {
+        ip,
+        userAgent,
+        url: request.url
+      });
+
+      return response;
     }
 
-    // Validate Output
-    if (!translation || typeof translation !== 'string' || translation.trim().length === 0) {
-      throw new Error('Empty translation received');
+    const { fidelity, glossaryViolations, confidence } = result;
+    if (fidelity.suspectedOmission) {
+      logSecurityEvent('TRANSLATE_FIDELITY_FAILED', {
+        ip,
+        reason: `Structural check failed: ${fidelity.findings.map(f => f.check).join(', ')}`
+      });
     }
 
-    if (!isEnglish(translation)) {
-      logSecurityEvent('TRANSLATE_VALIDATION_FAILED', {
-         ip,
-         reason: 'Output determined to be non-English'
+    if (result.safetyPassages.length > 0) {
+      logSecurityEvent('TRANSLATE_SAFETY_BLOCKED', {
+        ip,
+        reason: `Safety filters blocked chunks ${result.safetyPassages.map(p => `${p.chunk} (${p.outcome})`).join(', ')}`
       });
-      // If it's not English, maybe we should return error or just return it with low confidence?
-      // Requirement: "reject if output isn't proper English"
-      return NextResponse.json(
-        { error: 'Translation output validation failed: Result does not appear to be valid English' },
-        { status: 502 }
-      );
     }
 
-    // Cache the successful translation
-    try {
-      await translationCache.set(sourceUrl!, chapterNumber!, text!, translation, modelName);
-    } catch (e) {
-      console.error('Failed to cache translation:', e);
+    if (result.injection) {
+      logSecurityEvent('TRANSLATE_PROMPT_INJECTION', {
+        ip,
+        url: sourceUrl,
+        reason: describeInjection(result.injection)
+      });
+    }
+
+    // Flag glossary terms the model rendered some other way
+    if (glossaryViolations.length > 0) {
+      logSecurityEvent('TRANSLATE_GLOSSARY_MISMATCH', {
+        ip,
+        reason: `Glossary terms not rendered as expected: ${glossaryViolations.map(v => v.source).join(', ')}`
+      });
     }
 
     const responseTime = Date.now() - startTime;
+    const usageTotals = usage.getTotals();
     const response = NextResponse.json({ 
-      translatedText: translation,
+      translatedText: result.translatedText,
       originalMarkdown: text,
-      confidence,
+      confidence: confidence.score,
+      confidenceDetails: confidence,
+      glossaryViolations,
+      fidelity,
+      safetyPassages: result.safetyPassages,
+      sourceLanguage: result.sourceLanguage,
       cached: false,
-      model: modelName,
+      model: result.model,
+      targetLanguage,
+      footnotes: result.footnotes ?? undefined,
+      stylePreset: result.stylePreset,
+      versionId: result.versionId,
+      ...result.structured,
+      chunks: result.chunks,
+      skippedModels: result.skippedModels,
+      usage: usageTotals,
+      budgetDegraded: result.degraded,
+      translationMemory: result.memory,
+      revision: result.revision,
+      promptInjection: result.injection,
+      promptTemplate: result.promptTemplate,
       responseTime
     });
 
     response.headers.set('X-Cache-Hit', 'false');
     response.headers.set('X-Response-Time', `${responseTime}ms`);
-    response.headers.set('X-Model-Used', modelName);
+    if (result.versionId) {
+      response.headers.set('X-Translation-Version', result.versionId.toString());
+    }
+    response.headers.set('X-Model-Used', result.model);
+    response.headers.set('X-Prompt-Template', `${result.promptTemplate.name}@${result.promptTemplate.version}`);
+    response.headers.set('X-Chunk-Count', result.chunks.length.toString());
+    response.headers.set('X-Source-Language', result.sourceLanguage.language);
+    response.headers.set('X-Confidence', confidence.score.toFixed(2));
+    response.headers.set('X-Fidelity', fidelity.suspectedOmission ? 'failed' : fidelity.passed ? 'passed' : 'warnings');
+    const machineTranslated = result.safetyPassages.filter(passage => passage.outcome === 'machine-translated');
+    if (machineTranslated.length > 0) {
+      response.headers.set('X-Machine-Translated-Chunks', machineTranslated.map(passage => passage.chunk).join(','));
+    }
+    if (result.skippedModels.length > 0) {
+      response.headers.set('X-Skipped-Models', result.skippedModels.map(skip => `${skip.model} (${skip.reason})`).join(', '));
+    }
+    if (result.revision) {
+      response.headers.set('X-Revision', result.revision.revision.toString());
+      response.headers.set('X-Retranslated-Paragraphs', result.revision.changed.toString());
+    }
+    if (result.injection) {
+      response.headers.set('X-Prompt-Injection', result.injection.suspiciousOutput.length > 0 ? 'suspicious-output' : 'flagged');
+    }
+    if (result.memory) {
+      response.headers.set('X-TM-Segments', result.memory.segments.toString());
+      response.headers.set('X-TM-Exact-Hits', result.memory.exactHits.toString());
+      response.headers.set('X-TM-Fuzzy-Hits', result.memory.fuzzyHits.toString());
+      response.headers.set('X-TM-Hit-Rate', result.memory.hitRate.toFixed(3));
+    }
+    response.headers.set('X-Usage-Tokens', (usageTotals.inputTokens + usageTotals.outputTokens).toString());
+    response.headers.set('X-Usage-Cost', usageTotals.costUsd.toFixed(6));
+
+    if (result.degraded) {
+      response.headers.set('X-Budget-Degraded', 'true');
+      logSecurityEvent('TRANSLATE_BUDGET_DEGRADED', {
+        ip,
+        userAgent,
+        url: request.url,
+        reason: `${budget.period} budget of $${budget.limitUsd} exhausted for ${clientKey}, served by ${result.model}`
+      });
+    }
 
     return response;
 
@@ -248,6 +362,22 @@ Guidelines:
     console.error('Translation Error:', error);
     
     const responseTime = Date.now() - startTime;
+
+    // Provider failures carry their classification, so clients can tell a blocked chapter from an outage
+    if (error instanceof TranslationFailedError) {
+      const response = NextResponse.json({
+        error: error.message,
+        errorClass: error.errorClass,
+        failures: error.failures,
+        requestId: Date.now().toString(),
+        responseTime: `${responseTime}ms`
+      }, { status: httpStatusForErrorClass(error.errorClass) });
+
+      if (error.retryAfterMs !== null) {
+        response.headers.set('Retry-After', Math.ceil(error.retryAfterMs / 1000).toString());
+      }
+      return response;
+    }
     
     // Check for timeout
     if (error.message?.includes('timeout') || error.message?.includes('timed out')) {
@@ -0,0 +1,320 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { rateLimitResponse } from '../../../lib/rate-limiter';
+import { getLanguageName } from '../../../lib/languages';
+import { cacheHelpers } from '../../../lib/cache';
+import { extractNovelKey } from '../../../lib/url-prediction';
+import { translateChapter, type ChapterTranslationResult } from '../../../lib/translation-pipeline';
+import { checkBudget, createUsageTracker, getClientKey, type UsageTracker } from '../../../lib/usage';
+import { TranslationAbortedError, TranslationFailedError } from '../../../lib/providers/errors';
+import { findTranslatedTitle } from '../../../lib/structured-output';
+import { getStylePreset } from '../../../lib/style-presets';
+import { describeInjection } from '../../../lib/prompt-injection';
+import {
+  validateRequest,
+  getClientIP,
+  logSecurityEvent,
+} from '../../../lib/security';
+
+// A thin Server-Sent Events adapter over translateChapter: its progress callbacks become events, and the
+// result becomes the done event. Closing the stream aborts the model calls in flight.
+//
+// Events emitted on the stream:
+//   start    { chunks, sourceLanguage }       - translation begins
+//   model    { chunk, model }                 - a chunk is being translated by this model
+//   delta    { chunk, text }                  - incremental Markdown for a chunk
+//   reset    { chunk, reason, errorClass? }   - discard the partial text of a chunk (it will be redone)
+//   fallback { chunk, from, to, reason, errorClass } - a model failed and the next one takes over
+//   skip     { chunk, model, reason, retryAt } - a model was passed over because its circuit is open
+//   done     { model, confidence, confidenceDetails, cached, passThrough, glossaryViolations, fidelity, usage,
+//              budgetDegraded, skippedModels, safetyPassages, title, footnotes, stylePreset, translationMemory,
+//              revision, versionId, promptInjection, promptTemplate, responseTime }
+//   error    { error, message, errorClass?, budget? }
+// Chunks are translated concurrently, so events of different chunks may interleave.
+type StreamEvent = 'start' | 'model' | 'delta' | 'reset' | 'fallback' | 'skip' | 'done' | 'error';
+
+function formatEvent(event: StreamEvent, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * The done event for a chapter that was served
+ */
+function doneEvent(
+  result: Extract<ChapterTranslationResult, { status: 'passthrough' | 'cached' | 'translated' }>,
+  text: string,
+  usage: UsageTracker,
+  startTime: number
+) {
+  const common = { usage: usage.getTotals(), responseTime: Date.now() - startTime };
+
+  if (result.status === 'passthrough') {
+    return {
+      model: 'passthrough',
+      confidence: result.sourceLanguage.confidence,
+      confidenceDetails: null,
+      cached: false,
+      passThrough: true,
+      glossaryViolations: [],
+      fidelity: null,
+      budgetDegraded: false,
+      skippedModels: [],
+      safetyPassages: [],
+      title: findTranslatedTitle(text, text),
+      footnotes: null,
+      stylePreset: null,
+      translationMemory: null,
+      revision: null,
+      versionId: null,
+      promptInjection: null,
+      promptTemplate: null,
+      ...common
+    };
+  }
+
+  const translated = result.status === 'translated' ? result : null;
+  return {
+    model: result.model,
+    confidence: result.confidence.score,
+    confidenceDetails: result.confidence,
+    cached: result.status === 'cached',
+    passThrough: false,
+    glossaryViolations: result.glossaryViolations,
+    fidelity: result.fidelity,
+    budgetDegraded: translated?.degraded ?? false,
+    skippedModels: translated?.skippedModels ?? [],
+    safetyPassages: result.safetyPassages,
+    title: findTranslatedTitle(text, result.translatedText),
+    footnotes: result.footnotes,
+    stylePreset: result.stylePreset,
+    translationMemory: translated?.memory ?? null,
+    revision: translated?.revision ?? null,
+    versionId: result.versionId,
+    promptInjection: translated?.injection ?? null,
+    promptTemplate: translated?.promptTemplate ?? null,
+    ...common
+  };
+}
+
+export async function POST(request: NextRequest) {
+  const startTime = Date.now();
+  const ip = getClientIP(request);
+  const userAgent = request.headers.get('user-agent') || undefined;
+
+  logSecurityEvent('TRANSLATE_STREAM_REQUEST_START', {
+    ip,
+    userAgent,
+    url: request.url
+  });
+
+  // Rate limiting check (shared budget with the non-streaming route)
+  const limited = rateLimitResponse(ip, userAgent, request.url, '/api/translate', 'TRANSLATE_RATE_LIMIT_EXCEEDED');
+  if (limited) return limited;
+
+  let requestData;
+  try {
+    requestData = await request.json();
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Invalid JSON in request body' },
+      { status: 400 }
+    );
+  }
+
+  const validation = validateRequest(requestData, 'translate');
+  if (!validation.isValid) {
+    return NextResponse.json(
+      {
+        error: 'Request validation failed',
+        details: validation.errors
+      },
+      { status: 400 }
+    );
+  }
+
+  const { text, sourceUrl, chapterNumber, targetLanguage, format, footnotes, stylePreset, retranslate, compare } = validation.sanitized!;
+
+  // Partial JSON is no use to a reader; structured output and comparisons come from POST /api/translate
+  if (format === 'structured' || compare) {
+    return NextResponse.json(
+      {
+        error: 'Request validation failed',
+        details: [`${compare ? 'Compare mode' : 'Structured output'} is only available from /api/translate`]
+      },
+      { status: 400 }
+    );
+  }
+
+  if (stylePreset && !getStylePreset(stylePreset)) {
+    return NextResponse.json(
+      {
+        error: 'Request validation failed',
+        details: [`Unknown style preset: ${stylePreset}`]
+      },
+      { status: 400 }
+    );
+  }
+
+  if (!cacheHelpers.isValidContentSize(text!)) {
+    return NextResponse.json(
+      {
+        error: 'Content size exceeds 1MB limit',
+        maxSize: '1MB'
+      },
+      { status: 413 }
+    );
+  }
+
+  // Usage is accounted per client (API key or IP); an exhausted budget degrades or rejects cache misses
+  const clientKey = getClientKey(request, ip);
+  const budget = await checkBudget(clientKey);
+  const usage = createUsageTracker({
+    clientKey,
+    clientIp: ip,
+    novelKey: sourceUrl ? extractNovelKey(sourceUrl) : null,
+    sourceUrl
+  });
+
+  // Aborted when the reader closes the stream, so the model calls in flight stop
+  const aborter = new AbortController();
+  const encoder = new TextEncoder();
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      // Events for a reader who has gone away are dropped
+      const send = (event: StreamEvent, data: unknown) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(formatEvent(event, data)));
+        } catch {
+          closed = true;
+        }
+      };
+
+      try {
+        const result = await translateChapter(
+          { text: text!, sourceUrl, chapterNumber, targetLanguage: targetLanguage!, footnotes, stylePreset, retranslate },
+          {
+            usage,
+            budget,
+            readerKey: clientKey,
+            signal: aborter.signal,
+            progress: {
+              onStart: (chunks, sourceLanguage) => send('start', { chunks, sourceLanguage }),
+              onModel: (chunk, model) => send('model', { chunk, model }),
+              onDelta: (chunk, delta) => send('delta', { chunk, text: delta }),
+              onReset: (chunk, reason, errorClass) => send('reset', { chunk, reason, errorClass }),
+              onFallback: (chunk, from, to, reason, errorClass) => send('fallback', { chunk, from, to, reason, errorClass }),
+              onSkip: (chunk, skipped) => send('skip', { chunk, model: skipped.model, reason: skipped.reason, retryAt: skipped.retryAt })
+            }
+          }
+        );
+
+        switch (result.status) {
+          case 'over-budget':
+            logSecurityEvent('TRANSLATE_BUDGET_EXCEEDED', {
+              ip,
+              userAgent,
+              url: request.url,
+              reason: `${result.budget.period} budget of $${result.budget.limitUsd} exhausted for ${clientKey}`
+            });
+            send('error', {
+              error: 'Budget exceeded',
+              message: `The ${result.budget.period} translation budget for this client is exhausted`,
+              budget: result.budget
+            });
+            return;
+
+          case 'unconfigured':
+            send('error', { error: 'Translation service is not configured', message: 'Translation service is not configured' });
+            return;
+
+          case 'invalid-output':
+            logSecurityEvent('TRANSLATE_VALIDATION_FAILED', {
+              ip,
+              reason: `Output determined not to be ${getLanguageName(targetLanguage!)}`
+            });
+            send('error', {
+              error: 'Translation output validation failed',
+              message: `Result does not appear to be valid ${getLanguageName(targetLanguage!)}`
+            });
+            return;
+
+          case 'passthrough':
+            logSecurityEvent('TRANSLATE_PASSTHROUGH', {
+              ip,
+              userAgent,
+              url: request.url,
+              reason: `Source already in ${targetLanguage} (confidence ${result.sourceLanguage.confidence})`
+            });
+            break;
+
+          case 'cached':
+            logSecurityEvent('TRANSLATE_CACHE_HIT', { ip, userAgent, url: request.url });
+            break;
+
+          case 'translated':
+            if (result.safetyPassages.length > 0) {
+              logSecurityEvent('TRANSLATE_SAFETY_BLOCKED', {
+                ip,
+                reason: `Safety filters blocked chunks ${result.safetyPassages.map(p => `${p.chunk} (${p.outcome})`).join(', ')}`
+              });
+            }
+            if (result.fidelity.suspectedOmission) {
+              logSecurityEvent('TRANSLATE_FIDELITY_FAILED', {
+                ip,
+                reason: `Structural check failed: ${result.fidelity.findings.map(f => f.check).join(', ')}`
+              });
+            }
+            if (result.injection) {
+              logSecurityEvent('TRANSLATE_PROMPT_INJECTION', {
+                ip,
+                url: sourceUrl,
+                reason: describeInjection(result.injection)
+              });
+            }
+            if (result.degraded) {
+              logSecurityEvent('TRANSLATE_BUDGET_DEGRADED', {
+                ip,
+                userAgent,
+                url: request.url,
+                reason: `${budget.period} budget of $${budget.limitUsd} exhausted for ${clientKey}, served by ${result.model}`
+              });
+            }
+            break;
+        }
+
+        send('done', doneEvent(result, text!, usage, startTime));
+      } catch (error: any) {
+        if (error instanceof TranslationAbortedError) return;
+
+        console.error('Streaming Translation Error:', error);
+        send('error', {
+          error: error instanceof TranslationFailedError ? error.message : 'Internal translation error',
+          message: error.message || 'An unexpected error occurred.',
+          errorClass: error instanceof TranslationFailedError ? error.errorClass : undefined
+        });
+      } finally {
+        await usage.flush();
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+
+    cancel() {
+      closed = true;
+      aborter.abort();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    }
+  });
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { rateLimitResponse } from '../../../../lib/rate-limiter';
+import { translationCache } from '../../../../lib/translation-cache';
+import { diffTranslations } from '../../../../lib/revisions';
+import { validateRequest, getClientIP, logSecurityEvent } from '../../../../lib/security';
+
+// GET /api/translate/versions/diff?sourceUrl=...&fromVersionId=12&toVersionId=15 - paragraph diff between two versions of a chapter
+export async function GET(request: NextRequest) {
+  const ip = getClientIP(request);
+  const userAgent = request.headers.get('user-agent') || undefined;
+
+  const limited = rateLimitResponse(ip, userAgent, request.url, '/api/translate/versions', 'TRANSLATE_VERSIONS_RATE_LIMIT_EXCEEDED');
+  if (limited) return limited;
+
+  const { searchParams } = new URL(request.url);
+  const validation = validateRequest({
+    sourceUrl: searchParams.get('sourceUrl'),
+    fromVersionId: Number(searchParams.get('fromVersionId')),
+    toVersionId: Number(searchParams.get('toVersionId'))
+  }, 'translationVersions');
+  if (!validation.isValid) {
+    return NextResponse.json(
+      {
+        error: 'Request validation failed',
+        details: validation.errors
+      },
+      { status: 400 }
+    );
+  }
+
+  const { sourceUrl, chapterNumber, fromVersionId, toVersionId } = validation.sanitized!;
+  try {
+    const [from, to] = await Promise.all([
+      translationCache.getVersion(sourceUrl!, chapterNumber!, fromVersionId!),
+      translationCache.getVersion(sourceUrl!, chapterNumber!, toVersionId!)
+    ]);
+    if (!from || !to) {
+      return NextResponse.json(
+        { error: `Translation version ${from ? toVersionId : fromVersionId} not found for this chapter` },
+        { status: 404 }
+      );
+    }
+
+    const changes = diffTranslations(from.translatedText, to.translatedText);
+    if (!changes) {
+      return NextResponse.json(
+        { error: 'Chapters this long cannot be compared' },
+        { status: 422 }
+      );
+    }
+
+    const { translatedText: _fromText, originalText: _fromSource, ...fromVersion } = from;
+    const { translatedText: _toText, originalText: _toSource, ...toVersion } = to;
+    return NextResponse.json({
+      sourceUrl,
+      chapterNumber,
+      from: fromVersion,
+      to: toVersion,
+      changes,
+      added: changes.filter(change => change.type === 'added').length,
+      removed: changes.filter(change => change.type === 'removed').length
+    });
+  } catch (error) {
+    console.error('Translation version diff error:', error);
+    return NextResponse.json(
+      { error: 'Failed to compare translation versions' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+
+const translationCache = vi.hoisted(() => ({
+  pinVersion: vi.fn(async () => true),
+  unpinVersion: vi.fn(async () => true)
+}));
+
+vi.mock('../../../lib/translation-cache', () => ({ translationCache }));
+
+import { DELETE, PUT } from './route';
+
+const sourceUrl = 'https://novels.example.com/book/12';
+
+function request(method: string, adminKey?: string): NextRequest {
+  return new NextRequest('http://localhost/api/translate/versions', {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      'x-real-ip': '203.0.113.8',
+      ...(adminKey ? { Authorization: `Bearer ${adminKey}` } : {})
+    },
+    body: JSON.stringify({ sourceUrl, versionId: 5 })
+  });
+}
+
+const originalKey = process.env.ADMIN_API_KEY;
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  process.env.ADMIN_API_KEY = 'operator-key';
+});
+
+afterEach(() => {
+  if (originalKey === undefined) delete process.env.ADMIN_API_KEY;
+  else process.env.ADMIN_API_KEY = originalKey;
+});
+
+describe('PUT /api/translate/versions', () => {
+  it('pins only for the operator', async () => {
+    expect((await PUT(request('PUT'))).status).toBe(401);
+    expect(translationCache.pinVersion).not.toHaveBeenCalled();
+
+    const response = await PUT(request('PUT', 'operator-key'));
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ versionId: 5, pinned: true });
+    expect(translationCache.pinVersion).toHaveBeenCalledWith(sourceUrl, '12', 5);
+  });
+});
+
+describe('DELETE /api/translate/versions', () => {
+  it('unpins only for the operator', async () => {
+    expect((await DELETE(request('DELETE', 'wrong'))).status).toBe(401);
+    expect(translationCache.unpinVersion).not.toHaveBeenCalled();
+
+    expect((await DELETE(request('DELETE', 'operator-key'))).status).toBe(200);
+    expect(translationCache.unpinVersion).toHaveBeenCalledWith(sourceUrl, '12', 5);
+  });
+});
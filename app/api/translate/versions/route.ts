@@ -0,0 +1,162 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { rateLimitResponse } from '../../../lib/rate-limiter';
+import { translationCache } from '../../../lib/translation-cache';
+import { validateRequest, getClientIP, logSecurityEvent, adminRequiredResponse } from '../../../lib/security';
+
+async function readBody(request: NextRequest): Promise<any> {
+  try {
+    return await request.json();
+  } catch {
+    return undefined;
+  }
+}
+
+// GET /api/translate/versions?sourceUrl=...[&targetLanguage=...] - every translation of the chapter, newest first
+export async function GET(request: NextRequest) {
+  const ip = getClientIP(request);
+  const userAgent = request.headers.get('user-agent') || undefined;
+
+  const limited = rateLimitResponse(ip, userAgent, request.url, '/api/translate/versions', 'TRANSLATE_VERSIONS_RATE_LIMIT_EXCEEDED');
+  if (limited) return limited;
+
+  const { searchParams } = new URL(request.url);
+  const validation = validateRequest({
+    sourceUrl: searchParams.get('sourceUrl'),
+    targetLanguage: searchParams.get('targetLanguage')
+  }, 'translationVersions');
+  if (!validation.isValid) {
+    return NextResponse.json(
+      {
+        error: 'Request validation failed',
+        details: validation.errors
+      },
+      { status: 400 }
+    );
+  }
+
+  const { sourceUrl, chapterNumber, targetLanguage } = validation.sanitized!;
+  try {
+    const versions = await translationCache.listVersions(sourceUrl!, chapterNumber!, targetLanguage);
+    return NextResponse.json({ sourceUrl, chapterNumber, versions });
+  } catch (error) {
+    console.error('Translation version list error:', error);
+    return NextResponse.json(
+      { error: 'Failed to list translation versions' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/translate/versions - serve this version of the chapter from now on: { sourceUrl, versionId }. The write
+// methods need the admin key, since the pinned version is what every reader of the chapter is served.
+export async function PUT(request: NextRequest) {
+  const ip = getClientIP(request);
+  const userAgent = request.headers.get('user-agent') || undefined;
+
+  const limited = rateLimitResponse(ip, userAgent, request.url, '/api/translate/versions', 'TRANSLATE_VERSIONS_RATE_LIMIT_EXCEEDED');
+  if (limited) return limited;
+
+  const forbidden = adminRequiredResponse(request, ip, userAgent);
+  if (forbidden) return forbidden;
+
+  const requestData = await readBody(request);
+  if (requestData === undefined) {
+    return NextResponse.json(
+      { error: 'Invalid JSON in request body' },
+      { status: 400 }
+    );
+  }
+
+  const validation = validateRequest(
+    { sourceUrl: requestData?.sourceUrl, versionId: requestData?.versionId ?? null },
+    'translationVersions'
+  );
+  if (!validation.isValid) {
+    return NextResponse.json(
+      {
+        error: 'Request validation failed',
+        details: validation.errors
+      },
+      { status: 400 }
+    );
+  }
+
+  const { sourceUrl, chapterNumber, versionId } = validation.sanitized!;
+  try {
+    const pinned = await translationCache.pinVersion(sourceUrl!, chapterNumber!, versionId!);
+    if (!pinned) {
+      return NextResponse.json(
+        { error: 'Translation version not found' },
+        { status: 404 }
+      );
+    }
+
+    logSecurityEvent('TRANSLATION_VERSION_PINNED', {
+      ip,
+      userAgent,
+      url: request.url,
+      reason: `Version ${versionId} of ${sourceUrl}`
+    });
+
+    return NextResponse.json({ sourceUrl, chapterNumber, versionId, pinned: true });
+  } catch (error) {
+    console.error('Translation version pin error:', error);
+    return NextResponse.json(
+      { error: 'Failed to pin the translation version' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/translate/versions - go back to serving the latest version: { sourceUrl, versionId }
+export async function DELETE(request: NextRequest) {
+  const ip = getClientIP(request);
+  const userAgent = request.headers.get('user-agent') || undefined;
+
+  const limited = rateLimitResponse(ip, userAgent, request.url, '/api/translate/versions', 'TRANSLATE_VERSIONS_RATE_LIMIT_EXCEEDED');
+  if (limited) return limited;
+
+  const forbidden = adminRequiredResponse(request, ip, userAgent);
+  if (forbidden) return forbidden;
+
+  const requestData = await readBody(request);
+  if (requestData === undefined) {
+    return NextResponse.json(
+      { error: 'Invalid JSON in request body' },
+      { status: 400 }
+    );
+  }
+
+  const validation = validateRequest(
+    { sourceUrl: requestData?.sourceUrl, versionId: requestData?.versionId ?? null },
+    'translationVersions'
+  );
+  if (!validation.isValid) {
+    return NextResponse.json(
+      {
+        error: 'Request validation failed',
+        details: validation.errors
+      },
+      { status: 400 }
+    );
+  }
+
+  const { sourceUrl, chapterNumber, versionId } = validation.sanitized!;
+  try {
+    const unpinned = await translationCache.unpinVersion(sourceUrl!, chapterNumber!, versionId!);
+    if (!unpinned) {
+      return NextResponse.json(
+        { error: 'Translation version is not pinned' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ sourceUrl, chapterNumber, versionId, pinned: false });
+  } catch (error) {
+    console.error('Translation version unpin error:', error);
+    return NextResponse.json(
+      { error: 'Failed to unpin the translation version' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { rateLimitResponse } from '../../lib/rate-limiter';
+import { usageDB, getClientKey, getBudgetLimits, getPeriodStart, type ModelUsageSummary } from '../../lib/usage';
+import { getClientIP, logSecurityEvent } from '../../lib/security';
+
+const sumCost = (models: ModelUsageSummary[]) =>
+  Math.round(models.reduce((total, model) => total + model.costUsd, 0) * 1_000_000) / 1_000_000;
+
+// GET /api/usage - the calling client's usage per model today and this month (UTC), with its budgets
+export async function GET(request: NextRequest) {
+  const ip = getClientIP(request);
+  const userAgent = request.headers.get('user-agent') || undefined;
+
+  const limited = rateLimitResponse(ip, userAgent, request.url, '/api/usage', 'USAGE_RATE_LIMIT_EXCEEDED');
+  if (limited) return limited;
+
+  try {
+    const clientKey = getClientKey(request, ip);
+    const [daily, monthly] = await Promise.all([
+      usageDB.summarize(clientKey, getPeriodStart('daily')),
+      usageDB.summarize(clientKey, getPeriodStart('monthly'))
+    ]);
+    const limits = getBudgetLimits();
+
+    return NextResponse.json({
+      daily: { models: daily, costUsd: sumCost(daily), budgetUsd: limits.daily },
+      monthly: { models: monthly, costUsd: sumCost(monthly), budgetUsd: limits.monthly },
+      exhaustedAction: process.env.BUDGET_EXHAUSTED_ACTION === 'reject' ? 'reject' : 'degrade'
+    });
+  } catch (error) {
+    console.error('Usage lookup error:', error);
+    return NextResponse.json(
+      { error: 'Failed to retrieve usage' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,83 @@
+import { getLanguageName, type TargetLanguage } from './languages';
+import { getInstructionProviderChain, translateWithFallback } from './providers/registry';
+import { translationCache } from './translation-cache';
+import { loadCorrectedTranslation } from './corrections';
+import type { BudgetDecision, UsageTracker } from './usage';
+
+// Spoiler-safe summaries of single translated chapters, stored next to the cached version they were made
+// from. The reader strings the summaries of the chapters before the one being opened into a
+// "previously on" recap.
+
+export type ChapterSummaryResult =
+  | { status: 'summarized' | 'cached'; summary: string; versionId: number | null } // versionId: null for text sent by the reader
+  | { status: 'not-found' } // The version doesn't belong to the chapter
+  | { status: 'over-budget'; budget: BudgetDecision } // Budget exhausted and BUDGET_EXHAUSTED_ACTION=reject
+  | { status: 'unconfigured' }; // No instruction-following model
+
+export interface ChapterSummaryOptions {
+  usage?: UsageTracker;
+  budget?: BudgetDecision; // Applied to new summaries only; stored ones cost nothing
+}
+
+const MAX_SUMMARY_LENGTH = 1200;
+const MAX_CHAPTER_INPUT = 20000; // Characters of the translated chapter sent to the model
+
+function buildSummaryInstruction(targetLanguage: TargetLanguage): string {
+  return `You write "previously on" recaps for readers of a serialized novel translated into ${getLanguageName(targetLanguage)}.
+
+You receive one translated chapter. Reply with a summary of that chapter only, in ${getLanguageName(targetLanguage)}, as plain prose with no heading, list, code fence or commentary.
+
+Rules:
+1. At most 100 words: the main events, decisions and revelations of the chapter, naming the characters involved.
+2. Spoiler-safe: only what happens in this chapter. Leave out author's notes, previews or teasers of later chapters, and any guess about what comes next.
+3. Use names exactly as written in the chapter.`;
+}
+
+/**
+ * Summarize a translated chapter with the first instruction-following model
+ */
+export async function summarizeChapter(
+  translatedText: string,
+  targetLanguage: TargetLanguage,
+  options: ChapterSummaryOptions = {}
+): Promise<ChapterSummaryResult> {
+  const { usage, budget } = options;
+  if (budget?.action === 'reject') return { status: 'over-budget', budget };
+
+  const chain = getInstructionProviderChain();
+  if (chain.length === 0) return { status: 'unconfigured' };
+
+  const result = await translateWithFallback(chain, {
+    text: translatedText.slice(0, MAX_CHAPTER_INPUT),
+    systemInstruction: buildSummaryInstruction(targetLanguage),
+    targetLanguage,
+    instruction: true
+  }, { maxAttempts: 1, onUsage: usage?.forPurpose('chapter-summary') });
+  await usage?.flush();
+
+  const summary = result.text.trim().replace(/^```\w*\s*/, '').replace(/\s*```$/, '').trim();
+  if (!summary) throw new Error(`${result.model} returned an empty summary`);
+  return { status: 'summarized', summary: summary.slice(0, MAX_SUMMARY_LENGTH), versionId: null };
+}
+
+/**
+ * The summary of a cached version of a chapter, made and stored with the version on first request
+ */
+export async function summarizeVersion(
+  sourceUrl: string,
+  chapterNumber: string,
+  versionId: number,
+  options: ChapterSummaryOptions = {}
+): Promise<ChapterSummaryResult> {
+  const version = await translationCache.getVersion(sourceUrl, chapterNumber, versionId);
+  if (!version) return { status: 'not-found' };
+  if (version.summary) return { status: 'cached', summary: version.summary, versionId };
+
+  // Summarized as served to everyone, with the approved corrections
+  const translatedText = await loadCorrectedTranslation(versionId, version.translatedText);
+  const result = await summarizeChapter(translatedText, version.targetLanguage, options);
+  if (result.status !== 'summarized') return result;
+
+  await translationCache.setSummary(versionId, result.summary);
+  return { ...result, versionId };
+}
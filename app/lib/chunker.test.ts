@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { chunkMarkdown, joinChunks, mapWithConcurrency, splitMarkdownBlocks } from './chunker';
+
+describe('splitMarkdownBlocks', () => {
+  it('splits on blank lines and starts a block at every heading', () => {
+    const markdown = '# Chapter 1\nFirst line\nsecond line\n\n\nNext paragraph\r\n## Part two\nAfter';
+    expect(splitMarkdownBlocks(markdown)).toEqual([
+      '# Chapter 1',
+      'First line\nsecond line',
+      'Next paragraph',
+      '## Part two',
+      'After'
+    ]);
+  });
+
+  it('returns nothing for blank text', () => {
+    expect(splitMarkdownBlocks('\n  \n')).toEqual([]);
+  });
+});
+
+describe('chunkMarkdown', () => {
+  const paragraph = (n: number) => `Paragraph ${n} `.padEnd(90, 'x') + '.';
+
+  it('keeps short text in one chunk as is', () => {
+    expect(chunkMarkdown('Short text\n\n\nwith blank lines', 100)).toEqual([
+      { index: 0, text: 'Short text\n\n\nwith blank lines', context: '' }
+    ]);
+  });
+
+  it('groups paragraphs into chunks of at most maxChars', () => {
+    const markdown = Array.from({ length: 10 }, (_, i) => paragraph(i)).join('\n\n');
+    const chunks = chunkMarkdown(markdown, 300, 0);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach(chunk => expect(chunk.text.length).toBeLessThanOrEqual(300));
+    expect(joinChunks(chunks.map(chunk => chunk.text))).toBe(markdown);
+  });
+
+  it('breaks before a heading once the chunk is half full', () => {
+    const markdown = [paragraph(1), paragraph(2), '# Next scene', paragraph(3)].join('\n\n');
+    const chunks = chunkMarkdown(markdown, 250, 0);
+
+    expect(chunks.map(chunk => chunk.text.split('\n\n')[0])).toEqual([paragraph(1), '# Next scene']);
+  });
+
+  it('splits an oversized paragraph on sentence boundaries', () => {
+    const sentences = Array.from({ length: 8 }, (_, i) => `Sentence number ${i} is here.`);
+    const chunks = chunkMarkdown(sentences.join(' '), 100, 0);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach(chunk => {
+      expect(chunk.text.length).toBeLessThanOrEqual(100);
+      expect(chunk.text.endsWith('.')).toBe(true);
+    });
+  });
+
+  it('carries the last paragraphs of the previous chunk as context', () => {
+    const markdown = Array.from({ length: 6 }, (_, i) => paragraph(i)).join('\n\n');
+    const chunks = chunkMarkdown(markdown, 200, 120);
+
+    expect(chunks[0].context).toBe('');
+    expect(chunks[1].context).toBe(chunks[0].text.split('\n\n').pop());
+  });
+});
+
+describe('mapWithConcurrency', () => {
+  it('keeps the order of the results and the concurrency limit', async () => {
+    let active = 0;
+    let peak = 0;
+    const results = await mapWithConcurrency([30, 10, 20, 0], 2, async (delay, index) => {
+      active++;
+      peak = Math.max(peak, active);
+      await new Promise(resolve => setTimeout(resolve, delay));
+      active--;
+      return index * 2;
+    });
+
+    expect(results).toEqual([0, 2, 4, 6]);
+    expect(peak).toBe(2);
+  });
+});
@@ -0,0 +1,167 @@
+// Paragraph-aware chunking for long chapters
+// Splits Markdown on paragraph and heading boundaries so each chunk is a self-contained piece of prose
+
+export const DEFAULT_CHUNK_SIZE = 10000; // Characters per chunk
+export const DEFAULT_CONTEXT_SIZE = 500; // Characters of preceding text carried across a chunk edge
+
+export interface TextChunk {
+  index: number;
+  text: string;
+  context: string; // Tail of the preceding chunk, for reference only
+}
+
+const HEADING_REGEX = /^#{1,6}\s/;
+
+/**
+ * Split Markdown into blocks: paragraphs separated by blank lines, with every heading starting a new block
+ */
+export function splitMarkdownBlocks(markdown: string): string[] {
+  const blocks: string[] = [];
+  let current: string[] = [];
+
+  const flush = () => {
+    if (current.length > 0) {
+      blocks.push(current.join('\n'));
+      current = [];
+    }
+  };
+
+  for (const line of markdown.replace(/\r\n/g, '\n').split('\n')) {
+    if (line.trim().length === 0) {
+      flush();
+    } else if (HEADING_REGEX.test(line)) {
+      flush();
+      blocks.push(line);
+    } else {
+      current.push(line);
+    }
+  }
+  flush();
+
+  return blocks;
+}
+
+// Break a single oversized block on line, then sentence, then hard boundaries
+function splitOversizedBlock(block: string, maxChars: number): string[] {
+  const pieces: string[] = [];
+  let current = '';
+
+  const units = block.includes('\n')
+    ? block.split('\n')
+    : block.split(/(?<=[.!?。！？])\s*/);
+  const separator = block.includes('\n') ? '\n' : ' ';
+
+  for (const unit of units) {
+    if (unit.length > maxChars) {
+      if (current) {
+        pieces.push(current);
+        current = '';
+      }
+      for (let i = 0; i < unit.length; i += maxChars) {
+        pieces.push(unit.slice(i, i + maxChars));
+      }
+      continue;
+    }
+
+    const candidate = current ? `${current}${separator}${unit}` : unit;
+    if (candidate.length > maxChars) {
+      pieces.push(current);
+      current = unit;
+    } else {
+      current = candidate;
+    }
+  }
+  if (current) pieces.push(current);
+
+  return pieces;
+}
+
+/**
+ * Group Markdown blocks into chunks of at most maxChars, preferring to break before headings
+ */
+export function chunkMarkdown(
+  markdown: string,
+  maxChars: number = DEFAULT_CHUNK_SIZE,
+  contextChars: number = DEFAULT_CONTEXT_SIZE
+): TextChunk[] {
+  if (markdown.length <= maxChars) {
+    return [{ index: 0, text: markdown, context: '' }];
+  }
+
+  const texts: string[] = [];
+  let current: string[] = [];
+  let currentLength = 0;
+
+  const flush = () => {
+    if (current.length > 0) {
+      texts.push(current.join('\n\n'));
+      current = [];
+      currentLength = 0;
+    }
+  };
+
+  for (const block of splitMarkdownBlocks(markdown)) {
+    const pieces = block.length > maxChars ? splitOversizedBlock(block, maxChars) : [block];
+
+    for (const piece of pieces) {
+      const addedLength = piece.length + (current.length > 0 ? 2 : 0);
+
+      // Start a new chunk at a heading once the current one is reasonably full
+      const headingBreak = HEADING_REGEX.test(piece) && currentLength >= maxChars / 2;
+
+      if (currentLength + addedLength > maxChars || headingBreak) {
+        flush();
+      }
+
+      current.push(piece);
+      currentLength += piece.length + (current.length > 1 ? 2 : 0);
+    }
+  }
+  flush();
+
+  return texts.map((text, index) => ({
+    index,
+    text,
+    context: index > 0 ? tail(texts[index - 1], contextChars) : ''
+  }));
+}
+
+// Last paragraphs of a chunk, up to roughly maxChars
+function tail(text: string, maxChars: number): string {
+  if (text.length <= maxChars) return text;
+
+  const slice = text.slice(-maxChars);
+  const paragraphStart = slice.indexOf('\n\n');
+  return paragraphStart >= 0 ? slice.slice(paragraphStart + 2) : slice;
+}
+
+/**
+ * Reassemble translated chunks in their original order
+ */
+export function joinChunks(chunks: string[]): string {
+  return chunks.map(chunk => chunk.trim()).join('\n\n');
+}
+
+/**
+ * Map over items with at most `limit` calls in flight, preserving result order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker);
+  await Promise.all(workers);
+
+  return results;
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { computeConfidence, LOW_CONFIDENCE_THRESHOLD } from './confidence';
+
+const source = [
+  '林凡看着远处的山峰，心中涌起一股说不出的感觉。',
+  '师父曾经说过，修炼之路漫长而孤独，只有坚持到底的人才能看到山顶的风景。',
+  '他深吸一口气，握紧了手中的剑。'
+].join('\n\n');
+
+const translation = [
+  'Lin Fan looked at the distant peaks, and a feeling he could not put into words rose in his heart.',
+  'His master had once said that the path of cultivation is long and lonely, and only those who persist to the end get to see the view from the top.',
+  'He took a deep breath and tightened his grip on the sword in his hand.'
+].join('\n\n');
+
+describe('computeConfidence', () => {
+  it('scores a clean translation high on every signal', () => {
+    const report = computeConfidence({ originalText: source, translatedText: translation, targetLanguage: 'en', baseConfidence: 0.9 });
+
+    expect(report.score).toBeGreaterThan(0.8);
+    expect(report.signals).toMatchObject({ structure: 1, glossary: 1, script: 1, model: 0.9 });
+    expect(report.paragraphs).toHaveLength(3);
+    expect(report.weakParagraphs).toEqual([]);
+  });
+
+  it('leaves out the model signal when the model prior is unknown', () => {
+    const report = computeConfidence({ originalText: source, translatedText: translation, targetLanguage: 'en' });
+    expect(report.signals.model).toBeNull();
+  });
+
+  it('marks a paragraph left in the source script as weak', () => {
+    const blocks = translation.split('\n\n');
+    blocks[1] = '师父曾经说过，修炼之路漫长而孤独，只有坚持到底的人才能看到山顶的风景。';
+    const report = computeConfidence({ originalText: source, translatedText: blocks.join('\n\n'), targetLanguage: 'en' });
+
+    expect(report.signals.script).toBeLessThan(1);
+    expect(report.paragraphs[1].issues).toEqual(expect.arrayContaining(['script', 'language']));
+    expect(report.paragraphs[1].score).toBeLessThan(LOW_CONFIDENCE_THRESHOLD);
+    expect(report.weakParagraphs).toEqual([1]);
+  });
+
+  it('counts glossary terms that were not rendered as specified', () => {
+    const glossary = [
+      { source: '林凡', target: 'Lin Fan' },
+      { source: '师父', target: 'Shifu' },
+      { source: '魔王', target: 'Demon King' } // Not in the source, so it doesn't count
+    ];
+    const report = computeConfidence({ originalText: source, translatedText: translation, targetLanguage: 'en', glossary });
+
+    expect(report.signals.glossary).toBe(0.5);
+    expect(report.paragraphs[1].issues).toContain('glossary');
+    expect(report.paragraphs[0].issues).not.toContain('glossary');
+  });
+
+  it('scores structure and length down when content was dropped', () => {
+    const report = computeConfidence({ originalText: source, translatedText: 'Lin Fan looked at the peaks.', targetLanguage: 'en' });
+
+    expect(report.signals.structure).toBeLessThan(1);
+    expect(report.signals.length).toBeLessThan(1);
+  });
+});
@@ -0,0 +1,148 @@
+// Translation confidence scoring
+// Combines structural alignment, glossary adherence, leftover source script, length ratio and
+// target-language signals into a 0-1 score per chapter and per translated paragraph
+
+import { splitMarkdownBlocks } from './chunker';
+import { countScripts, stripMarkdownForDetection } from './language-detection';
+import { scoreTargetLanguage } from './validation';
+import { checkStructuralFidelity, getLengthRatioRange, type FidelityReport } from './fidelity';
+import { findGlossaryViolations, type GlossaryEntry } from './glossary';
+import type { TargetLanguage } from './languages';
+
+export interface ConfidenceSignals {
+  structure: number; // Fidelity findings, errors weigh more than warnings
+  glossary: number; // Share of relevant glossary terms rendered as specified
+  script: number; // Absence of untranslated source-script characters
+  length: number; // Length ratio inside the normal range for the source script
+  language: number; // Output reads as the target language
+  model: number | null; // Prior of the weakest model that contributed, null when unknown
+}
+
+export interface ParagraphConfidence {
+  index: number; // Block index in the translated Markdown (see splitMarkdownBlocks)
+  score: number;
+  issues: Array<'script' | 'language' | 'length' | 'glossary'>;
+}
+
+export interface ConfidenceReport {
+  score: number;
+  signals: ConfidenceSignals;
+  paragraphs: ParagraphConfidence[];
+  weakParagraphs: number[]; // Indices of paragraphs below LOW_CONFIDENCE_THRESHOLD
+}
+
+// Passages below this score are highlighted in the reader
+export const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+const SIGNAL_WEIGHTS: Record<keyof ConfidenceSignals, number> = {
+  structure: 0.25,
+  glossary: 0.15,
+  script: 0.2,
+  length: 0.15,
+  language: 0.15,
+  model: 0.1,
+};
+
+// A signal below this in a paragraph is reported as an issue
+const ISSUE_THRESHOLD = 0.7;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+const clamp = (value: number) => Math.max(0, Math.min(1, value));
+
+function scoreLength(ratio: number, [min, max]: [number, number]): number {
+  if (ratio < min) return clamp(ratio / min);
+  if (ratio > max) return clamp(max / ratio);
+  return 1;
+}
+
+// All target languages are written in Latin script, so any other letter is left over from the source
+function scoreScript(text: string): number {
+  const { counts, total } = countScripts(stripMarkdownForDetection(text));
+  if (total === 0) return 1;
+  const leftover = (total - (counts.latin || 0)) / total;
+  return clamp(1 - leftover * 5);
+}
+
+function scoreGlossary(entries: GlossaryEntry[], originalText: string, translatedText: string): number {
+  const relevant = entries.filter(entry => originalText.includes(entry.source));
+  if (relevant.length === 0) return 1;
+  return 1 - findGlossaryViolations(relevant, originalText, translatedText).length / relevant.length;
+}
+
+function weightedScore(signals: Partial<ConfidenceSignals>): number {
+  let total = 0;
+  let weights = 0;
+  for (const [name, value] of Object.entries(signals) as Array<[keyof ConfidenceSignals, number | null]>) {
+    if (value === null || value === undefined) continue;
+    total += value * SIGNAL_WEIGHTS[name];
+    weights += SIGNAL_WEIGHTS[name];
+  }
+  return weights > 0 ? total / weights : 0;
+}
+
+/**
+ * Pair each translated block with a source block. 1:1 when the counts match, otherwise by relative position.
+ */
+function alignBlocks(sourceBlocks: string[], translatedBlocks: string[]): string[] {
+  if (sourceBlocks.length === translatedBlocks.length) return sourceBlocks;
+  return translatedBlocks.map((_, index) =>
+    sourceBlocks[Math.min(sourceBlocks.length - 1, Math.floor(index * sourceBlocks.length / translatedBlocks.length))] || ''
+  );
+}
+
+/**
+ * Score a translation against its source
+ */
+export function computeConfidence(options: {
+  originalText: string;
+  translatedText: string;
+  targetLanguage: TargetLanguage;
+  glossary?: GlossaryEntry[];
+  fidelity?: FidelityReport; // Reused when the caller already ran the structural checks
+  baseConfidence?: number;
+}): ConfidenceReport {
+  const { originalText, translatedText, targetLanguage, glossary = [] } = options;
+  const fidelity = options.fidelity || checkStructuralFidelity(originalText, translatedText);
+  const lengthRange = getLengthRatioRange(originalText);
+
+  const errors = fidelity.findings.filter(finding => finding.severity === 'error').length;
+  const warnings = fidelity.findings.length - errors;
+
+  const signals: ConfidenceSignals = {
+    structure: round(clamp(1 - errors * 0.25 - warnings * 0.08)),
+    glossary: round(scoreGlossary(glossary, originalText, translatedText)),
+    script: round(scoreScript(translatedText)),
+    length: round(scoreLength(fidelity.lengthRatio, lengthRange)),
+    language: round(scoreTargetLanguage(stripMarkdownForDetection(translatedText), targetLanguage)),
+    model: options.baseConfidence ?? null,
+  };
+
+  const translatedBlocks = splitMarkdownBlocks(translatedText);
+  const sourceBlocks = alignBlocks(splitMarkdownBlocks(originalText), translatedBlocks);
+
+  const paragraphs = translatedBlocks.map((block, index): ParagraphConfidence => {
+    const source = sourceBlocks[index];
+    const sourceLength = stripMarkdownForDetection(source).length;
+    const blockSignals = {
+      script: scoreScript(block),
+      language: scoreTargetLanguage(stripMarkdownForDetection(block), targetLanguage),
+      // Very short blocks (names, sound effects) vary too much in length to judge
+      length: sourceLength >= 20
+        ? scoreLength(stripMarkdownForDetection(block).length / sourceLength, lengthRange)
+        : 1,
+      glossary: scoreGlossary(glossary, source, block),
+    };
+
+    const issues = (Object.keys(blockSignals) as Array<keyof typeof blockSignals>)
+      .filter(name => blockSignals[name] < ISSUE_THRESHOLD);
+
+    return { index, score: round(weightedScore(blockSignals)), issues };
+  });
+
+  return {
+    score: round(weightedScore(signals)),
+    signals,
+    paragraphs,
+    weakParagraphs: paragraphs.filter(p => p.score < LOW_CONFIDENCE_THRESHOLD).map(p => p.index),
+  };
+}
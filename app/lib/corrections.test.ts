@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { findSourceParagraph, findTermChanges } from './corrections';
+
+describe('findTermChanges', () => {
+  it('finds a replaced word', () => {
+    expect(findTermChanges('She drew her sword and charged.', 'She drew her saber and charged.'))
+      .toEqual([{ from: 'sword', to: 'saber' }]);
+  });
+
+  it('takes the rest of a name with a changed part of it', () => {
+    expect(findTermChanges('Then Lin Feng smiled at the elder.', 'Then Lin Fan smiled at the elder.'))
+      .toEqual([{ from: 'Lin Feng', to: 'Lin Fan' }]);
+  });
+
+  it('does not extend a name into the word that starts the sentence', () => {
+    expect(findTermChanges('Feng smiled. The elder nodded.', 'Fan smiled. The elder nodded.'))
+      .toEqual([{ from: 'Feng', to: 'Fan' }]);
+  });
+
+  it('reports a change made in several places once', () => {
+    expect(findTermChanges(
+      'Lin Feng bowed. Later, Lin Feng left.',
+      'Lin Fan bowed. Later, Lin Fan left.'
+    )).toEqual([{ from: 'Lin Feng', to: 'Lin Fan' }]);
+  });
+
+  it('drops a bare name part that is covered by the full name', () => {
+    expect(findTermChanges(
+      'Feng was tired. Then Lin Feng slept.',
+      'Fan was tired. Then Lin Fan slept.'
+    )).toEqual([{ from: 'Lin Feng', to: 'Lin Fan' }]);
+  });
+
+  it('ignores pure insertions, deletions and punctuation', () => {
+    expect(findTermChanges('He ran home.', 'He quickly ran home.')).toEqual([]);
+    expect(findTermChanges('He ran home quickly.', 'He ran home.')).toEqual([]);
+    expect(findTermChanges('He ran home.', 'He ran home!')).toEqual([]);
+  });
+
+  it('ignores rewrites longer than a few words', () => {
+    expect(findTermChanges(
+      'The old man told him to leave at once.',
+      'The old man said that he had better get out of there right now.'
+    )).toEqual([]);
+  });
+
+  it('handles scripts without spaces between words as whole runs', () => {
+    expect(findTermChanges('他叫林峰。', '他叫林凡。')).toEqual([{ from: '他叫林峰', to: '他叫林凡' }]);
+  });
+});
+
+describe('findSourceParagraph', () => {
+  it('pairs paragraphs by index only when the translation lines up with the source', () => {
+    expect(findSourceParagraph('一\n\n二\n\n三', 'One\n\nTwo\n\nThree', 1)).toBe('二');
+    expect(findSourceParagraph('一\n\n二\n\n三', 'One\n\nTwo and three', 1)).toBeNull();
+    expect(findSourceParagraph('一', 'One', 3)).toBeNull();
+  });
+});
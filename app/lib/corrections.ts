@@ -0,0 +1,598 @@
+import pool from './db';
+import { splitMarkdownBlocks } from './chunker';
+import { glossaryDB } from './glossary';
+import { getLanguageName, type TargetLanguage } from './languages';
+import { getInstructionProviderChain, translateWithFallback } from './providers/registry';
+import type { UsageTracker } from './usage';
+
+// Reader corrections: paragraphs of a translated chapter edited by a reader, tied to the chapter and, when
+// it was served from the translation cache, to the cached version. Words the correction replaced are kept
+// as term changes; once the same change has been made in enough corrections of a novel it is proposed as a
+// glossary entry, so later chapters are translated with the corrected rendering.
+//
+// A correction is applied to the text the reader who made it is served straight away, and to everyone's
+// once an admin has approved it.
+
+export interface TermChange {
+  from: string; // As the translation had it
+  to: string; // As the reader corrected it
+}
+
+export type CorrectionStatus = 'pending' | 'approved' | 'rejected';
+
+export interface Correction {
+  id: number;
+  chapterUrl: string;
+  versionId: number | null; // Cached version the correction applies to; null for chapters not cached
+  targetLanguage: TargetLanguage;
+  paragraphIndex: number;
+  original: string;
+  corrected: string;
+  termChanges: TermChange[];
+  status: CorrectionStatus;
+  timestamp: number;
+}
+
+export type ProposalStatus = 'pending' | 'accepted' | 'dismissed';
+
+export interface GlossaryProposal {
+  id: number;
+  source: string; // Source-language term
+  target: string; // Rendering readers corrected it to
+  replaced: string; // Rendering readers kept correcting
+  targetLanguage: TargetLanguage;
+  occurrences: number; // Corrections that made this change
+  status: ProposalStatus;
+  timestamp: number;
+}
+
+export interface NewCorrection {
+  authorKey: string; // See getClientKey
+  novelKey: string;
+  chapterUrl: string;
+  versionId: number | null;
+  targetLanguage: TargetLanguage;
+  paragraphIndex: number;
+  original: string;
+  corrected: string;
+  sourceParagraph: string | null; // The source paragraph, when known, to find the source term of a change
+}
+
+const MAX_TERM_WORDS = 4;
+const MAX_DIFF_WORDS = 400;
+const MAX_SOURCE_PARAGRAPHS = 3; // Examples sent to the model when looking for a source term
+
+// Corrections that must make the same change before it is proposed as a glossary entry
+function getProposalThreshold(): number {
+  const threshold = parseInt(process.env.CORRECTION_GLOSSARY_THRESHOLD || '2', 10);
+  return isNaN(threshold) || threshold < 1 ? 2 : threshold;
+}
+
+interface Word {
+  text: string;
+  start: number;
+  end: number;
+}
+
+// Letters and digits of the scripts translations are written in (Latin, Greek, Cyrillic, CJK, Hangul)
+const WORD_PATTERN = /[0-9A-Za-z\u00C0-\u024F\u0370-\u03FF\u0400-\u04FF\u1E00-\u1EFF\u3040-\u30FF\u4E00-\u9FFF\uAC00-\uD7AF]+(?:['’-][0-9A-Za-z\u00C0-\u024F\u0370-\u03FF\u0400-\u04FF\u1E00-\u1EFF\u3040-\u30FF\u4E00-\u9FFF\uAC00-\uD7AF]+)*/g;
+
+function tokenize(text: string): Word[] {
+  return Array.from(text.matchAll(WORD_PATTERN), match => ({
+    text: match[0],
+    start: match.index!,
+    end: match.index! + match[0].length
+  }));
+}
+
+// Capitalized, in scripts that have case
+function isNamePart(word: Word): boolean {
+  const initial = word.text[0];
+  return initial !== initial.toLowerCase();
+}
+
+// Only whitespace between two words
+function adjacent(text: string, left: Word, right: Word): boolean {
+  return /^\s+$/.test(text.slice(left.end, right.start));
+}
+
+function startsSentence(text: string, words: Word[], index: number): boolean {
+  return index === 0 || /[.!?:"“「『]\W*$/.test(text.slice(words[index - 1].end, words[index].start));
+}
+
+/**
+ * Short runs of words the correction replaced with other words (a renamed character, a fixed term).
+ * Pure insertions and deletions, and rewrites longer than a few words, are not term changes.
+ */
+export function findTermChanges(original: string, corrected: string): TermChange[] {
+  const a = tokenize(original);
+  const b = tokenize(corrected);
+  if (a.length > MAX_DIFF_WORDS || b.length > MAX_DIFF_WORDS) return [];
+
+  // lengths[i][j] = longest common subsequence of a[i..] and b[j..]
+  const width = b.length + 1;
+  const lengths = new Uint16Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = a[i].text === b[j].text
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const changes = new Map<string, TermChange>();
+  let i = 0;
+  let j = 0;
+  let fromStart = 0;
+  let toStart = 0;
+  const endRun = () => {
+    if (i - fromStart === 0 || j - toStart === 0) return;
+
+    // A changed part of a name takes the rest of the name with it: "Feng" -> "Fan" is "Lin Feng" -> "Lin Fan"
+    let first = fromStart;
+    let firstTo = toStart;
+    let last = i;
+    let lastTo = j;
+    while (
+      first > 0 && firstTo > 0 && last - first < MAX_TERM_WORDS && lastTo - firstTo < MAX_TERM_WORDS &&
+      isNamePart(a[first]) && isNamePart(b[firstTo]) && a[first - 1].text === b[firstTo - 1].text &&
+      isNamePart(a[first - 1]) && !startsSentence(original, a, first - 1) &&
+      adjacent(original, a[first - 1], a[first]) && adjacent(corrected, b[firstTo - 1], b[firstTo])
+    ) {
+      first--;
+      firstTo--;
+    }
+    while (
+      last < a.length && lastTo < b.length && last - first < MAX_TERM_WORDS && lastTo - firstTo < MAX_TERM_WORDS &&
+      isNamePart(a[last - 1]) && isNamePart(b[lastTo - 1]) && a[last].text === b[lastTo].text && isNamePart(a[last]) &&
+      adjacent(original, a[last - 1], a[last]) && adjacent(corrected, b[lastTo - 1], b[lastTo])
+    ) {
+      last++;
+      lastTo++;
+    }
+
+    if (last - first <= MAX_TERM_WORDS && lastTo - firstTo <= MAX_TERM_WORDS) {
+      const from = original.slice(a[first].start, a[last - 1].end);
+      const to = corrected.slice(b[firstTo].start, b[lastTo - 1].end);
+      changes.set(`${from}\u0000${to}`, { from, to });
+    }
+  };
+
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i].text === b[j].text) {
+      endRun();
+      i++;
+      j++;
+      fromStart = i;
+      toStart = j;
+    } else if (j >= b.length || (i < a.length && lengths[(i + 1) * width + j] >= lengths[i * width + j + 1])) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  endRun();
+
+  // "Feng" -> "Fan" at the start of a sentence is the same change as "Lin Feng" -> "Lin Fan" elsewhere
+  const found = Array.from(changes.values());
+  return found.filter(change => !found.some(other =>
+    other !== change && other.from.includes(change.from) && other.to.includes(change.to)
+  ));
+}
+
+/**
+ * The source paragraph a translated paragraph came from, when the translation lines up with the source
+ */
+export function findSourceParagraph(originalText: string, translatedText: string, paragraphIndex: number): string | null {
+  const sources = splitMarkdownBlocks(originalText);
+  const targets = splitMarkdownBlocks(translatedText);
+  return sources.length === targets.length ? sources[paragraphIndex] ?? null : null;
+}
+
+/**
+ * A cached translation with the corrections made to it, oldest first. A paragraph is found by its index and
+ * text, so corrections still apply when footnote markers were stripped or an earlier paragraph changed.
+ */
+export function applyCorrections(translatedText: string, corrections: Correction[]): string {
+  if (corrections.length === 0) return translatedText;
+
+  const blocks = splitMarkdownBlocks(translatedText);
+  for (const correction of corrections) {
+    const index = blocks[correction.paragraphIndex] === correction.original
+      ? correction.paragraphIndex
+      : blocks.indexOf(correction.original);
+    if (index !== -1) blocks[index] = correction.corrected;
+  }
+  return blocks.join('\n\n');
+}
+
+let initialized = false;
+
+export class CorrectionsDB {
+
+  private async ensureTable() {
+    if (initialized) return;
+
+    const query = `
+      CREATE TABLE IF NOT EXISTS translation_corrections (
+        id SERIAL PRIMARY KEY,
+        novel_key VARCHAR(512) NOT NULL,
+        chapter_url TEXT NOT NULL,
+        version_id INTEGER,
+        target_language VARCHAR(10) NOT NULL,
+        paragraph_index INTEGER NOT NULL,
+        original_text TEXT NOT NULL,
+        corrected_text TEXT NOT NULL,
+        source_paragraph TEXT,
+        term_changes JSONB NOT NULL DEFAULT '[]',
+        author_key TEXT NOT NULL,
+        status VARCHAR(16) NOT NULL DEFAULT 'pending',
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE INDEX IF NOT EXISTS idx_translation_corrections_novel
+        ON translation_corrections(novel_key, target_language);
+      CREATE INDEX IF NOT EXISTS idx_translation_corrections_chapter ON translation_corrections(chapter_url);
+      CREATE INDEX IF NOT EXISTS idx_translation_corrections_version ON translation_corrections(version_id);
+
+      CREATE TABLE IF NOT EXISTS glossary_proposals (
+        id SERIAL PRIMARY KEY,
+        novel_key VARCHAR(512) NOT NULL,
+        target_language VARCHAR(10) NOT NULL,
+        source_term TEXT NOT NULL,
+        target_term TEXT NOT NULL,
+        replaced_term TEXT NOT NULL,
+        occurrences INTEGER NOT NULL DEFAULT 0,
+        status VARCHAR(16) NOT NULL DEFAULT 'pending',
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(novel_key, target_language, replaced_term, target_term)
+      );
+    `;
+
+    try {
+      await pool.query(query);
+      initialized = true;
+    } catch (error) {
+      console.error('Failed to initialize translation_corrections table:', error);
+    }
+  }
+
+  async add(correction: NewCorrection, termChanges: TermChange[]): Promise<Correction> {
+    await this.ensureTable();
+
+    const result = await pool.query(`
+      INSERT INTO translation_corrections (
+        novel_key, chapter_url, version_id, target_language, paragraph_index, original_text, corrected_text,
+        source_paragraph, term_changes, author_key
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      RETURNING *
+    `, [
+      correction.novelKey, correction.chapterUrl, correction.versionId, correction.targetLanguage,
+      correction.paragraphIndex, correction.original, correction.corrected, correction.sourceParagraph,
+      JSON.stringify(termChanges), correction.authorKey
+    ]);
+    return this.toCorrection(result.rows[0]);
+  }
+
+  async listForChapter(chapterUrl: string, targetLanguage?: TargetLanguage): Promise<Correction[]> {
+    await this.ensureTable();
+
+    try {
+      const result = await pool.query(`
+        SELECT * FROM translation_corrections
+        WHERE chapter_url = $1 AND ($2::VARCHAR IS NULL OR target_language = $2)
+        ORDER BY created_at, id
+      `, [chapterUrl, targetLanguage ?? null]);
+      return result.rows.map(row => this.toCorrection(row));
+    } catch (error) {
+      console.error('Database correction list error:', error);
+      return [];
+    }
+  }
+
+  /**
+   * The approved corrections of a cached version, plus the pending ones of the reader given
+   */
+  async listForVersion(versionId: number, readerKey?: string): Promise<Correction[]> {
+    await this.ensureTable();
+
+    try {
+      const result = await pool.query(`
+        SELECT * FROM translation_corrections
+        WHERE version_id = $1
+          AND (status = 'approved' OR (status = 'pending' AND $2::VARCHAR IS NOT NULL AND author_key = $2))
+        ORDER BY created_at, id
+      `, [versionId, readerKey ?? null]);
+      return result.rows.map(row => this.toCorrection(row));
+    } catch (error) {
+      console.error('Database correction list error:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Approve or reject a pending correction; null when there is no such pending correction
+   */
+  async review(id: number, status: Exclude<CorrectionStatus, 'pending'>): Promise<Correction | null> {
+    await this.ensureTable();
+
+    const result = await pool.query(`
+      UPDATE translation_corrections SET status = $2
+      WHERE id = $1 AND status = 'pending'
+      RETURNING *
+    `, [id, status]);
+    return result.rows[0] ? this.toCorrection(result.rows[0]) : null;
+  }
+
+  /**
+   * Corrections of the cached translations made since a date, per prompt template of the corrected version
+   */
+  async countByPromptTemplate(since: Date): Promise<Array<{ promptTemplateId: number | null; corrections: number; correctedTranslations: number }>> {
+    await this.ensureTable();
+
+    const result = await pool.query(`
+      SELECT t.prompt_template_id, COUNT(*) AS corrections, COUNT(DISTINCT c.version_id) AS corrected_translations
+      FROM translation_corrections c
+      JOIN translations t ON t.id = c.version_id
+      WHERE t.created_at >= $1
+      GROUP BY t.prompt_template_id
+    `, [since]);
+
+    return result.rows.map(row => ({
+      promptTemplateId: row.prompt_template_id,
+      corrections: parseInt(row.corrections, 10),
+      correctedTranslations: parseInt(row.corrected_translations, 10)
+    }));
+  }
+
+  /**
+   * How many readers made this change in corrections of the novel that weren't rejected, and the most recent
+   * source paragraphs it was made in. Readers are counted once, so one reader can't push a proposal through.
+   */
+  async countTermChange(
+    novelKey: string,
+    targetLanguage: TargetLanguage,
+    change: TermChange
+  ): Promise<{ occurrences: number; sourceParagraphs: string[] }> {
+    await this.ensureTable();
+
+    const result = await pool.query(`
+      SELECT COUNT(DISTINCT c.author_key)::INTEGER AS occurrences,
+        (ARRAY_AGG(c.source_paragraph ORDER BY c.created_at DESC) FILTER (WHERE c.source_paragraph IS NOT NULL))
+          [1:${MAX_SOURCE_PARAGRAPHS}] AS source_paragraphs
+      FROM translation_corrections c, jsonb_array_elements(c.term_changes) AS term
+      WHERE c.novel_key = $1 AND c.target_language = $2 AND c.status <> 'rejected'
+        AND term->>'from' = $3 AND term->>'to' = $4
+    `, [novelKey, targetLanguage, change.from, change.to]);
+
+    const row = result.rows[0];
+    return { occurrences: row?.occurrences || 0, sourceParagraphs: row?.source_paragraphs || [] };
+  }
+
+  async findProposal(novelKey: string, targetLanguage: TargetLanguage, change: TermChange): Promise<GlossaryProposal | null> {
+    await this.ensureTable();
+
+    const result = await pool.query(`
+      SELECT * FROM glossary_proposals
+      WHERE novel_key = $1 AND target_language = $2 AND replaced_term = $3 AND target_term = $4
+    `, [novelKey, targetLanguage, change.from, change.to]);
+    return result.rows[0] ? this.toProposal(result.rows[0]) : null;
+  }
+
+  async saveProposal(
+    novelKey: string,
+    targetLanguage: TargetLanguage,
+    source: string,
+    change: TermChange,
+    occurrences: number
+  ): Promise<void> {
+    await this.ensureTable();
+
+    await pool.query(`
+      INSERT INTO glossary_proposals (novel_key, target_language, source_term, target_term, replaced_term, occurrences)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      ON CONFLICT (novel_key, target_language, replaced_term, target_term)
+      DO UPDATE SET occurrences = EXCLUDED.occurrences, updated_at = CURRENT_TIMESTAMP
+    `, [novelKey, targetLanguage, source, change.to, change.from, occurrences]);
+  }
+
+  async updateOccurrences(id: number, occurrences: number): Promise<void> {
+    await this.ensureTable();
+
+    await pool.query(
+      'UPDATE glossary_proposals SET occurrences = $2, updated_at = CURRENT_TIMESTAMP WHERE id = $1',
+      [id, occurrences]
+    );
+  }
+
+  async listProposals(novelKey: string, status: ProposalStatus = 'pending'): Promise<GlossaryProposal[]> {
+    await this.ensureTable();
+
+    try {
+      const result = await pool.query(`
+        SELECT * FROM glossary_proposals
+        WHERE novel_key = $1 AND status = $2
+        ORDER BY occurrences DESC, updated_at DESC
+      `, [novelKey, status]);
+      return result.rows.map(row => this.toProposal(row));
+    } catch (error) {
+      console.error('Database glossary proposal list error:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Accept or dismiss a pending proposal; null when there is no such pending proposal for the novel
+   */
+  async resolveProposal(novelKey: string, id: number, status: Exclude<ProposalStatus, 'pending'>): Promise<GlossaryProposal | null> {
+    await this.ensureTable();
+
+    const result = await pool.query(`
+      UPDATE glossary_proposals SET status = $3, updated_at = CURRENT_TIMESTAMP
+      WHERE id = $1 AND novel_key = $2 AND status = 'pending'
+      RETURNING *
+    `, [id, novelKey, status]);
+    return result.rows[0] ? this.toProposal(result.rows[0]) : null;
+  }
+
+  /**
+   * Accept a pending proposal and add it to the novel's glossary in one transaction; null when there is no
+   * such pending proposal for the novel
+   */
+  async acceptProposal(novelKey: string, id: number): Promise<GlossaryProposal | null> {
+    await this.ensureTable();
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      const result = await client.query(`
+        UPDATE glossary_proposals SET status = 'accepted', updated_at = CURRENT_TIMESTAMP
+        WHERE id = $1 AND novel_key = $2 AND status = 'pending'
+        RETURNING *
+      `, [id, novelKey]);
+      const proposal = result.rows[0] ? this.toProposal(result.rows[0]) : null;
+
+      if (proposal) {
+        await glossaryDB.upsertEntries(novelKey, proposal.targetLanguage, [{
+          source: proposal.source,
+          target: proposal.target,
+          notes: `Not "${proposal.replaced}" (reader correction)`
+        }], client);
+      }
+
+      await client.query('COMMIT');
+      return proposal;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private toCorrection(row: any): Correction {
+    return {
+      id: row.id,
+      chapterUrl: row.chapter_url,
+      versionId: row.version_id,
+      targetLanguage: row.target_language,
+      paragraphIndex: row.paragraph_index,
+      original: row.original_text,
+      corrected: row.corrected_text,
+      termChanges: row.term_changes || [],
+      status: row.status,
+      timestamp: new Date(row.created_at).getTime()
+    };
+  }
+
+  private toProposal(row: any): GlossaryProposal {
+    return {
+      id: row.id,
+      source: row.source_term,
+      target: row.target_term,
+      replaced: row.replaced_term,
+      targetLanguage: row.target_language,
+      occurrences: row.occurrences,
+      status: row.status,
+      timestamp: new Date(row.updated_at).getTime()
+    };
+  }
+}
+
+export const correctionsDB = new CorrectionsDB();
+
+/**
+ * A cached translation with its approved corrections applied, and the pending ones of the reader given
+ */
+export async function loadCorrectedTranslation(versionId: number, translatedText: string, readerKey?: string): Promise<string> {
+  return applyCorrections(translatedText, await correctionsDB.listForVersion(versionId, readerKey));
+}
+
+function buildSourceTermInstruction(targetLanguage: TargetLanguage): string {
+  return `You help maintain the glossary of a novel translated into ${getLanguageName(targetLanguage)}.
+
+You receive source-language paragraphs and a rendering that readers corrected in their translations. Find the term in the source paragraphs that was translated with that rendering.
+
+Reply with JSON only, with no code fences or commentary: {"source": string | null}
+- source is the term exactly as written in the source paragraphs: a name, title, place, technique or other fixed term.
+- Use null when the correction is about wording rather than a fixed term, or the term is not in the paragraphs.`;
+}
+
+async function findSourceTerm(
+  change: TermChange,
+  sourceParagraphs: string[],
+  targetLanguage: TargetLanguage,
+  usage?: UsageTracker
+): Promise<string | null> {
+  const chain = getInstructionProviderChain();
+  if (chain.length === 0 || sourceParagraphs.length === 0) return null;
+
+  const result = await translateWithFallback(chain, {
+    text: `Rendering readers corrected: "${change.from}" (corrected to "${change.to}")\n\nSource paragraphs:\n${sourceParagraphs.join('\n\n')}`,
+    systemInstruction: buildSourceTermInstruction(targetLanguage),
+    targetLanguage,
+    instruction: true
+  }, { maxAttempts: 1, onUsage: usage?.forPurpose('glossary-proposal') });
+  await usage?.flush();
+
+  try {
+    const source = JSON.parse(result.text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, ''))?.source;
+    // Only a term that actually appears in the source is of any use in the glossary
+    return typeof source === 'string' && source.trim() && sourceParagraphs.some(p => p.includes(source.trim()))
+      ? source.trim()
+      : null;
+  } catch {
+    console.error(`Source term lookup for "${change.from}" returned invalid JSON from ${result.model}`);
+    return null;
+  }
+}
+
+/**
+ * Propose glossary entries for the term changes of a new correction that readers keep making. The source
+ * term comes from the glossary entry being corrected, else from the instruction-following model.
+ */
+export async function proposeGlossaryEntries(
+  novelKey: string,
+  targetLanguage: TargetLanguage,
+  changes: TermChange[],
+  usage?: UsageTracker
+): Promise<void> {
+  const threshold = getProposalThreshold();
+
+  for (const change of changes) {
+    const { occurrences, sourceParagraphs } = await correctionsDB.countTermChange(novelKey, targetLanguage, change);
+    if (occurrences < threshold) continue;
+
+    const existing = await correctionsDB.findProposal(novelKey, targetLanguage, change);
+    if (existing) {
+      await correctionsDB.updateOccurrences(existing.id, occurrences);
+      continue;
+    }
+
+    const glossary = await glossaryDB.getEntries(novelKey, targetLanguage);
+    if (glossary.some(entry => entry.target.toLowerCase() === change.to.toLowerCase())) continue;
+
+    const corrected = glossary.find(entry => entry.target.toLowerCase() === change.from.toLowerCase());
+    const source = corrected?.source || await findSourceTerm(change, sourceParagraphs, targetLanguage, usage);
+    if (!source) continue;
+
+    await correctionsDB.saveProposal(novelKey, targetLanguage, source, change, occurrences);
+  }
+}
+
+/**
+ * Run proposeGlossaryEntries without holding up the response to the reader
+ */
+export function scheduleGlossaryProposals(
+  novelKey: string,
+  targetLanguage: TargetLanguage,
+  changes: TermChange[],
+  usage?: UsageTracker
+): void {
+  if (changes.length === 0) return;
+
+  proposeGlossaryEntries(novelKey, targetLanguage, changes, usage).catch(error => {
+    console.error(`Glossary proposals failed for ${novelKey}:`, error);
+  });
+}
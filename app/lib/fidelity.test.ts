@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import {
+  analyzeMarkdownStructure,
+  checkStructuralFidelity,
+  countFidelityErrors,
+  getLengthRatioRange,
+  retranslateIfOmitted
+} from './fidelity';
+import type { TranslationProvider, TranslationRequest } from './providers/base';
+import type { FallbackResult } from './providers/registry';
+
+const paragraphs = (count: number, text = 'The sword master raised his blade and waited for the storm to pass over the valley.') =>
+  Array.from({ length: count }, () => text).join('\n\n');
+
+describe('analyzeMarkdownStructure', () => {
+  it('counts paragraphs, heading levels, list items and emphasis', () => {
+    const markdown = '# Chapter 1\n\nHe said **no** and _left_.\n\n## Scene\n\n- one\n- two\n\nIntro:\n1. first';
+    expect(analyzeMarkdownStructure(markdown)).toMatchObject({
+      paragraphs: 2,
+      headings: [1, 2],
+      listItems: 3,
+      emphasis: 2
+    });
+  });
+});
+
+describe('checkStructuralFidelity', () => {
+  it('passes a translation with the same skeleton', () => {
+    const source = `# Title\n\n${paragraphs(4)}`;
+    const report = checkStructuralFidelity(source, source);
+
+    expect(report.passed).toBe(true);
+    expect(report.suspectedOmission).toBe(false);
+    expect(report.lengthRatio).toBe(1);
+  });
+
+  it('flags dropped paragraphs and headings as omissions', () => {
+    const report = checkStructuralFidelity(`# Title\n\n${paragraphs(5)}`, paragraphs(3));
+
+    expect(report.suspectedOmission).toBe(true);
+    expect(report.findings.map(finding => [finding.check, finding.severity])).toEqual(expect.arrayContaining([
+      ['paragraphs', 'error'],
+      ['headings', 'error']
+    ]));
+  });
+
+  it('only warns about split paragraphs', () => {
+    const report = checkStructuralFidelity(paragraphs(4), paragraphs(8, 'The sword master raised his blade.'));
+
+    expect(report.findings).toContainEqual(expect.objectContaining({ check: 'paragraphs', severity: 'warning' }));
+    expect(report.suspectedOmission).toBe(false);
+  });
+
+  it('flags a translation far shorter than the source', () => {
+    const report = checkStructuralFidelity(paragraphs(4), paragraphs(4, 'He waited.'));
+
+    expect(report.findings).toContainEqual(expect.objectContaining({ check: 'length', severity: 'error' }));
+    expect(countFidelityErrors(report)).toBe(1);
+  });
+});
+
+describe('getLengthRatioRange', () => {
+  it('expects CJK sources to expand in translation', () => {
+    expect(getLengthRatioRange('他看着远处的山峰，心中涌起一股说不出的感觉。')).toEqual([1.2, 6]);
+    expect(getLengthRatioRange('He looked at the mountains.')).toEqual([0.5, 2]);
+  });
+});
+
+describe('retranslateIfOmitted', () => {
+  const source = paragraphs(5);
+  const request: TranslationRequest = { text: source, systemInstruction: 'Translate.', targetLanguage: 'en' };
+  const current: FallbackResult = {
+    text: paragraphs(2), model: 'first', provider: 'first', baseConfidence: 0.9, attempts: 1, skipped: [], safety: null
+  };
+
+  const provider = (text: string, seen: TranslationRequest[] = []): TranslationProvider => ({
+    id: 'test', model: 'test', baseConfidence: 0.9, followsInstructions: true,
+    isConfigured: () => true,
+    translate: async (req) => { seen.push(req); return { text, model: 'test', provider: 'test' }; }
+  });
+
+  it('returns a more faithful retry made with the stricter instruction', async () => {
+    const seen: TranslationRequest[] = [];
+    const retry = await retranslateIfOmitted([provider(source, seen)], request, current, { maxAttempts: 1 });
+
+    expect(retry?.text).toBe(source);
+    expect(retry?.attempts).toBe(2);
+    expect(seen[0].systemInstruction).toContain('left out content');
+  });
+
+  it('keeps the current result when the retry is no better', async () => {
+    expect(await retranslateIfOmitted([provider(paragraphs(2))], request, current, { maxAttempts: 1 })).toBeNull();
+  });
+
+  it('does nothing when no content looks dropped', async () => {
+    const seen: TranslationRequest[] = [];
+    expect(await retranslateIfOmitted([provider(source, seen)], request, { ...current, text: source })).toBeNull();
+    expect(seen).toHaveLength(0);
+  });
+});
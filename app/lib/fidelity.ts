@@ -0,0 +1,239 @@
+// Structural fidelity checks between a source chapter and its translation
+// Compares the Markdown skeleton (paragraphs, headings, lists, emphasis) and the text length ratio
+
+import { splitMarkdownBlocks } from './chunker';
+import { countScripts, stripMarkdownForDetection } from './language-detection';
+import { buildOmissionRetryInstruction } from './translation-prompt';
+import {
+  translateWithFallback,
+  type FallbackOptions,
+  type FallbackResult
+} from './providers/registry';
+import type { TranslationProvider, TranslationRequest } from './providers/base';
+
+export interface MarkdownStructure {
+  paragraphs: number;
+  headings: number[]; // Heading levels in document order
+  listItems: number;
+  emphasis: number; // Bold and italic spans
+  textLength: number; // Prose characters, Markdown syntax stripped
+}
+
+export type FidelityCheck = 'paragraphs' | 'headings' | 'lists' | 'emphasis' | 'length';
+
+export interface FidelityFinding {
+  check: FidelityCheck;
+  severity: 'warning' | 'error';
+  message: string;
+  expected: number | string;
+  actual: number | string;
+}
+
+export interface FidelityReport {
+  passed: boolean;
+  suspectedOmission: boolean; // True when any finding is an error
+  findings: FidelityFinding[];
+  lengthRatio: number;
+  original: MarkdownStructure;
+  translated: MarkdownStructure;
+}
+
+const HEADING_REGEX = /^(#{1,6})\s/;
+const LIST_ITEM_REGEX = /^\s*([-*+]|\d+\.)\s+/;
+
+// Expected translated/original character ratio per source script (CJK expands a lot in Latin-script output)
+const LENGTH_RATIO_RANGES: Record<string, [number, number]> = {
+  cjk: [1.2, 6],
+  other: [0.5, 2],
+};
+
+/**
+ * Describe the Markdown skeleton of a text
+ */
+export function analyzeMarkdownStructure(markdown: string): MarkdownStructure {
+  const structure: MarkdownStructure = {
+    paragraphs: 0,
+    headings: [],
+    listItems: 0,
+    emphasis: 0,
+    textLength: stripMarkdownForDetection(markdown).length,
+  };
+
+  for (const block of splitMarkdownBlocks(markdown)) {
+    const heading = block.match(HEADING_REGEX);
+    if (heading) {
+      structure.headings.push(heading[1].length);
+      continue;
+    }
+
+    const lines = block.split('\n');
+    const listLines = lines.filter(line => LIST_ITEM_REGEX.test(line)).length;
+    structure.listItems += listLines;
+    if (listLines < lines.length) structure.paragraphs++;
+  }
+
+  structure.emphasis =
+    (markdown.match(/(\*\*|__)(?=\S)[\s\S]+?(?<=\S)\1/g) || []).length +
+    (markdown.replace(/(\*\*|__)/g, '').match(/(^|[^*_\w])([*_])(?=\S)[^*_\n]+?(?<=\S)\2(?![*_\w])/g) || []).length;
+
+  return structure;
+}
+
+function sourceScriptClass(markdown: string): keyof typeof LENGTH_RATIO_RANGES {
+  const { counts, total } = countScripts(stripMarkdownForDetection(markdown).slice(0, 20000));
+  const cjk = (counts.han || 0) + (counts.kana || 0) + (counts.hangul || 0);
+  return total > 0 && cjk / total > 0.3 ? 'cjk' : 'other';
+}
+
+/**
+ * The normal translated/original length ratio range for a source text
+ */
+export function getLengthRatioRange(originalMarkdown: string): [number, number] {
+  return LENGTH_RATIO_RANGES[sourceScriptClass(originalMarkdown)];
+}
+
+/**
+ * Compare the structure of a translation against its source
+ */
+export function checkStructuralFidelity(originalMarkdown: string, translatedText: string): FidelityReport {
+  const original = analyzeMarkdownStructure(originalMarkdown);
+  const translated = analyzeMarkdownStructure(translatedText);
+  const findings: FidelityFinding[] = [];
+
+  // Paragraphs: translators merge or split a few, but losing a fifth of them means content was dropped
+  if (original.paragraphs >= 3) {
+    const ratio = translated.paragraphs / original.paragraphs;
+    if (ratio < 0.8) {
+      findings.push({
+        check: 'paragraphs',
+        severity: 'error',
+        message: `Translation has ${translated.paragraphs} paragraphs, source has ${original.paragraphs}`,
+        expected: original.paragraphs,
+        actual: translated.paragraphs,
+      });
+    } else if (ratio > 1.5) {
+      findings.push({
+        check: 'paragraphs',
+        severity: 'warning',
+        message: `Translation split the text into ${translated.paragraphs} paragraphs, source has ${original.paragraphs}`,
+        expected: original.paragraphs,
+        actual: translated.paragraphs,
+      });
+    }
+  }
+
+  // Headings: same number and levels, in order
+  const expectedHeadings = original.headings.join(',');
+  const actualHeadings = translated.headings.join(',');
+  if (expectedHeadings !== actualHeadings) {
+    findings.push({
+      check: 'headings',
+      severity: translated.headings.length < original.headings.length ? 'error' : 'warning',
+      message: translated.headings.length < original.headings.length
+        ? 'Headings were dropped or flattened into plain text'
+        : 'Heading levels differ from the source',
+      expected: expectedHeadings || 'none',
+      actual: actualHeadings || 'none',
+    });
+  }
+
+  // Lists: item count should carry over
+  if (original.listItems !== translated.listItems) {
+    findings.push({
+      check: 'lists',
+      severity: translated.listItems < original.listItems * 0.8 ? 'error' : 'warning',
+      message: `Translation has ${translated.listItems} list items, source has ${original.listItems}`,
+      expected: original.listItems,
+      actual: translated.listItems,
+    });
+  }
+
+  // Emphasis: allow some slack, translators legitimately restructure sentences
+  if (Math.abs(original.emphasis - translated.emphasis) > Math.max(2, original.emphasis * 0.3)) {
+    findings.push({
+      check: 'emphasis',
+      severity: 'warning',
+      message: `Translation has ${translated.emphasis} emphasis spans, source has ${original.emphasis}`,
+      expected: original.emphasis,
+      actual: translated.emphasis,
+    });
+  }
+
+  // Length ratio, relative to what is normal for the source script
+  const lengthRatio = original.textLength > 0 ? translated.textLength / original.textLength : 1;
+  if (original.textLength >= 200) {
+    const [min, max] = getLengthRatioRange(originalMarkdown);
+    if (lengthRatio < min || lengthRatio > max) {
+      findings.push({
+        check: 'length',
+        severity: lengthRatio < min ? 'error' : 'warning',
+        message: lengthRatio < min
+          ? `Translation is unusually short (${lengthRatio.toFixed(2)}x the source length)`
+          : `Translation is unusually long (${lengthRatio.toFixed(2)}x the source length)`,
+        expected: `${min}-${max}`,
+        actual: Math.round(lengthRatio * 100) / 100,
+      });
+    }
+  }
+
+  const suspectedOmission = findings.some(finding => finding.severity === 'error');
+
+  return {
+    passed: findings.length === 0,
+    suspectedOmission,
+    findings,
+    lengthRatio: Math.round(lengthRatio * 100) / 100,
+    original,
+    translated,
+  };
+}
+
+/**
+ * Count error-level findings, used to pick the better of two attempts
+ */
+export function countFidelityErrors(report: FidelityReport): number {
+  return report.findings.filter(finding => finding.severity === 'error').length;
+}
+
+/**
+ * Retranslate a chunk whose structure suggests dropped content, with a stricter instruction.
+ * Returns the retry only when it is more faithful than the current result, otherwise null.
+ */
+export async function retranslateIfOmitted(
+  chain: TranslationProvider[],
+  request: TranslationRequest,
+  current: FallbackResult,
+  options: FallbackOptions = {}
+): Promise<FallbackResult | null> {
+  const report = checkStructuralFidelity(request.text, current.text);
+  if (!report.suspectedOmission) return null;
+
+  try {
+    const retry = await translateWithFallback(chain, {
+      ...request,
+      systemInstruction: buildOmissionRetryInstruction(request.systemInstruction)
+    }, options);
+
+    const retryReport = checkStructuralFidelity(request.text, retry.text);
+    if (countFidelityErrors(retryReport) < countFidelityErrors(report)) {
+      return { ...retry, attempts: current.attempts + retry.attempts };
+    }
+  } catch (error) {
+    console.error('Omission retranslation failed:', error);
+  }
+
+  return null;
+}
+
+/**
+ * The part of a report returned to clients
+ */
+export function summarizeFidelity(report: FidelityReport, retranslatedChunks: number[] = []) {
+  return {
+    passed: report.passed,
+    suspectedOmission: report.suspectedOmission,
+    findings: report.findings,
+    lengthRatio: report.lengthRatio,
+    retranslatedChunks,
+  };
+}
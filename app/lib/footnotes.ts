@@ -0,0 +1,63 @@
+// Translator's footnotes: the model marks idioms, ranks, wordplay and culturally specific terms with
+// inline markers ("[^1]") and lists the explanations ("[^1]: ...") after its translation. Each chunk
+// numbers its own footnotes; they are renumbered across the chapter and the list is stored separately,
+// so translatedText only carries the markers.
+
+export interface Footnote {
+  id: number; // Matches the "[^id]" marker in the translated Markdown
+  text: string;
+}
+
+const DEFINITION_REGEX = /^[ \t]*\[\^([^\]\s]+)\]:[ \t]*(.+)$/gm;
+const MARKER_REGEX = /\[\^([^\]\s]+)\](?!:)/g;
+
+/**
+ * Split one chunk's output into its body and footnotes, numbering the footnotes from firstId in the order
+ * their markers appear. Markers without an explanation are dropped, as are explanations nothing refers to.
+ */
+export function extractFootnotes(output: string, firstId: number): { text: string; footnotes: Footnote[] } {
+  const definitions = new Map<string, string>();
+  let body = output.replace(DEFINITION_REGEX, (_, label: string, text: string) => {
+    definitions.set(label, text.trim());
+    return '';
+  });
+
+  const ids = new Map<string, number>();
+  body = body.replace(MARKER_REGEX, (_, label: string) => {
+    if (!definitions.has(label)) return '';
+    if (!ids.has(label)) ids.set(label, firstId + ids.size);
+    return `[^${ids.get(label)}]`;
+  });
+
+  // The list sometimes comes under a rule or a "Notes" heading of its own
+  if (definitions.size > 0) body = body.replace(/(?:\n\s*(?:-{3,}|\*{3,}|#{1,6}\s*(?:foot)?notes:?|(?:foot)?notes:)\s*)+$/i, '');
+
+  return {
+    text: body.replace(/\n{3,}/g, '\n\n').trim(),
+    footnotes: Array.from(ids, ([label, id]) => ({ id, text: definitions.get(label)! }))
+  };
+}
+
+/**
+ * Footnotes of every chunk, numbered across the chapter in chunk order
+ */
+export function extractChapterFootnotes(outputs: string[]): { texts: string[]; footnotes: Footnote[] } {
+  const footnotes: Footnote[] = [];
+  const texts = outputs.map(output => {
+    const chunk = extractFootnotes(output, footnotes.length + 1);
+    footnotes.push(...chunk.footnotes);
+    return chunk.text;
+  });
+  return { texts, footnotes };
+}
+
+export function stripFootnoteMarkers(markdown: string): string {
+  return markdown.replace(MARKER_REGEX, '');
+}
+
+/**
+ * Turn "[^n]" markers into "#footnote-n" links, which ReactMarkdown renders without GFM footnote support
+ */
+export function linkFootnoteMarkers(markdown: string): string {
+  return markdown.replace(/\[\^(\d+)\](?!:)/g, '[$1](#footnote-$1)');
+}
@@ -0,0 +1,170 @@
+import pool from './db';
+import type { PoolClient } from 'pg';
+import type { TargetLanguage } from './languages';
+import { detectPromptInjection } from './prompt-injection';
+import { neutralizeSourceText } from './translation-prompt';
+
+export interface GlossaryEntry {
+  source: string; // Term as it appears in the source text
+  target: string; // Fixed rendering in the target language
+  notes?: string; // Optional context for the translator (gender, role, etc.)
+}
+
+export interface GlossaryViolation {
+  source: string;
+  expected: string;
+  occurrences: number; // How often the source term appears in the original
+}
+
+let initialized = false;
+
+export class GlossaryDB {
+
+  private async ensureTable() {
+    if (initialized) return;
+
+    // Each target language has its own renderings
+    const query = `
+      CREATE TABLE IF NOT EXISTS novel_glossaries (
+        id SERIAL PRIMARY KEY,
+        novel_key VARCHAR(512) NOT NULL,
+        target_language VARCHAR(10) NOT NULL DEFAULT 'en',
+        source_term TEXT NOT NULL,
+        target_term TEXT NOT NULL,
+        notes TEXT,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_novel_glossaries_term
+        ON novel_glossaries(novel_key, target_language, source_term);
+      CREATE INDEX IF NOT EXISTS idx_novel_glossaries_novel ON novel_glossaries(novel_key);
+    `;
+
+    try {
+      await pool.query(query);
+      initialized = true;
+    } catch (error) {
+      console.error('Failed to initialize novel_glossaries table:', error);
+    }
+  }
+
+  async getEntries(novelKey: string, targetLanguage: TargetLanguage): Promise<GlossaryEntry[]> {
+    await this.ensureTable();
+
+    const query = `
+      SELECT source_term, target_term, notes
+      FROM novel_glossaries
+      WHERE novel_key = $1 AND target_language = $2
+      ORDER BY source_term
+    `;
+
+    try {
+      const result = await pool.query(query, [novelKey, targetLanguage]);
+      return result.rows.map(row => ({
+        source: row.source_term,
+        target: row.target_term,
+        notes: row.notes || undefined
+      }));
+    } catch (error) {
+      console.error('Database glossary get error:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Add or update entries; pass a client to write inside its transaction
+   */
+  async upsertEntries(
+    novelKey: string,
+    targetLanguage: TargetLanguage,
+    entries: GlossaryEntry[],
+    client: Pick<PoolClient, 'query'> = pool
+  ): Promise<void> {
+    await this.ensureTable();
+
+    const query = `
+      INSERT INTO novel_glossaries (novel_key, target_language, source_term, target_term, notes)
+      VALUES ($1, $2, $3, $4, $5)
+      ON CONFLICT (novel_key, target_language, source_term)
+      DO UPDATE SET
+        target_term = EXCLUDED.target_term,
+        notes = EXCLUDED.notes,
+        updated_at = CURRENT_TIMESTAMP
+    `;
+
+    for (const entry of entries) {
+      await client.query(query, [novelKey, targetLanguage, entry.source, entry.target, entry.notes || null]);
+    }
+  }
+
+  async deleteEntry(novelKey: string, targetLanguage: TargetLanguage, source: string): Promise<boolean> {
+    await this.ensureTable();
+
+    const result = await pool.query(
+      'DELETE FROM novel_glossaries WHERE novel_key = $1 AND target_language = $2 AND source_term = $3',
+      [novelKey, targetLanguage, source]
+    );
+    return (result.rowCount || 0) > 0;
+  }
+}
+
+export const glossaryDB = new GlossaryDB();
+
+/**
+ * Keep only the entries whose source term occurs in the text, so the prompt stays small
+ */
+export function filterRelevantEntries(entries: GlossaryEntry[], text: string): GlossaryEntry[] {
+  return entries.filter(entry => text.includes(entry.source));
+}
+
+/**
+ * Render glossary entries as an additional guideline for the system instruction. Entries are reader-supplied,
+ * so they go in a delimited data block, and notes that read like instructions to a model are left out.
+ */
+export function formatGlossaryForPrompt(entries: GlossaryEntry[]): string {
+  if (entries.length === 0) return '';
+
+  const lines = entries.map(entry => {
+    const notes = entry.notes && detectPromptInjection(entry.notes).length === 0 ? ` (${entry.notes})` : '';
+    return `- ${entry.source} → ${entry.target}${notes}`;
+  });
+
+  return `
+
+Glossary: The following terms MUST always be rendered exactly as given, in every occurrence:
+<glossary>
+${neutralizeSourceText(lines.join('\n'))}
+</glossary>`;
+}
+
+function countOccurrences(text: string, term: string): number {
+  if (!term) return 0;
+  return text.split(term).length - 1;
+}
+
+/**
+ * Flag glossary terms that appear in the original but whose fixed rendering is missing from the translation
+ */
+export function findGlossaryViolations(
+  entries: GlossaryEntry[],
+  originalText: string,
+  translatedText: string
+): GlossaryViolation[] {
+  const translatedLower = translatedText.toLowerCase();
+  const violations: GlossaryViolation[] = [];
+
+  for (const entry of entries) {
+    const occurrences = countOccurrences(originalText, entry.source);
+    if (occurrences === 0) continue;
+
+    if (!translatedLower.includes(entry.target.toLowerCase())) {
+      violations.push({
+        source: entry.source,
+        expected: entry.target,
+        occurrences
+      });
+    }
+  }
+
+  return violations;
+}
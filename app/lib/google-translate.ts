@@ -1,5 +1,12 @@
 
-export async function translateWithGoogle(text: string, apiKey: string): Promise<string> {
+import { DEFAULT_TARGET_LANGUAGE, type TargetLanguage } from './languages';
+import { ProviderHttpError, parseRetryAfter } from './providers/errors';
+
+export async function translateWithGoogle(
+  text: string,
+  apiKey: string,
+  targetLanguage: TargetLanguage = DEFAULT_TARGET_LANGUAGE
+): Promise<string> {
   const url = `https://translation.googleapis.com/language/translate/v2?key=${apiKey}`;
   
   try {
@@ -10,7 +17,7 @@ export async function translateWithGoogle(text: string, apiKey: string): Promise
       },
       body: JSON.stringify({
         q: text,
-        target: 'en',
+        target: targetLanguage,
         format: 'text',
       }),
     });
@@ -18,7 +25,11 @@ export async function translateWithGoogle(text: string, apiKey: string): Promise
     if (!response.ok) {
         // If 403 or 400, might be key issue.
         const errorBody = await response.text();
-        throw new Error(`Google Translate API failed: ${response.status} ${response.statusText} - ${errorBody}`);
+        throw new ProviderHttpError(
+          `Google Translate API failed: ${response.status} ${response.statusText} - ${errorBody}`,
+          response.status,
+          parseRetryAfter(response.headers.get('retry-after'))
+        );
     }
 
     const data = await response.json();
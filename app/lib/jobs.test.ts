@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  query: vi.fn(),
+  client: { query: vi.fn(), release: vi.fn() },
+  getScrape: vi.fn(),
+  translateChapter: vi.fn(),
+  flush: vi.fn(async () => {})
+}));
+
+vi.mock('./db', () => ({
+  default: { query: mocks.query, connect: vi.fn(async () => mocks.client) }
+}));
+vi.mock('./cache', () => ({
+  cache: { getScrape: mocks.getScrape, setScrape: vi.fn() },
+  cacheHelpers: { isValidContentSize: () => true }
+}));
+vi.mock('./scraper', () => ({ scraper: { scrape: vi.fn() } }));
+vi.mock('./pattern-storage', () => ({ navigationEngine: { predictNavigation: vi.fn() } }));
+vi.mock('./translation-pipeline', () => ({ translateChapter: mocks.translateChapter }));
+vi.mock('./usage', () => ({
+  checkBudget: vi.fn(async () => ({ action: 'allow' })),
+  createUsageTracker: vi.fn(() => ({ flush: mocks.flush }))
+}));
+
+import { processChapter, type TranslationJob } from './jobs';
+
+const job: TranslationJob = {
+  id: 5,
+  status: 'running',
+  startUrl: 'https://novels.example.com/book/12',
+  chapterCount: 3,
+  targetLanguage: 'en',
+  completedChapters: 0,
+  failedChapters: 0,
+  message: null,
+  createdAt: 0,
+  startedAt: 0,
+  finishedAt: null
+};
+const client = { clientKey: 'key:reader', clientIp: undefined };
+const heartbeats = () => mocks.query.mock.calls.filter(([sql]) => String(sql).includes('SET locked_at')).length;
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mocks.query.mockResolvedValue({ rows: [], rowCount: 1 });
+  mocks.client.query.mockResolvedValue({ rows: [], rowCount: 1 });
+  mocks.getScrape.mockResolvedValue({ content: '第十二章' });
+  mocks.translateChapter.mockResolvedValue({
+    status: 'translated', model: 'test-model', confidence: { score: 0.8 }, injection: null
+  });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('processChapter', () => {
+  it('records the translated chapter and counts it toward the job in one transaction', async () => {
+    expect(await processChapter(job, 0, job.startUrl, 'worker', client)).toBe('completed');
+
+    expect(mocks.translateChapter).toHaveBeenCalledWith(
+      { text: '第十二章', sourceUrl: job.startUrl, chapterNumber: '12', targetLanguage: 'en' },
+      expect.objectContaining({ budget: { action: 'allow' } })
+    );
+    const statements = mocks.client.query.mock.calls.map(([sql]) => String(sql).trim());
+    expect(statements[0]).toBe('BEGIN');
+    expect(mocks.client.query).toHaveBeenCalledWith(
+      expect.stringContaining('UPDATE translation_job_chapters'), [5, 0, 'completed', 'translated', 'test-model', 0.8]
+    );
+    expect(statements[2]).toContain('completed_chapters = completed_chapters + 1');
+    expect(statements.at(-1)).toBe('COMMIT');
+    expect(mocks.client.release).toHaveBeenCalled();
+    expect(mocks.flush).toHaveBeenCalled();
+  });
+
+  it('renews the lease while a long chapter is translating', async () => {
+    vi.useFakeTimers();
+    let finish!: (value: unknown) => void;
+    mocks.translateChapter.mockReturnValue(new Promise(resolve => { finish = resolve; }));
+
+    const outcome = processChapter(job, 0, job.startUrl, 'worker', client);
+    await vi.advanceTimersByTimeAsync(12 * 60 * 1000);
+    expect(heartbeats()).toBe(3);
+
+    finish({ status: 'translated', model: 'test-model', confidence: { score: 0.8 }, injection: null });
+    expect(await outcome).toBe('completed');
+
+    await vi.advanceTimersByTimeAsync(12 * 60 * 1000);
+    expect(heartbeats()).toBe(3);
+  });
+
+  it('stops at an exhausted budget and counts the chapter as failed', async () => {
+    mocks.translateChapter.mockResolvedValue({
+      status: 'over-budget', budget: { action: 'reject', period: 'daily', spentUsd: 2, limitUsd: 1, resetAt: 0 }
+    });
+
+    expect(await processChapter(job, 1, job.startUrl, 'worker', client)).toBe('over-budget');
+    expect(mocks.query).toHaveBeenCalledWith(expect.stringContaining('attempts = attempts + 1'), [5, 1, 'daily budget exhausted']);
+    expect(mocks.client.query).toHaveBeenCalledWith(expect.stringContaining('failed_chapters = failed_chapters + 1'), [5]);
+  });
+});
@@ -0,0 +1,571 @@
+import pool from './db';
+import crypto from 'crypto';
+import { cache, cacheHelpers } from './cache';
+import { scraper } from './scraper';
+import { navigationEngine } from './pattern-storage';
+import { extractChapterIdentifier, extractNovelKey } from './url-prediction';
+import { extractChapterNumber, validateAndSanitizeUrl, logSecurityEvent } from './security';
+import { translateChapter } from './translation-pipeline';
+import { describeInjection } from './prompt-injection';
+import { checkBudget, createUsageTracker } from './usage';
+import { TranslationFailedError } from './providers/errors';
+import type { TargetLanguage } from './languages';
+
+// Background translation of chapter ranges. A job starts at one chapter URL and walks
+// navigationEngine.predictNavigation for the next ones, scraping and translating each into the translation cache.
+// Jobs and per-chapter progress live in Postgres; workers run in the server process and claim jobs with a lease,
+// so a job interrupted by a restart is picked up again where it stopped.
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+export type JobChapterStatus = 'running' | 'completed' | 'failed';
+
+export interface JobChapter {
+  position: number; // 0 for the start URL
+  url: string;
+  status: JobChapterStatus;
+  result: 'translated' | 'cached' | 'passthrough' | null;
+  attempts: number;
+  model: string | null;
+  confidence: number | null;
+  error: string | null;
+  nextUrl: string | null;
+  startedAt: number | null;
+  finishedAt: number | null;
+}
+
+export interface TranslationJob {
+  id: number;
+  status: JobStatus;
+  startUrl: string;
+  chapterCount: number;
+  targetLanguage: TargetLanguage;
+  completedChapters: number;
+  failedChapters: number;
+  message: string | null; // Why the job stopped early or failed
+  createdAt: number;
+  startedAt: number | null;
+  finishedAt: number | null;
+  chapters?: JobChapter[];
+}
+
+const MAX_CHAPTER_ATTEMPTS = 3;
+const RETRY_DELAY = 5000; // Doubled after each failed attempt
+const LEASE_TIMEOUT_MINUTES = 10; // A running job whose worker has not checked in for this long is reclaimed
+const LEASE_RENEW_INTERVAL = LEASE_TIMEOUT_MINUTES * 60 * 1000 / 3;
+const POLL_INTERVAL = 15000;
+
+let initialized = false;
+
+const toTime = (value: Date | null) => value ? new Date(value).getTime() : null;
+
+function rowToJob(row: any): TranslationJob {
+  return {
+    id: row.id,
+    status: row.status,
+    startUrl: row.start_url,
+    chapterCount: row.chapter_count,
+    targetLanguage: row.target_language,
+    completedChapters: row.completed_chapters,
+    failedChapters: row.failed_chapters,
+    message: row.message,
+    createdAt: new Date(row.created_at).getTime(),
+    startedAt: toTime(row.started_at),
+    finishedAt: toTime(row.finished_at)
+  };
+}
+
+function rowToChapter(row: any): JobChapter {
+  return {
+    position: row.position,
+    url: row.url,
+    status: row.status,
+    result: row.result,
+    attempts: row.attempts,
+    model: row.model,
+    confidence: row.confidence,
+    error: row.error,
+    nextUrl: row.next_url,
+    startedAt: toTime(row.started_at),
+    finishedAt: toTime(row.finished_at)
+  };
+}
+
+export class TranslationJobDB {
+  private async ensureTable() {
+    if (initialized) return;
+
+    const query = `
+      CREATE TABLE IF NOT EXISTS translation_jobs (
+        id SERIAL PRIMARY KEY,
+        status VARCHAR(20) NOT NULL DEFAULT 'queued',
+        start_url TEXT NOT NULL,
+        chapter_count INTEGER NOT NULL,
+        target_language VARCHAR(10) NOT NULL DEFAULT 'en',
+        completed_chapters INTEGER NOT NULL DEFAULT 0,
+        failed_chapters INTEGER NOT NULL DEFAULT 0,
+        message TEXT,
+        client_ip TEXT,
+        client_key TEXT,
+        locked_by VARCHAR(64),
+        locked_at TIMESTAMP WITH TIME ZONE,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        started_at TIMESTAMP WITH TIME ZONE,
+        finished_at TIMESTAMP WITH TIME ZONE
+      );
+      CREATE INDEX IF NOT EXISTS idx_translation_jobs_status ON translation_jobs(status, created_at);
+
+      CREATE TABLE IF NOT EXISTS translation_job_chapters (
+        id SERIAL PRIMARY KEY,
+        job_id INTEGER NOT NULL REFERENCES translation_jobs(id) ON DELETE CASCADE,
+        position INTEGER NOT NULL,
+        url TEXT NOT NULL,
+        status VARCHAR(20) NOT NULL DEFAULT 'running',
+        result VARCHAR(20),
+        attempts INTEGER NOT NULL DEFAULT 0,
+        model TEXT,
+        confidence REAL,
+        error TEXT,
+        next_url TEXT,
+        started_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        finished_at TIMESTAMP WITH TIME ZONE,
+        UNIQUE(job_id, position)
+      );
+    `;
+
+    try {
+      await pool.query(query);
+      initialized = true;
+    } catch (error) {
+      console.error('Failed to initialize translation job tables:', error);
+    }
+  }
+
+  async create(
+    startUrl: string,
+    chapterCount: number,
+    targetLanguage: TargetLanguage,
+    clientIp?: string,
+    clientKey?: string
+  ): Promise<TranslationJob> {
+    await this.ensureTable();
+
+    const result = await pool.query(
+      `INSERT INTO translation_jobs (start_url, chapter_count, target_language, client_ip, client_key)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING *`,
+      [startUrl, chapterCount, targetLanguage, clientIp || null, clientKey || null]
+    );
+    return rowToJob(result.rows[0]);
+  }
+
+  /**
+   * Who queued the job, for usage accounting; kept out of TranslationJob since jobs are listed publicly
+   */
+  async getClient(id: number): Promise<{ clientKey: string; clientIp: string | undefined }> {
+    await this.ensureTable();
+
+    const result = await pool.query('SELECT client_ip, client_key FROM translation_jobs WHERE id = $1', [id]);
+    const row = result.rows[0] || {};
+    return {
+      clientKey: row.client_key || `ip:${row.client_ip || 'unknown'}`,
+      clientIp: row.client_ip || undefined
+    };
+  }
+
+  async get(id: number): Promise<TranslationJob | null> {
+    await this.ensureTable();
+
+    const jobResult = await pool.query('SELECT * FROM translation_jobs WHERE id = $1', [id]);
+    if (jobResult.rows.length === 0) return null;
+
+    const chapterResult = await pool.query(
+      'SELECT * FROM translation_job_chapters WHERE job_id = $1 ORDER BY position',
+      [id]
+    );
+
+    return { ...rowToJob(jobResult.rows[0]), chapters: chapterResult.rows.map(rowToChapter) };
+  }
+
+  async list(limit: number = 20): Promise<TranslationJob[]> {
+    await this.ensureTable();
+
+    const result = await pool.query('SELECT * FROM translation_jobs ORDER BY created_at DESC LIMIT $1', [limit]);
+    return result.rows.map(rowToJob);
+  }
+
+  /**
+   * Cancel a queued or running job; a running job stops after its current chapter
+   */
+  async cancel(id: number): Promise<boolean> {
+    await this.ensureTable();
+
+    const result = await pool.query(
+      `UPDATE translation_jobs
+       SET status = 'cancelled', message = 'Cancelled by request', finished_at = CURRENT_TIMESTAMP, locked_by = NULL
+       WHERE id = $1 AND status IN ('queued', 'running')`,
+      [id]
+    );
+    return (result.rowCount || 0) > 0;
+  }
+
+  /**
+   * Take the oldest queued job, or a running one whose worker stopped checking in
+   */
+  async claimNext(workerId: string): Promise<TranslationJob | null> {
+    await this.ensureTable();
+
+    const result = await pool.query(
+      `UPDATE translation_jobs
+       SET status = 'running', locked_by = $1, locked_at = CURRENT_TIMESTAMP,
+           started_at = COALESCE(started_at, CURRENT_TIMESTAMP)
+       WHERE id = (
+         SELECT id FROM translation_jobs
+         WHERE status = 'queued'
+            OR (status = 'running' AND locked_at < CURRENT_TIMESTAMP - INTERVAL '${LEASE_TIMEOUT_MINUTES} minutes')
+         ORDER BY created_at
+         LIMIT 1
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING *`,
+      [workerId]
+    );
+    if (result.rows.length === 0) return null;
+
+    return this.get(result.rows[0].id);
+  }
+
+  /**
+   * Renew the lease; returns false when the job was cancelled or taken over by another worker
+   */
+  async heartbeat(id: number, workerId: string): Promise<boolean> {
+    const result = await pool.query(
+      `UPDATE translation_jobs SET locked_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND locked_by = $2 AND status = 'running'`,
+      [id, workerId]
+    );
+    return (result.rowCount || 0) > 0;
+  }
+
+  async startChapter(jobId: number, position: number, url: string): Promise<void> {
+    await pool.query(
+      `INSERT INTO translation_job_chapters (job_id, position, url)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (job_id, position)
+       DO UPDATE SET url = EXCLUDED.url, status = 'running', error = NULL, started_at = CURRENT_TIMESTAMP`,
+      [jobId, position, url]
+    );
+  }
+
+  async recordAttempt(jobId: number, position: number, error: string | null): Promise<void> {
+    await pool.query(
+      `UPDATE translation_job_chapters SET attempts = attempts + 1, error = $3
+       WHERE job_id = $1 AND position = $2`,
+      [jobId, position, error]
+    );
+  }
+
+  async finishChapter(
+    jobId: number,
+    position: number,
+    outcome: { status: 'completed' | 'failed'; result?: JobChapter['result']; model?: string; confidence?: number }
+  ): Promise<void> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query(
+        `UPDATE translation_job_chapters
+         SET status = $3, result = $4, model = $5, confidence = $6, finished_at = CURRENT_TIMESTAMP
+         WHERE job_id = $1 AND position = $2`,
+        [jobId, position, outcome.status, outcome.result || null, outcome.model || null, outcome.confidence ?? null]
+      );
+      await client.query(
+        outcome.status === 'completed'
+          ? 'UPDATE translation_jobs SET completed_chapters = completed_chapters + 1 WHERE id = $1'
+          : 'UPDATE translation_jobs SET failed_chapters = failed_chapters + 1 WHERE id = $1',
+        [jobId]
+      );
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async setNextUrl(jobId: number, position: number, nextUrl: string | null): Promise<void> {
+    await pool.query(
+      'UPDATE translation_job_chapters SET next_url = $3 WHERE job_id = $1 AND position = $2',
+      [jobId, position, nextUrl]
+    );
+  }
+
+  async finish(id: number, workerId: string, status: 'completed' | 'failed', message: string | null = null): Promise<void> {
+    await pool.query(
+      `UPDATE translation_jobs
+       SET status = $3, message = $4, finished_at = CURRENT_TIMESTAMP, locked_by = NULL
+       WHERE id = $1 AND locked_by = $2 AND status = 'running'`,
+      [id, workerId, status, message]
+    );
+  }
+}
+
+export const translationJobDB = new TranslationJobDB();
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Predicted URLs use the chapter-N form more often than /N/; fall back to the identifier, then the position
+function chapterNumberFor(url: string, position: number): string {
+  try {
+    return extractChapterNumber(url) || extractChapterIdentifier(url).identifier || String(position + 1);
+  } catch {
+    return String(position + 1);
+  }
+}
+
+async function scrapeChapter(url: string): Promise<string> {
+  const cached = await cache.getScrape(url);
+  if (cached) return cached.content;
+
+  const scrapeResult = await scraper.scrape(url, {
+    timeout: 60000,
+    userAgent: 'Gemini Novel Reader/1.0',
+    maxSize: 1 * 1024 * 1024 // 1MB
+  });
+  if (scrapeResult.error) throw new Error(`Failed to scrape content: ${scrapeResult.error}`);
+
+  const content = scrapeResult.content;
+  if (!content || content.trim().length === 0) throw new Error('No content available from source');
+  if (!cacheHelpers.isValidContentSize(content)) throw new Error('Scraped content exceeds 1MB limit');
+
+  await cache.setScrape(url, content);
+  return content;
+}
+
+type JobClient = Awaited<ReturnType<TranslationJobDB['getClient']>>;
+
+/**
+ * Scrape and translate one chapter, retrying with backoff. Stops the job when the client's budget is
+ * exhausted and BUDGET_EXHAUSTED_ACTION=reject. The lease is renewed while the chapter runs, since a long
+ * chapter with retries can take longer than LEASE_TIMEOUT_MINUTES and would otherwise be claimed twice.
+ */
+export async function processChapter(
+  job: TranslationJob,
+  position: number,
+  url: string,
+  workerId: string,
+  client: JobClient
+): Promise<'completed' | 'failed' | 'over-budget'> {
+  const lease = setInterval(() => {
+    translationJobDB.heartbeat(job.id, workerId)
+      .catch(error => console.error(`Could not renew the lease of job ${job.id}:`, error));
+  }, LEASE_RENEW_INTERVAL);
+  lease.unref?.();
+
+  try {
+    return await attemptChapter(job, position, url, workerId, client);
+  } finally {
+    clearInterval(lease);
+  }
+}
+
+async function attemptChapter(
+  job: TranslationJob,
+  position: number,
+  url: string,
+  workerId: string,
+  client: JobClient
+): Promise<'completed' | 'failed' | 'over-budget'> {
+  await translationJobDB.startChapter(job.id, position, url);
+
+  for (let attempt = 1; attempt <= MAX_CHAPTER_ATTEMPTS; attempt++) {
+    try {
+      const content = await scrapeChapter(url);
+      const usage = createUsageTracker({ ...client, novelKey: extractNovelKey(url), sourceUrl: url });
+      const budget = await checkBudget(client.clientKey);
+
+      let result;
+      try {
+        result = await translateChapter({
+          text: content,
+          sourceUrl: url,
+          chapterNumber: chapterNumberFor(url, position),
+          targetLanguage: job.targetLanguage
+        }, { usage, budget });
+      } finally {
+        await usage.flush();
+      }
+
+      if (result.status === 'over-budget') {
+        await translationJobDB.recordAttempt(job.id, position, `${result.budget.period} budget exhausted`);
+        await translationJobDB.finishChapter(job.id, position, { status: 'failed' });
+        return 'over-budget';
+      }
+      if (result.status === 'unconfigured') throw new Error('Translation service is not configured');
+      if (result.status === 'invalid-output') throw new Error('Translation output validation failed');
+      if (result.status === 'translated' && result.injection) {
+        logSecurityEvent('TRANSLATE_PROMPT_INJECTION', { url, reason: `Job ${job.id}: ${describeInjection(result.injection)}` });
+      }
+
+      await translationJobDB.recordAttempt(job.id, position, null);
+      await translationJobDB.finishChapter(job.id, position, {
+        status: 'completed',
+        result: result.status,
+        model: result.status === 'passthrough' ? 'passthrough' : result.model,
+        confidence: result.status === 'passthrough' ? result.sourceLanguage.confidence : result.confidence.score
+      });
+      return 'completed';
+    } catch (error: any) {
+      console.error(`Job ${job.id} chapter ${position} attempt ${attempt} failed:`, error.message);
+      await translationJobDB.recordAttempt(job.id, position, error.message || 'Unknown error');
+      await translationJobDB.heartbeat(job.id, workerId);
+      // The same chapter would be rejected again
+      if (error instanceof TranslationFailedError && error.errorClass === 'invalid') break;
+      if (attempt < MAX_CHAPTER_ATTEMPTS) await sleep(RETRY_DELAY * 2 ** (attempt - 1));
+    }
+  }
+
+  await translationJobDB.finishChapter(job.id, position, { status: 'failed' });
+  return 'failed';
+}
+
+async function predictNextUrl(url: string): Promise<string | null> {
+  const prediction = await navigationEngine.predictNavigation(url);
+  if (!prediction.nextUrl) return null;
+
+  // Predicted and scraped links go through the same SSRF checks as user input
+  const validation = validateAndSanitizeUrl(prediction.nextUrl);
+  return validation.isValid ? validation.sanitizedUrl! : null;
+}
+
+/**
+ * Walk a job's chapters from where it stopped
+ */
+async function processJob(job: TranslationJob, workerId: string): Promise<void> {
+  const chapters = job.chapters || [];
+  const last = chapters[chapters.length - 1];
+
+  let position = 0;
+  let url: string | null = job.startUrl;
+
+  // Resume: redo an interrupted chapter, or continue after the last finished one
+  if (last) {
+    if (last.status === 'running') {
+      position = last.position;
+      url = last.url;
+    } else {
+      position = last.position + 1;
+      url = last.nextUrl || await predictNextUrl(last.url);
+    }
+  }
+
+  let succeeded = chapters.filter(chapter => chapter.status === 'completed').length;
+  const client = await translationJobDB.getClient(job.id);
+
+  while (position < job.chapterCount && url) {
+    if (!await translationJobDB.heartbeat(job.id, workerId)) return; // Cancelled or reclaimed
+
+    const outcome = await processChapter(job, position, url, workerId, client);
+    if (outcome === 'over-budget') {
+      await translationJobDB.finish(job.id, workerId, succeeded > 0 ? 'completed' : 'failed', 'Budget exceeded');
+      return;
+    }
+    if (outcome === 'completed') succeeded++;
+
+    if (position + 1 >= job.chapterCount) break;
+
+    const nextUrl = await predictNextUrl(url).catch(() => null);
+    await translationJobDB.setNextUrl(job.id, position, nextUrl);
+    if (!nextUrl) {
+      await translationJobDB.finish(job.id, workerId, succeeded > 0 ? 'completed' : 'failed',
+        `No next chapter found after ${url}`);
+      return;
+    }
+
+    url = nextUrl;
+    position++;
+  }
+
+  if (!url) {
+    await translationJobDB.finish(job.id, workerId, succeeded > 0 ? 'completed' : 'failed', 'No next chapter found');
+  } else if (succeeded === 0) {
+    await translationJobDB.finish(job.id, workerId, 'failed', 'Every chapter failed');
+  } else {
+    await translationJobDB.finish(job.id, workerId, 'completed');
+  }
+}
+
+/**
+ * Polls Postgres for jobs and runs up to JOB_WORKER_CONCURRENCY of them in this process
+ */
+export class JobWorker {
+  private readonly workerId = `${process.pid}-${crypto.randomBytes(4).toString('hex')}`;
+  private running = 0;
+  private started = false;
+  private polling = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  private get concurrency(): number {
+    return parseInt(process.env.JOB_WORKER_CONCURRENCY || '1', 10) || 1;
+  }
+
+  /**
+   * Start polling; safe to call on every request
+   */
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+    this.poll();
+  }
+
+  /**
+   * Look for work now instead of at the next poll, e.g. right after a job is submitted
+   */
+  wake(): void {
+    if (!this.started) this.start();
+    else this.poll();
+  }
+
+  private schedule(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.poll(), POLL_INTERVAL);
+    // Never keep the process alive just to poll
+    this.timer.unref?.();
+  }
+
+  private async poll(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      while (this.running < this.concurrency) {
+        const job = await translationJobDB.claimNext(this.workerId);
+        if (!job) break;
+        this.run(job);
+      }
+    } catch (error) {
+      console.error('Job poll failed:', error);
+    } finally {
+      this.polling = false;
+    }
+    this.schedule();
+  }
+
+  private async run(job: TranslationJob): Promise<void> {
+    this.running++;
+    logSecurityEvent('JOB_STARTED', { reason: `Job ${job.id}: ${job.chapterCount} chapters from ${job.startUrl}` });
+
+    try {
+      await processJob(job, this.workerId);
+    } catch (error: any) {
+      console.error(`Job ${job.id} failed:`, error);
+      await translationJobDB.finish(job.id, this.workerId, 'failed', error.message || 'Unexpected error')
+        .catch(finishError => console.error(`Could not mark job ${job.id} as failed:`, finishError));
+    } finally {
+      this.running--;
+      this.poll();
+    }
+  }
+}
+
+export const jobWorker = new JobWorker();
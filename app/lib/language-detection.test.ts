@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { countScripts, detectLanguage, getSourceLanguageName, stripMarkdownForDetection } from './language-detection';
+
+describe('stripMarkdownForDetection', () => {
+  it('keeps link text and drops syntax, images, code and URLs', () => {
+    const markdown = '# Title\n\n**Bold** [link text](https://example.com) ![img](a.png)\n```\ncode\n```\nsee https://example.com/x';
+    expect(stripMarkdownForDetection(markdown)).toBe('Title Bold link text see');
+  });
+});
+
+describe('countScripts', () => {
+  it('counts letters per script and ignores digits and punctuation', () => {
+    expect(countScripts('abc 漢字 かな 123!')).toEqual({ counts: { latin: 3, han: 2, kana: 2 }, total: 7 });
+  });
+});
+
+describe('detectLanguage', () => {
+  it('reports unknown for too little text', () => {
+    expect(detectLanguage('Hi there')).toEqual({ language: 'unknown', script: 'unknown', confidence: 0 });
+  });
+
+  it('tells Chinese from Japanese by the share of kana', () => {
+    expect(detectLanguage('他看着远处的山峰，心中涌起一股说不出的感觉。师父曾经说过，修炼之路漫长而孤独。').language).toBe('zh');
+    expect(detectLanguage('彼は遠くの山を見つめながら、心の中で何かが動くのを感じた。師匠はかつて言った。').language).toBe('ja');
+  });
+
+  it('decides non-Latin scripts outright', () => {
+    expect(detectLanguage('그는 먼 산을 바라보며 마음속에서 무언가가 움직이는 것을 느꼈다.')).toMatchObject({ language: 'ko', script: 'hangul' });
+    expect(detectLanguage('Он смотрел на далёкие горы и чувствовал, как что-то шевелится в душе.')).toMatchObject({ language: 'ru', script: 'cyrillic' });
+  });
+
+  it('tells Latin-script languages apart by stop words', () => {
+    expect(detectLanguage('He looked at the distant mountains and felt that something was stirring in his heart.').language).toBe('en');
+    expect(detectLanguage('Él miró las montañas lejanas y sintió que algo se movía en su corazón, como una llama que no se apaga.').language).toBe('es');
+    expect(detectLanguage('Er sah die fernen Berge an und spürte, dass sich etwas in seinem Herzen regte, und er ging nicht mit ihr.').language).toBe('de');
+  });
+
+  it('gives a confidence between 0 and 1', () => {
+    const { confidence } = detectLanguage('He looked at the distant mountains and felt that something was stirring in his heart.');
+    expect(confidence).toBeGreaterThan(0);
+    expect(confidence).toBeLessThanOrEqual(1);
+  });
+});
+
+describe('getSourceLanguageName', () => {
+  it('names known codes and falls back for the rest', () => {
+    expect(getSourceLanguageName('ko')).toBe('Korean');
+    expect(getSourceLanguageName('xx')).toBe('an unknown language');
+  });
+});
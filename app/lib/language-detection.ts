@@ -0,0 +1,166 @@
+// Local source-language detection
+// Scripts decide non-Latin languages outright; Latin-script languages are told apart by stop words and character trigrams
+
+export interface DetectedLanguage {
+  language: string; // ISO 639-1 code, or 'unknown'
+  script: string; // Dominant script of the text
+  confidence: number; // 0-1
+}
+
+export const SOURCE_LANGUAGE_NAMES: Record<string, string> = {
+  zh: 'Chinese',
+  ja: 'Japanese',
+  ko: 'Korean',
+  ru: 'Russian',
+  th: 'Thai',
+  vi: 'Vietnamese',
+  ar: 'Arabic',
+  en: 'English',
+  es: 'Spanish',
+  de: 'German',
+  id: 'Indonesian',
+  fr: 'French',
+  pt: 'Portuguese',
+};
+
+// Unicode ranges per script, checked character by character
+const SCRIPTS: Array<{ script: string; regex: RegExp }> = [
+  { script: 'han', regex: /[\u4E00-\u9FFF\u3400-\u4DBF\uF900-\uFAFF]/ },
+  { script: 'kana', regex: /[\u3040-\u30FF\u31F0-\u31FF]/ },
+  { script: 'hangul', regex: /[\uAC00-\uD7AF\u1100-\u11FF\u3130-\u318F]/ },
+  { script: 'cyrillic', regex: /[\u0400-\u04FF]/ },
+  { script: 'thai', regex: /[\u0E00-\u0E7F]/ },
+  { script: 'arabic', regex: /[\u0600-\u06FF]/ },
+  { script: 'latin', regex: /[A-Za-z\u00C0-\u024F\u1E00-\u1EFF]/ },
+];
+
+// Stop words and frequent character trigrams for Latin-script languages
+const LATIN_PROFILES: Record<string, { stopWords: Set<string>; trigrams: string[] }> = {
+  en: {
+    stopWords: new Set(['the', 'and', 'is', 'in', 'to', 'of', 'it', 'that', 'was', 'for', 'with', 'he', 'she', 'they', 'his', 'her', 'you']),
+    trigrams: [' th', 'the', 'he ', 'and', 'nd ', ' an', 'ing', 'ng ', ' to', 'ed ', 'er ', ' he', 'hat', 'was'],
+  },
+  es: {
+    stopWords: new Set(['el', 'la', 'de', 'que', 'y', 'en', 'los', 'las', 'se', 'del', 'un', 'una', 'por', 'con', 'no', 'su', 'lo']),
+    trigrams: [' de', 'de ', ' la', 'la ', 'os ', ' el', 'el ', 'que', 'ue ', ' qu', 'es ', 'as ', 'ión', ' co'],
+  },
+  de: {
+    stopWords: new Set(['der', 'die', 'das', 'und', 'ist', 'nicht', 'ein', 'eine', 'zu', 'den', 'mit', 'sich', 'er', 'sie', 'es', 'war', 'ich']),
+    trigrams: ['en ', 'er ', ' de', 'der', 'die', 'ie ', 'ch ', 'sch', 'ich', 'und', ' un', 'nd ', 'ein', 'cht'],
+  },
+  id: {
+    stopWords: new Set(['yang', 'dan', 'di', 'itu', 'dengan', 'untuk', 'tidak', 'ini', 'dari', 'dia', 'akan', 'ke', 'ada', 'aku', 'kamu']),
+    trigrams: ['an ', 'ang', 'ng ', ' me', 'kan', 'yan', ' ya', 'nya', ' di', 'ya ', 'ada', ' da', 'dan', 'aka'],
+  },
+  fr: {
+    stopWords: new Set(['le', 'la', 'les', 'de', 'des', 'et', 'est', 'un', 'une', 'il', 'elle', 'que', 'qui', 'dans', 'pas', 'je']),
+    trigrams: [' de', 'es ', 'de ', 'le ', ' le', 'ent', 'nt ', ' la', 'la ', 'les', ' qu', 'que', 'ait', 'ais'],
+  },
+  pt: {
+    stopWords: new Set(['o', 'a', 'os', 'as', 'de', 'que', 'e', 'do', 'da', 'em', 'um', 'uma', 'não', 'com', 'ele', 'ela']),
+    trigrams: [' de', 'de ', 'os ', ' qu', 'que', 'ue ', 'do ', ' do', 'da ', ' co', 'ão ', 'ção', 'nte', 'as '],
+  },
+  vi: {
+    stopWords: new Set(['và', 'của', 'là', 'có', 'không', 'một', 'những', 'được', 'người', 'cho', 'này', 'đã', 'với', 'anh', 'hắn']),
+    trigrams: [' kh', 'hôn', 'ng ', 'nh ', ' ng', 'ngư', 'ười', 'ời ', ' th', 'của', 'ủa ', ' đư', 'ược', 'và '],
+  },
+};
+
+// Remove Markdown syntax, links and URLs so only prose is measured
+export function stripMarkdownForDetection(markdown: string): string {
+  return markdown
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, ' ')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/https?:\/\/\S+/g, ' ')
+    .replace(/[#>*_`~|\-]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Count characters per script, ignoring digits, punctuation and whitespace
+ */
+export function countScripts(text: string): { counts: Record<string, number>; total: number } {
+  const counts: Record<string, number> = {};
+  let total = 0;
+
+  for (const char of text) {
+    for (const { script, regex } of SCRIPTS) {
+      if (regex.test(char)) {
+        counts[script] = (counts[script] || 0) + 1;
+        total++;
+        break;
+      }
+    }
+  }
+
+  return { counts, total };
+}
+
+function scoreLatinLanguages(text: string): Array<{ language: string; score: number }> {
+  const lower = ` ${text.toLowerCase()} `;
+  const words = lower.split(/[\s\.,;!?()"'¡¿«»„“”:]+/).filter(w => w.length > 0);
+  if (words.length === 0) return [];
+
+  return Object.entries(LATIN_PROFILES).map(([language, profile]) => {
+    const stopWordRatio = words.reduce((count, word) => count + (profile.stopWords.has(word) ? 1 : 0), 0) / words.length;
+
+    let trigramHits = 0;
+    for (const trigram of profile.trigrams) {
+      trigramHits += lower.split(trigram).length - 1;
+    }
+    const trigramRatio = trigramHits / Math.max(1, lower.length);
+
+    // Stop words are the stronger signal; trigrams break ties between related languages
+    return { language, score: stopWordRatio * 2 + trigramRatio * 5 };
+  }).sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Detect the dominant language of a chapter without calling any remote service
+ */
+export function detectLanguage(markdown: string): DetectedLanguage {
+  const text = stripMarkdownForDetection(markdown).slice(0, 20000);
+  const { counts, total } = countScripts(text);
+
+  if (total < 20) {
+    return { language: 'unknown', script: 'unknown', confidence: 0 };
+  }
+
+  const [script, count] = Object.entries(counts).sort((a, b) => b[1] - a[1])[0];
+  const scriptShare = count / total;
+
+  switch (script) {
+    case 'han':
+    case 'kana': {
+      // Japanese mixes kana with kanji; a meaningful share of kana means Japanese
+      const kanaShare = (counts.kana || 0) / ((counts.han || 0) + (counts.kana || 0));
+      const language = kanaShare > 0.1 ? 'ja' : 'zh';
+      return { language, script, confidence: Math.min(1, ((counts.han || 0) + (counts.kana || 0)) / total) };
+    }
+    case 'hangul':
+      return { language: 'ko', script, confidence: scriptShare };
+    case 'cyrillic':
+      return { language: 'ru', script, confidence: scriptShare };
+    case 'thai':
+      return { language: 'th', script, confidence: scriptShare };
+    case 'arabic':
+      return { language: 'ar', script, confidence: scriptShare };
+  }
+
+  const scores = scoreLatinLanguages(text);
+  if (scores.length === 0 || scores[0].score === 0) {
+    return { language: 'unknown', script, confidence: 0 };
+  }
+
+  // Confidence reflects both the margin over the runner-up and how Latin the text is
+  const margin = scores.length > 1 ? (scores[0].score - scores[1].score) / scores[0].score : 1;
+  const confidence = Math.min(1, scriptShare * (0.5 + margin));
+
+  return { language: scores[0].language, script, confidence: Math.round(confidence * 100) / 100 };
+}
+
+export function getSourceLanguageName(code: string): string {
+  return SOURCE_LANGUAGE_NAMES[code] || 'an unknown language';
+}
@@ -0,0 +1,20 @@
+// Target languages supported for translation output
+
+export const SUPPORTED_TARGET_LANGUAGES = {
+  en: 'English',
+  es: 'Spanish',
+  de: 'German',
+  id: 'Indonesian',
+} as const;
+
+export type TargetLanguage = keyof typeof SUPPORTED_TARGET_LANGUAGES;
+
+export const DEFAULT_TARGET_LANGUAGE: TargetLanguage = 'en';
+
+export function isSupportedTargetLanguage(code: unknown): code is TargetLanguage {
+  return typeof code === 'string' && Object.prototype.hasOwnProperty.call(SUPPORTED_TARGET_LANGUAGES, code);
+}
+
+export function getLanguageName(code: TargetLanguage): string {
+  return SUPPORTED_TARGET_LANGUAGES[code];
+}
@@ -0,0 +1,214 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  client: { query: vi.fn(), release: vi.fn() },
+  cache: {
+    set: vi.fn(),
+    replaceVersionText: vi.fn(),
+    pinVersion: vi.fn()
+  }
+}));
+
+vi.mock('./db', () => ({
+  default: {
+    query: vi.fn(async () => ({ rows: [] })),
+    connect: vi.fn(async () => mocks.client)
+  }
+}));
+vi.mock('./translation-cache', () => ({ translationCache: mocks.cache }));
+
+import {
+  approveComparison,
+  buildComposite,
+  countDistinctVoters,
+  getPinThreshold,
+  leadingCandidates,
+  selectWinners,
+  tallyVotes,
+  voteForParagraph,
+  type ComparisonCandidate,
+  type ComparisonVote
+} from './model-comparison';
+
+const candidate = (provider: string, paragraphs: Array<string | null>): ComparisonCandidate => ({
+  provider, model: provider, confidence: 0.8, title: '', paragraphs, error: null
+});
+
+const vote = (voterKey: string, paragraphIndex: number, candidate: number): ComparisonVote => ({ voterKey, paragraphIndex, candidate });
+
+describe('tallyVotes', () => {
+  it('counts the votes per candidate for each voted paragraph', () => {
+    const votes = [vote('ip:a', 0, 1), vote('ip:b', 0, 1), vote('ip:c', 0, 0), vote('ip:a', 2, 0)];
+    expect(tallyVotes(votes, 3, 2)).toEqual({ 0: [1, 2], 2: [1, 0] });
+  });
+
+  it('ignores votes for paragraphs or candidates that no longer exist', () => {
+    expect(tallyVotes([vote('ip:a', 5, 0), vote('ip:a', 0, 3)], 2, 2)).toEqual({});
+  });
+});
+
+describe('leadingCandidates', () => {
+  it('picks the candidate with the most votes, the earlier one on a tie', () => {
+    expect(leadingCandidates({ 0: [1, 2], 1: [2, 2, 0], 3: [0, 0, 1] })).toEqual({ 0: 1, 1: 0, 3: 2 });
+  });
+});
+
+describe('selectWinners', () => {
+  const candidates = [
+    candidate('a', ['A0', 'A1', null]),
+    candidate('b', ['B0', null, 'B2'])
+  ];
+
+  it('uses the picked candidate, or the first one that has the paragraph', () => {
+    expect(selectWinners(candidates, 3, { 0: 1 })).toEqual([1, 0, 1]);
+  });
+
+  it('falls back when the picked candidate has no rendering of the paragraph', () => {
+    expect(selectWinners(candidates, 3, { 1: 1, 2: 0 })).toEqual([0, 0, 1]);
+  });
+
+  it('is null where no candidate has the paragraph', () => {
+    expect(selectWinners([candidate('a', [null])], 1, {})).toEqual([null]);
+  });
+});
+
+describe('buildComposite', () => {
+  it('joins the winning paragraphs and credits the candidate that won the most', () => {
+    const candidates = [candidate('a', ['A0', 'A1', 'A2']), candidate('b', ['B0', 'B1', 'B2'])];
+    expect(buildComposite(candidates, [1, 0, 1])).toEqual({
+      paragraphs: [{ index: 0, text: 'B0' }, { index: 1, text: 'A1' }, { index: 2, text: 'B2' }],
+      translatedText: 'B0\n\nA1\n\nB2',
+      top: 1
+    });
+  });
+
+  it('credits the earlier candidate on a tie and skips paragraphs nobody has', () => {
+    const candidates = [candidate('a', ['A0', 'A1', null]), candidate('b', ['B0', 'B1', null])];
+    expect(buildComposite(candidates, [1, 0, null])).toEqual({
+      paragraphs: [{ index: 0, text: 'B0' }, { index: 1, text: 'A1' }],
+      translatedText: 'B0\n\nA1',
+      top: 0
+    });
+  });
+
+  it('has no top candidate without paragraphs', () => {
+    expect(buildComposite([], [null])).toEqual({ paragraphs: [], translatedText: '', top: null });
+  });
+});
+
+describe('getPinThreshold', () => {
+  const original = process.env.COMPARE_PIN_VOTERS;
+  afterEach(() => {
+    if (original === undefined) delete process.env.COMPARE_PIN_VOTERS;
+    else process.env.COMPARE_PIN_VOTERS = original;
+  });
+
+  it('reads COMPARE_PIN_VOTERS and defaults to 3', () => {
+    delete process.env.COMPARE_PIN_VOTERS;
+    expect(getPinThreshold()).toBe(3);
+    process.env.COMPARE_PIN_VOTERS = '5';
+    expect(getPinThreshold()).toBe(5);
+    process.env.COMPARE_PIN_VOTERS = '0';
+    expect(getPinThreshold()).toBe(3);
+  });
+});
+
+describe('countDistinctVoters', () => {
+  it('counts readers with an issued key each, and readers known by IP once per network', () => {
+    expect(countDistinctVoters([
+      vote('key:a', 0, 0), vote('key:b', 0, 0), vote('key:a', 1, 0),
+      vote('ip:203.0.113.4', 0, 1), vote('ip:203.0.113.250', 0, 1), vote('ip:::ffff:203.0.113.9', 0, 1),
+      vote('ip:198.51.100.4', 0, 1),
+      vote('ip:2001:db8:0:1::1', 0, 1), vote('ip:2001:db8:0:1:ffff::2', 0, 1), vote('ip:2001:db8:0:2::1', 0, 1)
+    ])).toBe(6);
+  });
+});
+
+describe('voting and approval', () => {
+  const row = {
+    id: 1,
+    source_url: 'https://novels.example.com/book/12',
+    chapter_number: '12',
+    target_language: 'en',
+    source_paragraphs: ['林凡笑了。', '师父点头。'],
+    candidates: [candidate('a', ['Lin Fan smiled.', 'The master nodded.']), candidate('b', ['Lin Fan grinned.', 'Master nodded.'])],
+    created_at: new Date(0),
+    original_text: '林凡笑了。\n\n师父点头。',
+    style_preset: 'default'
+  };
+  let votes: Array<{ voter_key: string; paragraph_index: number; candidate: number }>;
+  let preferredVersionId: number | null;
+  const statements = () => mocks.client.query.mock.calls.map(([sql]) => String(sql).trim().split(/\s+/).slice(0, 2).join(' '));
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    delete process.env.COMPARE_PIN_VOTERS;
+    votes = [];
+    preferredVersionId = null;
+    mocks.client.query.mockImplementation(async (sql: string, params: any[] = []) => {
+      if (sql.includes('FOR UPDATE')) return { rows: [{ ...row, preferred_version_id: preferredVersionId }] };
+      if (sql.includes('INSERT INTO model_comparison_votes')) {
+        votes = votes.filter(v => v.voter_key !== params[1] || v.paragraph_index !== params[2]);
+        votes.push({ voter_key: params[1], paragraph_index: params[2], candidate: params[3] });
+      }
+      if (sql.includes('SELECT voter_key')) return { rows: votes };
+      return { rows: [], rowCount: 1 };
+    });
+    mocks.cache.set.mockResolvedValue(77);
+    mocks.cache.pinVersion.mockResolvedValue(true);
+  });
+
+  it('pins the leading paragraphs once enough distinct readers have voted, inside the vote transaction', async () => {
+    const first = await voteForParagraph(1, vote('ip:203.0.113.4', 0, 1));
+    const same = await voteForParagraph(1, vote('ip:203.0.113.5', 1, 1));
+    expect(first!.pinned).toBe(false);
+    expect(same!.pinned).toBe(false);
+    expect(same!.comparison.voters).toBe(1);
+    expect(mocks.cache.set).not.toHaveBeenCalled();
+
+    await voteForParagraph(1, vote('ip:198.51.100.4', 0, 1));
+    const third = await voteForParagraph(1, vote('key:reader', 1, 0));
+
+    expect(third).toMatchObject({ pinned: true, comparison: { voters: 3, preferredVersionId: 77 } });
+    expect(mocks.cache.set).toHaveBeenCalledTimes(1);
+    expect(mocks.cache.set).toHaveBeenCalledWith(
+      row.source_url, '12', row.original_text, 'Lin Fan grinned.\n\nThe master nodded.', 'a', 'en', 'default',
+      expect.objectContaining({ structured: expect.any(Object) }), mocks.client
+    );
+    expect(mocks.cache.pinVersion).toHaveBeenCalledWith(row.source_url, '12', 77, mocks.client);
+    expect(statements().at(-1)).toBe('COMMIT');
+  });
+
+  it('lets an admin pin the votes so far, whatever their number', async () => {
+    votes = [{ voter_key: 'ip:203.0.113.4', paragraph_index: 1, candidate: 1 }];
+
+    const comparison = await approveComparison(1);
+
+    expect(comparison).toMatchObject({ voters: 1, preferredVersionId: 77 });
+    expect(mocks.cache.set).toHaveBeenCalledWith(
+      row.source_url, '12', row.original_text, 'Lin Fan smiled.\n\nMaster nodded.', 'a', 'en', 'default',
+      expect.any(Object), mocks.client
+    );
+    expect(mocks.cache.pinVersion).toHaveBeenCalledWith(row.source_url, '12', 77, mocks.client);
+  });
+
+  it('updates the preferred version built before instead of adding another', async () => {
+    preferredVersionId = 70;
+    mocks.cache.replaceVersionText.mockResolvedValue(true);
+
+    expect(await approveComparison(1)).toMatchObject({ preferredVersionId: 70 });
+    expect(mocks.cache.replaceVersionText).toHaveBeenCalledWith(70, expect.any(String), 'a', expect.any(Object), mocks.client);
+    expect(mocks.cache.set).not.toHaveBeenCalled();
+    expect(mocks.cache.pinVersion).toHaveBeenCalledWith(row.source_url, '12', 70, mocks.client);
+  });
+
+  it('rolls the vote back when the version cannot be stored', async () => {
+    process.env.COMPARE_PIN_VOTERS = '1';
+    mocks.cache.set.mockResolvedValue(null);
+
+    await expect(voteForParagraph(1, vote('key:reader', 0, 0))).rejects.toThrow('Failed to cache the preferred version');
+    expect(statements().at(-1)).toBe('ROLLBACK');
+    expect(mocks.cache.pinVersion).not.toHaveBeenCalled();
+    expect(mocks.client.release).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,495 @@
+import pool from './db';
+import type { PoolClient } from 'pg';
+import crypto from 'crypto';
+import type { TargetLanguage } from './languages';
+import { chunkMarkdown, splitMarkdownBlocks, DEFAULT_CHUNK_SIZE } from './chunker';
+import { translateChapter, type ChapterTranslationInput, type ChapterTranslationOptions } from './translation-pipeline';
+import { providerRegistry, DEFAULT_PROVIDER_CHAIN } from './providers/registry';
+import type { TranslationProvider } from './providers/base';
+import type { BudgetDecision } from './usage';
+import type { DetectedLanguage } from './language-detection';
+import { translationCache } from './translation-cache';
+import { computeConfidence } from './confidence';
+import { resolveStylePreset, getStyleIdentity } from './style-presets';
+import { extractNovelKey } from './url-prediction';
+
+// Compare mode: the same chapter translated by several providers, in structured mode so every output
+// paragraph is keyed to its source paragraph. Each reader votes for the best rendering of paragraphs; their
+// own picks make up their copy of the chapter. The votes of all readers are tallied, and once enough distinct
+// readers have voted (COMPARE_PIN_VOTERS, default 3) or an admin approves, the leading paragraphs make up a
+// preferred version in the translation cache, which is pinned so it is served for the chapter from then on.
+
+export interface ComparisonCandidate {
+  provider: string; // Provider id as requested, e.g. 'gemini:gemini-2.5-pro'
+  model: string | null; // Model that produced the output; null when the provider failed
+  confidence: number | null;
+  title: string;
+  paragraphs: Array<string | null>; // Aligned with the source paragraphs; null where the output has none
+  error: string | null;
+}
+
+export interface ModelComparison {
+  id: number;
+  sourceUrl: string;
+  chapterNumber: string;
+  targetLanguage: TargetLanguage;
+  sourceParagraphs: string[];
+  candidates: ComparisonCandidate[];
+  votes: Record<number, number[]>; // Paragraph index -> votes for each candidate
+  voters: number; // Distinct readers who voted, as counted toward the pin threshold
+  myVotes: Record<number, number>; // Paragraph index -> candidate the requesting reader voted for
+  preferredVersionId: number | null; // Cached version built from the votes, once pinned
+  timestamp: number;
+}
+
+// As stored, with what the preferred version is built from
+export interface StoredComparison extends Omit<ModelComparison, 'votes' | 'voters' | 'myVotes'> {
+  originalText: string;
+  styleIdentity: string; // See getStyleIdentity
+}
+
+export interface ComparisonVote {
+  voterKey: string; // See getClientKey
+  paragraphIndex: number;
+  candidate: number;
+}
+
+export interface VoteResult {
+  comparison: ModelComparison;
+  translatedText: string; // The reader's own picks, else the leading paragraphs
+  pinned: boolean; // Whether the preferred version was built and pinned by this vote
+}
+
+export type ComparisonResult =
+  | { status: 'compared'; comparison: ModelComparison }
+  | { status: 'passthrough'; translatedText: string; sourceLanguage: DetectedLanguage }
+  | { status: 'over-budget'; budget: BudgetDecision };
+
+/**
+ * The providers compared when the request doesn't name any: COMPARE_PROVIDERS (comma-separated ids) or the
+ * default provider chain
+ */
+export function getDefaultCompareProviders(): string[] {
+  const configured = process.env.COMPARE_PROVIDERS;
+  return configured
+    ? configured.split(',').map(id => id.trim()).filter(id => id.length > 0)
+    : DEFAULT_PROVIDER_CHAIN;
+}
+
+/**
+ * Look up the providers to compare; errors name the unknown and unconfigured ones
+ */
+export function resolveCompareProviders(ids: string[]): { providers: TranslationProvider[]; errors: string[] } {
+  const providers: TranslationProvider[] = [];
+  const errors: string[] = [];
+  for (const id of ids) {
+    const provider = providerRegistry.get(id);
+    if (!provider) {
+      errors.push(`Unknown provider: ${id}`);
+    } else if (!provider.isConfigured()) {
+      errors.push(`Provider is not configured: ${id}`);
+    } else {
+      providers.push(provider);
+    }
+  }
+  return { providers, errors };
+}
+
+/**
+ * Source paragraphs in the order structured mode numbers them
+ */
+function splitSourceParagraphs(text: string): string[] {
+  return chunkMarkdown(text, DEFAULT_CHUNK_SIZE).flatMap(chunk => splitMarkdownBlocks(chunk.text));
+}
+
+/**
+ * Votes per candidate for every paragraph
+ */
+export function tallyVotes(votes: ComparisonVote[], paragraphCount: number, candidateCount: number): Record<number, number[]> {
+  const tallies: Record<number, number[]> = {};
+  for (const vote of votes) {
+    if (vote.paragraphIndex >= paragraphCount || vote.candidate >= candidateCount) continue;
+    tallies[vote.paragraphIndex] ??= new Array(candidateCount).fill(0);
+    tallies[vote.paragraphIndex][vote.candidate]++;
+  }
+  return tallies;
+}
+
+/**
+ * The candidate with the most votes for each voted paragraph; ties go to the earlier candidate
+ */
+export function leadingCandidates(tallies: Record<number, number[]>): Record<number, number> {
+  const leading: Record<number, number> = {};
+  for (const [paragraph, counts] of Object.entries(tallies)) {
+    leading[Number(paragraph)] = counts.indexOf(Math.max(...counts));
+  }
+  return leading;
+}
+
+/**
+ * The candidate whose rendering is used for each paragraph: the one picked, if it has the paragraph, or
+ * else the first candidate that has it; null where none has
+ */
+export function selectWinners(
+  candidates: ComparisonCandidate[],
+  paragraphCount: number,
+  picks: Record<number, number>
+): Array<number | null> {
+  return Array.from({ length: paragraphCount }, (_, index) => {
+    const picked = picks[index];
+    if (picked !== undefined && candidates[picked]?.paragraphs[index] != null) return picked;
+    const fallback = candidates.findIndex(entry => entry.paragraphs[index] != null);
+    return fallback >= 0 ? fallback : null;
+  });
+}
+
+/**
+ * The chapter made of the winning paragraphs, credited to the candidate that won the most of them
+ */
+export function buildComposite(candidates: ComparisonCandidate[], winners: Array<number | null>) {
+  const paragraphs = winners
+    .map((winner, index) => winner === null ? null : { index, text: candidates[winner].paragraphs[index]! })
+    .filter((paragraph): paragraph is { index: number; text: string } => paragraph !== null);
+
+  const wins = new Map<number, number>();
+  for (const winner of winners) {
+    if (winner !== null) wins.set(winner, (wins.get(winner) || 0) + 1);
+  }
+  const top = Array.from(wins.entries()).sort((a, b) => b[1] - a[1] || a[0] - b[0])[0]?.[0] ?? null;
+
+  return { paragraphs, translatedText: paragraphs.map(paragraph => paragraph.text).join('\n\n'), top };
+}
+
+/**
+ * Distinct readers whose votes pin the preferred version (COMPARE_PIN_VOTERS)
+ */
+export function getPinThreshold(): number {
+  const threshold = parseInt(process.env.COMPARE_PIN_VOTERS || '', 10);
+  return Number.isInteger(threshold) && threshold > 0 ? threshold : 3;
+}
+
+/**
+ * The number of distinct readers among the voters toward the pin threshold. Readers known by IP are counted
+ * per network (/24 for IPv4, /64 for IPv6), so one host cycling through its addresses counts once.
+ */
+export function countDistinctVoters(votes: ComparisonVote[]): number {
+  return new Set(votes.map(vote => voterIdentity(vote.voterKey))).size;
+}
+
+function voterIdentity(voterKey: string): string {
+  if (!voterKey.startsWith('ip:')) return voterKey;
+
+  const ip = voterKey.slice(3);
+  const ipv4 = ip.match(/^(?:::ffff:)?(\d+\.\d+\.\d+)\.\d+$/i);
+  if (ipv4) return `ip:${ipv4[1]}.0/24`;
+  if (ip.includes(':')) return `ip:${expandIPv6(ip).slice(0, 4).join(':')}::/64`;
+  return voterKey;
+}
+
+function expandIPv6(ip: string): string[] {
+  const [head, tail] = ip.toLowerCase().split('::');
+  const left = head ? head.split(':') : [];
+  const right = tail ? tail.split(':') : [];
+  const fill = tail === undefined ? [] : Array(Math.max(0, 8 - left.length - right.length)).fill('0');
+  return [...left, ...fill, ...right].map(group => group.replace(/^0+(?=.)/, ''));
+}
+
+let initialized = false;
+
+export class ModelComparisonDB {
+
+  private async ensureTable() {
+    if (initialized) return;
+
+    const query = `
+      CREATE TABLE IF NOT EXISTS model_comparisons (
+        id SERIAL PRIMARY KEY,
+        source_url_hash VARCHAR(64) NOT NULL,
+        source_url TEXT NOT NULL,
+        chapter_number VARCHAR(50) NOT NULL,
+        target_language VARCHAR(10) NOT NULL,
+        style_preset VARCHAR(64) NOT NULL,
+        original_text TEXT NOT NULL,
+        source_paragraphs JSONB NOT NULL,
+        candidates JSONB NOT NULL,
+        preferred_version_id INTEGER,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE INDEX IF NOT EXISTS idx_model_comparisons_chapter ON model_comparisons(source_url_hash, chapter_number);
+
+      CREATE TABLE IF NOT EXISTS model_comparison_votes (
+        comparison_id INTEGER NOT NULL REFERENCES model_comparisons(id) ON DELETE CASCADE,
+        voter_key TEXT NOT NULL,
+        paragraph_index INTEGER NOT NULL,
+        candidate INTEGER NOT NULL,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (comparison_id, voter_key, paragraph_index)
+      );
+    `;
+
+    try {
+      await pool.query(query);
+      initialized = true;
+    } catch (error) {
+      console.error('Failed to initialize model_comparisons table:', error);
+    }
+  }
+
+  private hash(text: string): string {
+    return crypto.createHash('sha256').update(text).digest('hex');
+  }
+
+  async add(
+    chapter: { sourceUrl: string; chapterNumber: string; targetLanguage: TargetLanguage; styleIdentity: string; originalText: string },
+    sourceParagraphs: string[],
+    candidates: ComparisonCandidate[]
+  ): Promise<StoredComparison> {
+    await this.ensureTable();
+
+    const result = await pool.query(`
+      INSERT INTO model_comparisons (
+        source_url_hash, source_url, chapter_number, target_language, style_preset, original_text, source_paragraphs,
+        candidates
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      RETURNING *
+    `, [
+      this.hash(chapter.sourceUrl), chapter.sourceUrl, chapter.chapterNumber, chapter.targetLanguage,
+      chapter.styleIdentity, chapter.originalText, JSON.stringify(sourceParagraphs), JSON.stringify(candidates)
+    ]);
+    return this.toComparison(result.rows[0]);
+  }
+
+  async get(id: number, client: Pick<PoolClient, 'query'> = pool): Promise<StoredComparison | null> {
+    await this.ensureTable();
+
+    const result = await client.query('SELECT * FROM model_comparisons WHERE id = $1', [id]);
+    return result.rows[0] ? this.toComparison(result.rows[0]) : null;
+  }
+
+  async listVotes(id: number, client: Pick<PoolClient, 'query'> = pool): Promise<ComparisonVote[]> {
+    await this.ensureTable();
+
+    const result = await client.query(
+      'SELECT voter_key, paragraph_index, candidate FROM model_comparison_votes WHERE comparison_id = $1',
+      [id]
+    );
+    return result.rows.map(row => ({ voterKey: row.voter_key, paragraphIndex: row.paragraph_index, candidate: row.candidate }));
+  }
+
+  /**
+   * Run with the comparison row locked, so votes on one comparison take turns: each sees the votes before it,
+   * and only the first one to reach the threshold creates the preferred version
+   */
+  async withLock<T>(id: number, run: (comparison: StoredComparison | null, client: PoolClient) => Promise<T>): Promise<T> {
+    await this.ensureTable();
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      const result = await client.query('SELECT * FROM model_comparisons WHERE id = $1 FOR UPDATE', [id]);
+      const value = await run(result.rows[0] ? this.toComparison(result.rows[0]) : null, client);
+      await client.query('COMMIT');
+      return value;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Record a reader's pick for one paragraph; a later vote of the same reader for the paragraph replaces it
+   */
+  async vote(id: number, vote: ComparisonVote, client: Pick<PoolClient, 'query'>): Promise<void> {
+    await client.query(`
+      INSERT INTO model_comparison_votes (comparison_id, voter_key, paragraph_index, candidate)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (comparison_id, voter_key, paragraph_index)
+      DO UPDATE SET candidate = EXCLUDED.candidate, created_at = CURRENT_TIMESTAMP
+    `, [id, vote.voterKey, vote.paragraphIndex, vote.candidate]);
+    await client.query('UPDATE model_comparisons SET updated_at = CURRENT_TIMESTAMP WHERE id = $1', [id]);
+  }
+
+  async setPreferredVersion(id: number, versionId: number, client: Pick<PoolClient, 'query'>): Promise<void> {
+    await client.query('UPDATE model_comparisons SET preferred_version_id = $2 WHERE id = $1', [id, versionId]);
+  }
+
+  private toComparison(row: any): StoredComparison {
+    return {
+      id: row.id,
+      sourceUrl: row.source_url,
+      chapterNumber: row.chapter_number,
+      targetLanguage: row.target_language,
+      sourceParagraphs: row.source_paragraphs,
+      candidates: row.candidates,
+      preferredVersionId: row.preferred_version_id,
+      timestamp: new Date(row.created_at).getTime(),
+      originalText: row.original_text,
+      styleIdentity: row.style_preset
+    };
+  }
+}
+
+export const modelComparisonDB = new ModelComparisonDB();
+
+/**
+ * Translate a chapter with each provider and store the outputs side by side. Nothing is cached or fed to
+ * translation memory until the votes are pinned.
+ */
+export async function compareProviders(
+  input: ChapterTranslationInput & { sourceUrl: string; chapterNumber: string },
+  providers: TranslationProvider[],
+  options: ChapterTranslationOptions = {}
+): Promise<ComparisonResult> {
+  const sourceParagraphs = splitSourceParagraphs(input.text);
+
+  const results = await Promise.all(providers.map(provider =>
+    translateChapter(
+      { ...input, format: 'structured', footnotes: false, retranslate: true },
+      { ...options, providers: [provider], store: false }
+    ).catch((error: Error) => error)
+  ));
+
+  const candidates: ComparisonCandidate[] = [];
+  for (const [index, result] of results.entries()) {
+    const provider = providers[index].id;
+    if (result instanceof Error) {
+      candidates.push({ provider, model: null, confidence: null, title: '', paragraphs: [], error: result.message });
+      continue;
+    }
+
+    // The same for every provider: the chapter is already in the target language, or the budget is spent
+    if (result.status === 'passthrough' || result.status === 'over-budget') return result;
+
+    if (result.status !== 'translated') {
+      const error = result.status === 'invalid-output' ? 'Output is not in the target language' : 'Provider is not configured';
+      candidates.push({ provider, model: null, confidence: null, title: '', paragraphs: [], error });
+      continue;
+    }
+
+    const byIndex = new Map(result.structured!.paragraphs.map(paragraph => [paragraph.index, paragraph.text]));
+    candidates.push({
+      provider,
+      model: result.model,
+      confidence: result.confidence.score,
+      title: result.structured!.title,
+      paragraphs: sourceParagraphs.map((_, paragraph) => byIndex.get(paragraph) ?? null),
+      error: null
+    });
+  }
+
+  const style = await resolveStylePreset(input.stylePreset, extractNovelKey(input.sourceUrl));
+  const comparison = await modelComparisonDB.add({
+    sourceUrl: input.sourceUrl,
+    chapterNumber: input.chapterNumber,
+    targetLanguage: input.targetLanguage,
+    styleIdentity: getStyleIdentity(style),
+    originalText: input.text
+  }, sourceParagraphs, candidates);
+
+  return { status: 'compared', comparison: toPublicComparison(comparison, [], '') };
+}
+
+/**
+ * Build the preferred version from the leading paragraphs, add it to the translation cache (or update the one
+ * built before) and pin it. Runs inside withLock, and writes through its client so the version is rolled back
+ * with the vote.
+ */
+async function pinPreferredVersion(
+  comparison: StoredComparison,
+  tallies: Record<number, number[]>,
+  client: PoolClient
+): Promise<number> {
+  const { candidates, sourceParagraphs } = comparison;
+  const composite = buildComposite(candidates, selectWinners(candidates, sourceParagraphs.length, leadingCandidates(tallies)));
+  if (composite.top === null) throw new Error('No candidate has any paragraph to build a version from');
+
+  const model = candidates[composite.top].model!;
+  const structured = { title: candidates[composite.top].title, paragraphs: composite.paragraphs, notes: [] };
+  const confidence = computeConfidence({
+    originalText: comparison.originalText,
+    translatedText: composite.translatedText,
+    targetLanguage: comparison.targetLanguage
+  });
+
+  let versionId = comparison.preferredVersionId;
+  const replaced = versionId !== null
+    && await translationCache.replaceVersionText(versionId, composite.translatedText, model, { confidence, structured }, client);
+  if (versionId === null || !replaced) {
+    versionId = await translationCache.set(
+      comparison.sourceUrl, comparison.chapterNumber, comparison.originalText, composite.translatedText, model,
+      comparison.targetLanguage, comparison.styleIdentity, { confidence, structured }, client
+    );
+    if (versionId === null) throw new Error('Failed to cache the preferred version');
+    await modelComparisonDB.setPreferredVersion(comparison.id, versionId, client);
+  }
+  await translationCache.pinVersion(comparison.sourceUrl, comparison.chapterNumber, versionId, client);
+  return versionId;
+}
+
+/**
+ * Record a reader's vote for a paragraph the candidate has. The reader gets their own picks back as text;
+ * the shared preferred version is rebuilt and pinned once COMPARE_PIN_VOTERS distinct readers have voted.
+ * Null when the comparison doesn't exist.
+ */
+export async function voteForParagraph(id: number, vote: ComparisonVote): Promise<VoteResult | null> {
+  return modelComparisonDB.withLock(id, async (comparison, client) => {
+    if (!comparison) return null;
+
+    await modelComparisonDB.vote(id, vote, client);
+    const votes = await modelComparisonDB.listVotes(id, client);
+    const tallies = tallyVotes(votes, comparison.sourceParagraphs.length, comparison.candidates.length);
+
+    const pinned = countDistinctVoters(votes) >= getPinThreshold();
+    if (pinned) {
+      comparison = { ...comparison, preferredVersionId: await pinPreferredVersion(comparison, tallies, client) };
+    }
+
+    const result = toPublicComparison(comparison, votes, vote.voterKey);
+    const picks = selectWinners(comparison.candidates, comparison.sourceParagraphs.length, result.myVotes);
+    return { comparison: result, translatedText: buildComposite(comparison.candidates, picks).translatedText, pinned };
+  });
+}
+
+/**
+ * Build and pin the preferred version from the votes so far, whatever their number (admin approval).
+ * Null when the comparison doesn't exist.
+ */
+export async function approveComparison(id: number): Promise<ModelComparison | null> {
+  return modelComparisonDB.withLock(id, async (comparison, client) => {
+    if (!comparison) return null;
+
+    const votes = await modelComparisonDB.listVotes(id, client);
+    const tallies = tallyVotes(votes, comparison.sourceParagraphs.length, comparison.candidates.length);
+    const versionId = await pinPreferredVersion(comparison, tallies, client);
+    return toPublicComparison({ ...comparison, preferredVersionId: versionId }, votes, '');
+  });
+}
+
+/**
+ * A stored comparison without the source text and style identity, with the vote tallies and the picks of
+ * the requesting reader
+ */
+export function toPublicComparison(comparison: StoredComparison, votes: ComparisonVote[], voterKey: string): ModelComparison {
+  const myVotes: Record<number, number> = {};
+  for (const vote of votes) {
+    if (vote.voterKey === voterKey) myVotes[vote.paragraphIndex] = vote.candidate;
+  }
+
+  return {
+    id: comparison.id,
+    sourceUrl: comparison.sourceUrl,
+    chapterNumber: comparison.chapterNumber,
+    targetLanguage: comparison.targetLanguage,
+    sourceParagraphs: comparison.sourceParagraphs,
+    candidates: comparison.candidates,
+    votes: tallyVotes(votes, comparison.sourceParagraphs.length, comparison.candidates.length),
+    voters: countDistinctVoters(votes),
+    myVotes,
+    preferredVersionId: comparison.preferredVersionId,
+    timestamp: comparison.timestamp
+  };
+}
@@ -0,0 +1,201 @@
+import pool from './db';
+import type { PoolClient } from 'pg';
+import crypto from 'crypto';
+import { DEFAULT_PROMPT_TEMPLATE, PROMPT_PLACEHOLDERS } from './translation-prompt';
+
+// Versioned templates for the base of the translation system instruction (see buildSystemInstruction),
+// stored in Postgres so the prompt can change without a deploy. Template versions with a traffic share are
+// picked for that percentage of chapters; the remaining traffic uses the built-in template. Every cached
+// translation records the template that produced it, which /api/prompt-templates/compare reports on.
+
+export interface PromptTemplate {
+  id: number;
+  name: string;
+  version: number; // Counts up per name; saving a name again adds a version
+  body: string;
+  description: string | null;
+  trafficPercent: number; // 0-100; all versions together add up to at most 100
+  timestamp: number;
+}
+
+// The template a translation was made with; id is null for the built-in template
+export interface SelectedPromptTemplate {
+  id: number | null;
+  name: string;
+  version: number;
+  body: string;
+}
+
+export const BUILT_IN_PROMPT_TEMPLATE: SelectedPromptTemplate = {
+  id: null,
+  name: 'built-in',
+  version: 0,
+  body: DEFAULT_PROMPT_TEMPLATE
+};
+
+/**
+ * Placeholders in a template body that buildSystemInstruction wouldn't fill in
+ */
+export function findUnknownPlaceholders(body: string): string[] {
+  return (body.match(/\{\{\w+\}\}/g) || [])
+    .map(placeholder => placeholder.slice(2, -2))
+    .filter(placeholder => !PROMPT_PLACEHOLDERS.includes(placeholder));
+}
+
+let initialized = false;
+
+export class PromptTemplateDB {
+
+  private async ensureTable() {
+    if (initialized) return;
+
+    const query = `
+      CREATE TABLE IF NOT EXISTS prompt_templates (
+        id SERIAL PRIMARY KEY,
+        name VARCHAR(50) NOT NULL,
+        version INTEGER NOT NULL,
+        body TEXT NOT NULL,
+        description TEXT,
+        traffic_percent INTEGER NOT NULL DEFAULT 0,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(name, version)
+      );
+    `;
+
+    try {
+      await pool.query(query);
+      initialized = true;
+    } catch (error) {
+      console.error('Failed to initialize prompt_templates table:', error);
+    }
+  }
+
+  /**
+   * Every version of every template, by name and newest version first
+   */
+  async list(): Promise<PromptTemplate[]> {
+    await this.ensureTable();
+
+    const result = await pool.query('SELECT * FROM prompt_templates ORDER BY name, version DESC');
+    return result.rows.map(row => this.toTemplate(row));
+  }
+
+  async get(id: number): Promise<PromptTemplate | null> {
+    await this.ensureTable();
+
+    const result = await pool.query('SELECT * FROM prompt_templates WHERE id = $1', [id]);
+    return result.rows[0] ? this.toTemplate(result.rows[0]) : null;
+  }
+
+  /**
+   * The versions that currently get traffic
+   */
+  async listActive(): Promise<PromptTemplate[]> {
+    await this.ensureTable();
+
+    const result = await pool.query('SELECT * FROM prompt_templates WHERE traffic_percent > 0 ORDER BY id');
+    return result.rows.map(row => this.toTemplate(row));
+  }
+
+  /**
+   * When the first template was saved, which is when the built-in template started sharing traffic
+   */
+  async getFirstCreatedAt(): Promise<Date | null> {
+    await this.ensureTable();
+
+    const result = await pool.query('SELECT MIN(created_at) AS first FROM prompt_templates');
+    return result.rows[0]?.first ? new Date(result.rows[0].first) : null;
+  }
+
+  /**
+   * Save a new version of a template; null when its traffic share would take the total over 100%
+   */
+  async addVersion(name: string, body: string, description: string | null, trafficPercent: number): Promise<PromptTemplate | null> {
+    await this.ensureTable();
+
+    const result = await this.withTrafficLock(client => client.query(`
+      INSERT INTO prompt_templates (name, version, body, description, traffic_percent)
+      SELECT $1, COALESCE((SELECT MAX(version) FROM prompt_templates WHERE name = $1), 0) + 1, $2, $3, $4
+      WHERE (SELECT COALESCE(SUM(traffic_percent), 0) FROM prompt_templates) + $4 <= 100
+      RETURNING *
+    `, [name, body, description, trafficPercent]));
+    return result.rows[0] ? this.toTemplate(result.rows[0]) : null;
+  }
+
+  /**
+   * Change the traffic share of a version; null when it doesn't exist or the total would go over 100%
+   */
+  async setTraffic(id: number, trafficPercent: number): Promise<PromptTemplate | null> {
+    await this.ensureTable();
+
+    const result = await this.withTrafficLock(client => client.query(`
+      UPDATE prompt_templates SET traffic_percent = $2
+      WHERE id = $1
+        AND (SELECT COALESCE(SUM(traffic_percent), 0) FROM prompt_templates WHERE id <> $1) + $2 <= 100
+      RETURNING *
+    `, [id, trafficPercent]));
+    return result.rows[0] ? this.toTemplate(result.rows[0]) : null;
+  }
+
+  /**
+   * Run a write whose traffic total check must see every other write: the lock conflicts with itself, so
+   * concurrent writes take turns instead of each passing the check against the old total. Reads go on.
+   */
+  private async withTrafficLock<T>(write: (client: PoolClient) => Promise<T>): Promise<T> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query('LOCK TABLE prompt_templates IN SHARE ROW EXCLUSIVE MODE');
+      const result = await write(client);
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private toTemplate(row: any): PromptTemplate {
+    return {
+      id: row.id,
+      name: row.name,
+      version: row.version,
+      body: row.body,
+      description: row.description,
+      trafficPercent: row.traffic_percent,
+      timestamp: new Date(row.created_at).getTime()
+    };
+  }
+}
+
+export const promptTemplateDB = new PromptTemplateDB();
+
+/**
+ * Pick the template for a translation by traffic share. The same split key (the chapter URL) always lands in
+ * the same bucket, so retries of a chapter keep their template; without one the pick is random.
+ */
+export async function selectPromptTemplate(splitKey?: string): Promise<SelectedPromptTemplate> {
+  let active: PromptTemplate[];
+  try {
+    active = await promptTemplateDB.listActive();
+  } catch (error) {
+    console.error('Prompt template retrieval failed:', error);
+    return BUILT_IN_PROMPT_TEMPLATE;
+  }
+  if (active.length === 0) return BUILT_IN_PROMPT_TEMPLATE;
+
+  const bucket = splitKey
+    ? parseInt(crypto.createHash('sha256').update(splitKey).digest('hex').slice(0, 8), 16) % 100
+    : Math.floor(Math.random() * 100);
+
+  let threshold = 0;
+  for (const template of active) {
+    threshold += template.trafficPercent;
+    if (bucket < threshold) {
+      return { id: template.id, name: template.name, version: template.version, body: template.body };
+    }
+  }
+  return BUILT_IN_PROMPT_TEMPLATE;
+}
@@ -0,0 +1,79 @@
+import type { TargetLanguage } from '../languages';
+
+export interface TranslationRequest {
+  text: string;
+  context?: string; // Preceding source text, for reference only
+  systemInstruction: string;
+  targetLanguage: TargetLanguage;
+  relaxedSafety?: boolean; // Retry after a safety block with GEMINI_SAFETY_SETTINGS; ignored by machine translation
+  structured?: boolean; // Ask for JSON matching buildTranslationSchema where the provider supports a response schema
+  suspectedInjection?: boolean; // The text has instruction-like passages; the prompt warns about them (see prompt-injection.ts)
+  instruction?: boolean; // Not a translation (story context, glossary lookups): the text is sent as the prompt as is
+  signal?: AbortSignal; // Set by translateWithFallback; providers that can cancel their call pass it on
+}
+
+export interface ProviderUsage {
+  inputTokens: number;
+  outputTokens: number;
+  characters: number; // Characters sent, billed by machine translation
+  estimated: boolean; // True when the provider reported no usage and tokens were estimated from length
+}
+
+export interface TranslationResult {
+  text: string;
+  model: string; // Name reported to clients and stored with the translation
+  provider: string; // Registry id of the provider that answered
+  usage?: ProviderUsage;
+}
+
+export interface TranslationProvider {
+  readonly id: string; // Registry id, e.g. 'gemini:gemini-2.5-pro'
+  readonly model: string;
+  readonly baseConfidence: number; // Confidence reported when this provider produced the translation
+  readonly followsInstructions: boolean; // False for machine translation, which ignores the system instruction
+  isConfigured(): boolean;
+  translate(request: TranslationRequest): Promise<TranslationResult>;
+  // Optional incremental output; providers without it are streamed as one delta
+  translateStream?(request: TranslationRequest, onDelta: (text: string) => void): Promise<TranslationResult>;
+}
+
+export const PROVIDER_TIMEOUT = 60000;
+
+// Timeout wrapper for API calls
+export function withTimeout<T>(promise: Promise<T>, ms: number = PROVIDER_TIMEOUT): Promise<T> {
+  let timer: ReturnType<typeof setTimeout>;
+  return Promise.race([
+    promise,
+    new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`Request timeout after ${ms / 1000} seconds`)), ms);
+    })
+  ]).finally(() => clearTimeout(timer));
+}
+
+// Reject if the next stream item doesn't arrive within ms
+export function nextWithTimeout<T>(iterator: AsyncIterator<T>, ms: number = PROVIDER_TIMEOUT): Promise<IteratorResult<T>> {
+  return withTimeout(iterator.next(), ms);
+}
+
+// Rough token count for providers that don't report usage (about four characters per token for Latin text)
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Usage from reported token counts, estimated from the text where a count is missing
+ */
+export function buildUsage(
+  prompt: string,
+  output: string,
+  reported?: { inputTokens?: number | null; outputTokens?: number | null }
+): ProviderUsage {
+  const inputTokens = reported?.inputTokens ?? null;
+  const outputTokens = reported?.outputTokens ?? null;
+  return {
+    inputTokens: inputTokens ?? estimateTokens(prompt),
+    outputTokens: outputTokens ?? estimateTokens(output),
+    characters: prompt.length,
+    estimated: inputTokens === null || outputTokens === null
+  };
+}
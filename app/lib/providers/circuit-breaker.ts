@@ -0,0 +1,177 @@
+import type { TranslationProvider } from './base';
+import { classifyProviderError, type ClassifiedError, type ErrorClass } from './errors';
+import { createUsageTracker, SYSTEM_CLIENT_KEY } from '../usage';
+
+// Per provider/model circuit breaker. A model that keeps failing, timing out or returning 429 is skipped
+// for a cooldown instead of making every chunk wait on it; a background probe decides when it is back.
+//
+//   closed    - healthy, requests go through
+//   open      - skipped until the probe after the cooldown succeeds
+//   half-open - probe in flight, still skipped
+
+export type BreakerState = 'closed' | 'open' | 'half-open';
+
+export interface BreakerStatus {
+  provider: string;
+  model: string;
+  state: BreakerState;
+  recentFailures: number; // Within the failure window
+  lastFailure: { errorClass: ErrorClass; message: string; at: number } | null;
+  openedAt: number | null;
+  retryAt: number | null; // When the next probe runs
+  cooldownMs: number; // Doubles each time a probe fails, up to the maximum
+}
+
+export interface SkippedModel {
+  provider: string;
+  model: string;
+  reason: string;
+  retryAt: number | null;
+}
+
+const FAILURE_THRESHOLD = parseInt(process.env.CIRCUIT_FAILURE_THRESHOLD || '3', 10) || 3;
+const FAILURE_WINDOW = parseInt(process.env.CIRCUIT_FAILURE_WINDOW_MS || '120000', 10) || 120000;
+const COOLDOWN = parseInt(process.env.CIRCUIT_COOLDOWN_MS || '60000', 10) || 60000;
+const MAX_COOLDOWN = 10 * 60 * 1000;
+
+// Kept short: a probe only has to show the model answers again
+const PROBE_TEXT = 'Hello.';
+
+class CircuitBreaker {
+  private state: BreakerState = 'closed';
+  private failures: number[] = [];
+  private lastFailure: BreakerStatus['lastFailure'] = null;
+  private openedAt: number | null = null;
+  private retryAt: number | null = null;
+  private cooldownMs = COOLDOWN;
+  private probeTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private readonly provider: TranslationProvider) {}
+
+  isAvailable(): boolean {
+    if (this.state === 'closed') return true;
+
+    // Timers don't survive a suspended process; probe late rather than never
+    if (this.state === 'open' && this.retryAt !== null && Date.now() >= this.retryAt && !this.probeTimer) {
+      this.probe();
+    }
+    return false;
+  }
+
+  recordSuccess(): void {
+    this.failures = [];
+    if (this.state !== 'closed') this.close();
+  }
+
+  recordFailure(failure: ClassifiedError): void {
+    // Safety blocks and invalid requests say nothing about the model's health
+    if (failure.errorClass === 'safety' || failure.errorClass === 'invalid') return;
+
+    const now = Date.now();
+    this.lastFailure = { errorClass: failure.errorClass, message: failure.message.slice(0, 200), at: now };
+    this.failures = this.failures.filter(at => now - at < FAILURE_WINDOW);
+    this.failures.push(now);
+
+    // A 429 means the quota is gone for a while; waiting it out beats retrying
+    if (this.state === 'closed' && (failure.errorClass === 'quota' || this.failures.length >= FAILURE_THRESHOLD)) {
+      this.open();
+    }
+  }
+
+  status(): BreakerStatus {
+    const now = Date.now();
+    return {
+      provider: this.provider.id,
+      model: this.provider.model,
+      state: this.state,
+      recentFailures: this.failures.filter(at => now - at < FAILURE_WINDOW).length,
+      lastFailure: this.lastFailure,
+      openedAt: this.openedAt,
+      retryAt: this.retryAt,
+      cooldownMs: this.cooldownMs
+    };
+  }
+
+  skipReason(): string {
+    const failure = this.lastFailure;
+    if (!failure) return 'circuit open';
+    if (failure.errorClass === 'quota') return 'rate limited or out of quota';
+    if (failure.errorClass === 'timeout') return 'timing out';
+    return `failing: ${failure.message}`;
+  }
+
+  private open(): void {
+    this.state = 'open';
+    this.openedAt = Date.now();
+    this.scheduleProbe();
+    console.warn(`Circuit opened for ${this.provider.id} (${this.skipReason()}), retrying in ${this.cooldownMs / 1000}s`);
+  }
+
+  private close(): void {
+    console.log(`Circuit closed for ${this.provider.id}`);
+    this.state = 'closed';
+    this.failures = [];
+    this.openedAt = null;
+    this.retryAt = null;
+    this.cooldownMs = COOLDOWN;
+    this.clearProbeTimer();
+  }
+
+  private scheduleProbe(): void {
+    this.clearProbeTimer();
+    this.retryAt = Date.now() + this.cooldownMs;
+    this.probeTimer = setTimeout(() => {
+      this.probeTimer = null;
+      this.probe();
+    }, this.cooldownMs);
+    this.probeTimer.unref?.();
+  }
+
+  private clearProbeTimer(): void {
+    if (this.probeTimer) clearTimeout(this.probeTimer);
+    this.probeTimer = null;
+  }
+
+  private probe(): void {
+    if (this.state !== 'open') return;
+    this.state = 'half-open';
+
+    // A probe is a paid model call like any other, so it is accounted to the system client
+    const usage = createUsageTracker({ clientKey: SYSTEM_CLIENT_KEY });
+
+    this.provider.translate({
+      text: PROBE_TEXT,
+      systemInstruction: 'Translate the text into English. Output only the translation.',
+      targetLanguage: 'en'
+    }).then(result => {
+      if (result.usage) usage.forPurpose('health-probe')(this.provider, result.usage);
+      usage.flush().catch(error => console.error('Probe usage record error:', error));
+      if (!result.text || result.text.trim().length === 0) throw new Error('Empty translation received');
+      this.close();
+    }).catch(error => {
+      const { errorClass, message } = classifyProviderError(error);
+      this.lastFailure = { errorClass, message: message.slice(0, 200), at: Date.now() };
+      this.state = 'open';
+      this.cooldownMs = Math.min(this.cooldownMs * 2, MAX_COOLDOWN);
+      this.scheduleProbe();
+    });
+  }
+}
+
+const breakers = new Map<string, CircuitBreaker>();
+
+export function getBreaker(provider: TranslationProvider): CircuitBreaker {
+  let breaker = breakers.get(provider.id);
+  if (!breaker) {
+    breaker = new CircuitBreaker(provider);
+    breakers.set(provider.id, breaker);
+  }
+  return breaker;
+}
+
+/**
+ * Breaker state of the given providers; providers that never failed report as closed
+ */
+export function getBreakerStatuses(providers: TranslationProvider[]): BreakerStatus[] {
+  return providers.map(provider => getBreaker(provider).status());
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { classifyProviderError, httpStatusForErrorClass, parseRetryAfter, ProviderHttpError } from './errors';
+
+describe('classifyProviderError', () => {
+  const classOf = (error: unknown) => classifyProviderError(error).errorClass;
+
+  it('classifies by HTTP status', () => {
+    expect(classOf(new ProviderHttpError('Too busy', 503))).toBe('transient');
+    expect(classOf(new ProviderHttpError('Slow', 504))).toBe('timeout');
+    expect(classOf(new ProviderHttpError('Slow down', 429))).toBe('quota');
+    expect(classOf(new ProviderHttpError('No access', 403))).toBe('quota');
+    expect(classOf(new ProviderHttpError('Bad request', 400))).toBe('invalid');
+  });
+
+  it('reads the status embedded in SDK messages', () => {
+    const error = new Error('[GoogleGenerativeAI Error]: Error fetching from https://example.com: [429 Too Many Requests] Resource has been exhausted');
+    expect(classifyProviderError(error)).toMatchObject({ errorClass: 'quota', status: 429 });
+    expect(classOf(new Error('Request failed: 500 Internal Server Error'))).toBe('transient');
+  });
+
+  it('recognises safety blocks, timeouts and network failures by message', () => {
+    expect(classOf(new Error('Response was blocked due to SAFETY'))).toBe('safety');
+    expect(classOf(new Error('Request timeout after 60 seconds'))).toBe('timeout');
+    expect(classOf(new Error('fetch failed'))).toBe('transient');
+    expect(classOf(Object.assign(new Error('read ECONNRESET'), { code: 'ECONNRESET' }))).toBe('transient');
+    expect(classOf(new Error('Empty translation received'))).toBe('transient');
+  });
+
+  it('does not treat unrecognised errors as transient', () => {
+    expect(classOf(new ProviderHttpError('Model not found', 404))).toBe('unknown');
+    expect(classOf(new TypeError("Cannot read properties of undefined (reading 'text')"))).toBe('unknown');
+    expect(classOf(undefined)).toBe('unknown');
+  });
+
+  it('keeps the retry hint from Retry-After or Gemini RetryInfo', () => {
+    expect(classifyProviderError(new ProviderHttpError('Slow down', 429, 5000)).retryAfterMs).toBe(5000);
+    expect(classifyProviderError({
+      message: '[429 Too Many Requests] quota exceeded',
+      errorDetails: [{ '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay: '34s' }]
+    }).retryAfterMs).toBe(34000);
+    expect(classifyProviderError(new Error('Quota exceeded, please retry in 2.5s')).retryAfterMs).toBe(2500);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('accepts delta-seconds and HTTP dates', () => {
+    expect(parseRetryAfter('3')).toBe(3000);
+    expect(parseRetryAfter(null)).toBeNull();
+    expect(parseRetryAfter('soon')).toBeNull();
+
+    const later = parseRetryAfter(new Date(Date.now() + 10000).toUTCString())!;
+    expect(later).toBeGreaterThan(8000);
+    expect(later).toBeLessThanOrEqual(10000);
+    expect(parseRetryAfter(new Date(Date.now() - 10000).toUTCString())).toBe(0);
+  });
+});
+
+describe('httpStatusForErrorClass', () => {
+  it('maps every class to a status', () => {
+    expect(httpStatusForErrorClass('timeout')).toBe(504);
+    expect(httpStatusForErrorClass('quota')).toBe(503);
+    expect(httpStatusForErrorClass('transient')).toBe(503);
+    expect(httpStatusForErrorClass('safety')).toBe(502);
+    expect(httpStatusForErrorClass('invalid')).toBe(502);
+    expect(httpStatusForErrorClass('unknown')).toBe(502);
+  });
+});
@@ -0,0 +1,132 @@
+// Classification of provider failures, which decides what happens next:
+//
+//   transient - 5xx, dropped connections, empty output: retry the same model with jittered backoff
+//   timeout   - no answer within PROVIDER_TIMEOUT: another 60 seconds won't help, fall back
+//   quota     - 429 / exhausted quota, or a key without access to the model: fall back
+//   safety    - output blocked by safety filters: fall back
+//   invalid   - the request itself was rejected (400): often a limit or parameter of that provider, fall back
+//   unknown   - anything else (a 404 for a retired model, a bug in a provider): retrying won't help, fall back
+
+export type ErrorClass = 'transient' | 'timeout' | 'quota' | 'safety' | 'invalid' | 'unknown';
+
+export interface ClassifiedError {
+  errorClass: ErrorClass;
+  status: number | null;
+  retryAfterMs: number | null; // From a Retry-After header or the API's retry hint
+  message: string;
+}
+
+export interface ProviderFailure {
+  provider: string;
+  model: string;
+  errorClass: ErrorClass;
+  message: string;
+}
+
+/**
+ * HTTP error from a provider's API, keeping the status and any Retry-After hint for classification
+ */
+export class ProviderHttpError extends Error {
+  constructor(message: string, readonly status: number, readonly retryAfterMs: number | null = null) {
+    super(message);
+    this.name = 'ProviderHttpError';
+  }
+}
+
+/**
+ * Thrown by translateWithFallback when the chain is exhausted
+ */
+export class TranslationFailedError extends Error {
+  constructor(
+    message: string,
+    readonly errorClass: ErrorClass,
+    readonly failures: ProviderFailure[],
+    readonly retryAfterMs: number | null = null
+  ) {
+    super(message);
+    this.name = 'TranslationFailedError';
+  }
+}
+
+/**
+ * Thrown by translateWithFallback when its signal aborts (the reader went away); nothing is retried
+ */
+export class TranslationAbortedError extends Error {
+  constructor() {
+    super('Translation cancelled');
+    this.name = 'TranslationAbortedError';
+  }
+}
+
+/**
+ * Retry-After as milliseconds; accepts delta-seconds or an HTTP date
+ */
+export function parseRetryAfter(value: string | null | undefined): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function statusOf(error: any): number | null {
+  if (typeof error?.status === 'number') return error.status;
+  if (typeof error?.code === 'number' && error.code >= 400 && error.code < 600) return error.code;
+
+  // SDK messages embed the status: "[429 Too Many Requests]", "got status: 503", "failed: 400 Bad Request"
+  const match = String(error?.message || '').match(/\[(\d{3}) |status:? (\d{3})|failed: (\d{3})/i);
+  return match ? parseInt(match[1] || match[2] || match[3], 10) : null;
+}
+
+// Gemini reports its retry hint as a google.rpc.RetryInfo detail ("retryDelay": "34s") or in the message
+function retryHintOf(error: any): number | null {
+  if (typeof error?.retryAfterMs === 'number') return error.retryAfterMs;
+
+  const details = Array.isArray(error?.errorDetails) ? error.errorDetails : [];
+  const retryInfo = details.find((detail: any) => String(detail?.['@type'] || '').endsWith('RetryInfo'));
+  const delay = retryInfo?.retryDelay || String(error?.message || '').match(/retry in ([\d.]+)s/i)?.[1];
+  const seconds = delay ? parseFloat(delay) : NaN;
+  return isNaN(seconds) ? null : seconds * 1000;
+}
+
+export function classifyProviderError(error: any): ClassifiedError {
+  const message = String(error?.message || 'Unknown error');
+  const status = statusOf(error);
+  const retryAfterMs = retryHintOf(error);
+
+  let errorClass: ErrorClass = 'unknown';
+  if (/blocked due to|finishReason.*SAFETY|\bSAFETY\b|PROHIBITED_CONTENT|BLOCKLIST|RECITATION/.test(message)) {
+    errorClass = 'safety';
+  } else if (status === 408 || status === 504 || /timeout|timed out|DEADLINE_EXCEEDED|ETIMEDOUT/i.test(message)) {
+    errorClass = 'timeout';
+  } else if (
+    status === 429 || status === 401 || status === 403 ||
+    /too many requests|rate.?limit|quota|RESOURCE_EXHAUSTED|PERMISSION_DENIED|api.?key/i.test(message)
+  ) {
+    errorClass = 'quota';
+  } else if (status === 400 || status === 413 || /INVALID_ARGUMENT/.test(message)) {
+    errorClass = 'invalid';
+  } else if (
+    (status !== null && status >= 500) ||
+    /ECONNRESET|ECONNREFUSED|EPIPE|EAI_AGAIN|socket hang up|fetch failed|network error|\bUNAVAILABLE\b|\bINTERNAL\b|overloaded/i.test(message) ||
+    /^(?:Empty translation received|Empty stream|Invalid response)/.test(message)
+  ) {
+    errorClass = 'transient';
+  }
+
+  return { errorClass, status, retryAfterMs, message };
+}
+
+/**
+ * Status for the JSON error body once translation gave up
+ */
+export function httpStatusForErrorClass(errorClass: ErrorClass): number {
+  switch (errorClass) {
+    case 'timeout': return 504;
+    case 'quota':
+    case 'transient': return 503;
+    case 'safety':
+    case 'invalid':
+    case 'unknown': return 502;
+  }
+}
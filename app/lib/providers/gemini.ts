@@ -0,0 +1,93 @@
+import { GoogleGenerativeAI, SchemaType, type SafetySetting } from '@google/generative-ai';
+import { buildChunkPrompt } from '../translation-prompt';
+import { getRelaxedSafetySettings } from './safety';
+import { buildTranslationSchema } from '../structured-output';
+import {
+  withTimeout,
+  nextWithTimeout,
+  buildUsage,
+  type TranslationProvider,
+  type TranslationRequest,
+  type TranslationResult
+} from './base';
+
+const SCHEMA_TYPES = { object: SchemaType.OBJECT, array: SchemaType.ARRAY, string: SchemaType.STRING, integer: SchemaType.INTEGER };
+
+// Gemini through the Generative Language API (GOOGLE_GENERATIVE_AI_API_KEY)
+export class GeminiProvider implements TranslationProvider {
+  readonly id: string;
+  readonly model: string;
+  readonly baseConfidence: number;
+  readonly followsInstructions = true;
+
+  constructor(modelId: string, baseConfidence: number = 0.9) {
+    this.id = `gemini:${modelId}`;
+    this.model = modelId;
+    this.baseConfidence = baseConfidence;
+  }
+
+  isConfigured(): boolean {
+    return !!process.env.GOOGLE_GENERATIVE_AI_API_KEY;
+  }
+
+  private getModel(request: TranslationRequest) {
+    const genAI = new GoogleGenerativeAI(process.env.GOOGLE_GENERATIVE_AI_API_KEY!);
+    return genAI.getGenerativeModel({
+      model: this.model,
+      systemInstruction: request.systemInstruction,
+      safetySettings: request.relaxedSafety ? getRelaxedSafetySettings() as SafetySetting[] : undefined,
+      generationConfig: request.structured
+        ? { responseMimeType: 'application/json', responseSchema: buildTranslationSchema(SCHEMA_TYPES) }
+        : undefined
+    });
+  }
+
+  async translate(request: TranslationRequest): Promise<TranslationResult> {
+    const model = this.getModel(request);
+    const prompt = buildChunkPrompt(request);
+    const result = await withTimeout(model.generateContent(prompt, { signal: request.signal }));
+    if (!result || !result.response) throw new Error('Invalid response structure');
+
+    const text = result.response.text();
+    const usage = result.response.usageMetadata;
+    return {
+      text,
+      model: this.model,
+      provider: this.id,
+      usage: buildUsage(request.systemInstruction + prompt, text, {
+        inputTokens: usage?.promptTokenCount,
+        outputTokens: usage?.candidatesTokenCount
+      })
+    };
+  }
+
+  async translateStream(request: TranslationRequest, onDelta: (text: string) => void): Promise<TranslationResult> {
+    const model = this.getModel(request);
+    const prompt = buildChunkPrompt(request);
+    const result = await withTimeout(model.generateContentStream(prompt, { signal: request.signal }));
+    const iterator = result.stream[Symbol.asyncIterator]();
+    let output = '';
+
+    while (true) {
+      const { value, done } = await nextWithTimeout(iterator);
+      if (done) break;
+      const delta = value.text();
+      if (delta) {
+        output += delta;
+        onDelta(delta);
+      }
+    }
+
+    // The aggregated response carries the usage of the whole stream
+    const usage = (await withTimeout(result.response)).usageMetadata;
+    return {
+      text: output,
+      model: this.model,
+      provider: this.id,
+      usage: buildUsage(request.systemInstruction + prompt, output, {
+        inputTokens: usage?.promptTokenCount,
+        outputTokens: usage?.candidatesTokenCount
+      })
+    };
+  }
+}
@@ -0,0 +1,31 @@
+import { translateWithGoogle } from '../google-translate';
+import type { TranslationProvider, TranslationRequest, TranslationResult } from './base';
+
+// Google Cloud Translation v2 - plain machine translation, used as the last resort
+export class GoogleTranslateProvider implements TranslationProvider {
+  readonly id = 'google-translate';
+  readonly model = 'google-translate-api';
+  readonly baseConfidence = 0.7;
+  readonly followsInstructions = false;
+
+  // Assuming we might use GOOGLE_GENERATIVE_AI_API_KEY for Google Cloud Translate if it's the same project
+  // but usually they are different. We'll try GOOGLE_TRANSLATE_API_KEY first.
+  private getApiKey(): string | undefined {
+    return process.env.GOOGLE_TRANSLATE_API_KEY || process.env.GOOGLE_GENERATIVE_AI_API_KEY;
+  }
+
+  isConfigured(): boolean {
+    return !!this.getApiKey();
+  }
+
+  async translate(request: TranslationRequest): Promise<TranslationResult> {
+    const text = await translateWithGoogle(request.text, this.getApiKey()!, request.targetLanguage);
+    // Billed per character sent; no tokens involved
+    return {
+      text,
+      model: this.model,
+      provider: this.id,
+      usage: { inputTokens: 0, outputTokens: 0, characters: request.text.length, estimated: false }
+    };
+  }
+}
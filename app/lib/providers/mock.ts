@@ -0,0 +1,65 @@
+import crypto from 'crypto';
+import { splitMarkdownBlocks } from '../chunker';
+import type { TargetLanguage } from '../languages';
+import { buildUsage, type TranslationProvider, type TranslationRequest, type TranslationResult } from './base';
+
+// One fixed sentence per target language; it passes the output validator for that language
+const MOCK_SENTENCES: Record<TargetLanguage, (block: number, digest: string) => string> = {
+  en: (block, digest) => `This is the mock translation of block ${block} (${digest}) and it was produced offline for the tests.`,
+  es: (block, digest) => `Esta es la traducción de prueba del bloque ${block} (${digest}) y se generó sin conexión para las pruebas.`,
+  de: (block, digest) => `Dies ist die Testübersetzung von Block ${block} (${digest}) und sie wurde offline für die Tests erzeugt.`,
+  id: (block, digest) => `Ini adalah terjemahan tiruan dari blok ${block} (${digest}) yang dibuat secara luring untuk pengujian.`,
+};
+
+// Deterministic offline provider for development and tests.
+// Keeps the Markdown block structure (headings, list and quote markers) and replaces the prose with a
+// fixed sentence tagged with a short hash of the source block. 'mock:fail' always throws, to exercise fallback.
+export class MockProvider implements TranslationProvider {
+  readonly id: string;
+  readonly model: string;
+  readonly baseConfidence = 0.5;
+  readonly followsInstructions = false;
+  private shouldFail: boolean;
+
+  constructor(variant?: string) {
+    this.shouldFail = variant === 'fail';
+    this.id = variant ? `mock:${variant}` : 'mock';
+    this.model = this.id;
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  private render(request: TranslationRequest): string[] {
+    if (this.shouldFail) throw new Error('Mock provider failure');
+
+    const sentence = MOCK_SENTENCES[request.targetLanguage];
+    const renderLine = (line: string, label: number) => {
+      const digest = crypto.createHash('sha256').update(line).digest('hex').slice(0, 8);
+      const marker = line.match(/^\s*(#{1,6}\s|[-*+]\s|\d+\.\s|>\s)/)?.[1] || '';
+      return `${marker}${sentence(label, digest)}`;
+    };
+
+    return splitMarkdownBlocks(request.text).map((block, index) => {
+      const lines = block.split('\n');
+      // List blocks keep one line per item
+      if (lines.length > 1 && lines.every(line => /^\s*([-*+]|\d+\.)\s/.test(line))) {
+        return lines.map(line => renderLine(line, index + 1)).join('\n');
+      }
+      return renderLine(block, index + 1);
+    });
+  }
+
+  async translate(request: TranslationRequest): Promise<TranslationResult> {
+    const text = this.render(request).join('\n\n');
+    return { text, model: this.model, provider: this.id, usage: buildUsage(request.text, text) };
+  }
+
+  async translateStream(request: TranslationRequest, onDelta: (text: string) => void): Promise<TranslationResult> {
+    const blocks = this.render(request);
+    blocks.forEach((block, index) => onDelta(index > 0 ? `\n\n${block}` : block));
+    const text = blocks.join('\n\n');
+    return { text, model: this.model, provider: this.id, usage: buildUsage(request.text, text) };
+  }
+}
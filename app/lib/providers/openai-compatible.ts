@@ -0,0 +1,149 @@
+import { buildChunkPrompt } from '../translation-prompt';
+import {
+  PROVIDER_TIMEOUT,
+  withTimeout,
+  buildUsage,
+  type TranslationProvider,
+  type TranslationRequest,
+  type TranslationResult
+} from './base';
+import { ProviderHttpError, parseRetryAfter } from './errors';
+
+// Any server speaking the OpenAI chat completions API - vLLM, llama.cpp, Ollama, LM Studio, ...
+// Configured with OPENAI_COMPATIBLE_BASE_URL (e.g. http://localhost:11434/v1), optional OPENAI_COMPATIBLE_API_KEY
+// and OPENAI_COMPATIBLE_MODEL (used when the registry id carries no model, i.e. 'openai')
+export class OpenAICompatibleProvider implements TranslationProvider {
+  readonly id: string;
+  readonly model: string;
+  readonly baseConfidence: number;
+  readonly followsInstructions = true;
+  private modelId: string;
+
+  constructor(modelId?: string, baseConfidence: number = 0.8) {
+    this.modelId = modelId || process.env.OPENAI_COMPATIBLE_MODEL || 'default';
+    this.id = modelId ? `openai:${modelId}` : 'openai';
+    this.model = `openai/${this.modelId}`;
+    this.baseConfidence = baseConfidence;
+  }
+
+  isConfigured(): boolean {
+    return !!process.env.OPENAI_COMPATIBLE_BASE_URL;
+  }
+
+  private async post(request: TranslationRequest, stream: boolean, signal: AbortSignal): Promise<Response> {
+    const baseUrl = process.env.OPENAI_COMPATIBLE_BASE_URL!.replace(/\/+$/, '');
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (process.env.OPENAI_COMPATIBLE_API_KEY) {
+      headers['Authorization'] = `Bearer ${process.env.OPENAI_COMPATIBLE_API_KEY}`;
+    }
+
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      signal,
+      body: JSON.stringify({
+        model: this.modelId,
+        stream,
+        temperature: 0.3,
+        messages: [
+          { role: 'system', content: request.systemInstruction },
+          { role: 'user', content: buildChunkPrompt(request) }
+        ]
+      })
+    });
+
+    if (!response.ok) {
+      const errorBody = await response.text();
+      throw new ProviderHttpError(
+        `OpenAI-compatible API failed: ${response.status} ${response.statusText} - ${errorBody}`,
+        response.status,
+        parseRetryAfter(response.headers.get('retry-after'))
+      );
+    }
+
+    return response;
+  }
+
+  async translate(request: TranslationRequest): Promise<TranslationResult> {
+    const controller = new AbortController();
+    request.signal?.addEventListener('abort', () => controller.abort(), { once: true });
+    try {
+      const response = await withTimeout(this.post(request, false, controller.signal));
+      const data = await response.json();
+      const text = data?.choices?.[0]?.message?.content;
+      if (typeof text !== 'string') throw new Error('Invalid response from OpenAI-compatible API');
+
+      return {
+        text,
+        model: this.model,
+        provider: this.id,
+        usage: buildUsage(request.systemInstruction + buildChunkPrompt(request), text, {
+          inputTokens: data?.usage?.prompt_tokens,
+          outputTokens: data?.usage?.completion_tokens
+        })
+      };
+    } finally {
+      controller.abort();
+    }
+  }
+
+  async translateStream(request: TranslationRequest, onDelta: (text: string) => void): Promise<TranslationResult> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), PROVIDER_TIMEOUT);
+    request.signal?.addEventListener('abort', () => controller.abort(), { once: true });
+
+    try {
+      const response = await this.post(request, true, controller.signal);
+      if (!response.body) throw new Error('Empty stream from OpenAI-compatible API');
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let output = '';
+      let reportedUsage: { prompt_tokens?: number; completion_tokens?: number } | undefined;
+
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        // Server-sent events, one JSON payload per 'data:' line
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+          const payload = line.replace(/^data:\s*/, '').trim();
+          if (!line.startsWith('data:') || !payload || payload === '[DONE]') continue;
+
+          const data = JSON.parse(payload);
+          // Servers that report usage on streams send it with the last chunk
+          if (data?.usage) reportedUsage = data.usage;
+          const delta = data?.choices?.[0]?.delta?.content;
+          if (delta) {
+            output += delta;
+            onDelta(delta);
+          }
+        }
+
+        // Keep the connection alive only while data keeps arriving
+        timer.refresh();
+      }
+
+      return {
+        text: output,
+        model: this.model,
+        provider: this.id,
+        usage: buildUsage(request.systemInstruction + buildChunkPrompt(request), output, {
+          inputTokens: reportedUsage?.prompt_tokens,
+          outputTokens: reportedUsage?.completion_tokens
+        })
+      };
+    } catch (error: any) {
+      if (error?.name === 'AbortError' && !request.signal?.aborted) {
+        throw new Error(`Request timeout after ${PROVIDER_TIMEOUT / 1000} seconds`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
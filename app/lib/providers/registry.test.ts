@@ -0,0 +1,49 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { TranslationProvider, TranslationRequest } from './base';
+import { ProviderHttpError, TranslationFailedError } from './errors';
+import { translateWithFallback } from './registry';
+
+const request: TranslationRequest = { text: '林凡笑了。', systemInstruction: 'Translate.', targetLanguage: 'en' };
+
+// Every test uses its own ids, since the circuit breakers are kept per provider across calls
+function provider(id: string, translate: TranslationProvider['translate']): TranslationProvider {
+  return { id, model: id, baseConfidence: 0.8, followsInstructions: true, isConfigured: () => true, translate };
+}
+
+const rejecting = (id: string) => provider(id, async () => {
+  throw new ProviderHttpError('400 Bad Request: INVALID_ARGUMENT, input token count exceeds the maximum', 400);
+});
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+describe('translateWithFallback', () => {
+  it('moves on to the next provider when one rejects the request as invalid', async () => {
+    const onFailure = vi.fn();
+    const next = provider('test:accepting', async () => ({ text: 'Lin Fan smiled.', model: 'test:accepting', provider: 'test:accepting' }));
+
+    const result = await translateWithFallback([rejecting('test:small-context'), next], request, { onFailure });
+
+    expect(result).toMatchObject({ text: 'Lin Fan smiled.', attempts: 2 });
+    expect(onFailure).toHaveBeenCalledWith(expect.objectContaining({ id: 'test:small-context' }), expect.any(Error), next, 'invalid');
+  });
+
+  it('reports invalid only when every provider rejected the request', async () => {
+    const error = await translateWithFallback([rejecting('test:invalid-a'), rejecting('test:invalid-b')], request, { maxAttempts: 1 })
+      .catch(error => error);
+
+    expect(error).toBeInstanceOf(TranslationFailedError);
+    expect(error.errorClass).toBe('invalid');
+    expect(error.failures.map((failure: { provider: string }) => failure.provider)).toEqual(['test:invalid-a', 'test:invalid-b']);
+  });
+
+  it('keeps the class of a retryable failure over a later invalid one', async () => {
+    const overloaded = provider('test:overloaded', async () => { throw new ProviderHttpError('503 Service Unavailable', 503); });
+
+    const error = await translateWithFallback([overloaded, rejecting('test:invalid-c')], request, { maxAttempts: 1 })
+      .catch(error => error);
+
+    expect(error.errorClass).toBe('transient');
+  });
+});
@@ -0,0 +1,298 @@
+import { GeminiProvider } from './gemini';
+import { GoogleTranslateProvider } from './google-translate';
+import { VertexAIProvider } from './vertex';
+import { OpenAICompatibleProvider } from './openai-compatible';
+import { MockProvider } from './mock';
+import { getBreaker, type SkippedModel } from './circuit-breaker';
+import type { SafetyOutcome } from './safety';
+import {
+  classifyProviderError,
+  TranslationAbortedError,
+  TranslationFailedError,
+  type ClassifiedError,
+  type ErrorClass,
+  type ProviderFailure
+} from './errors';
+import type { ProviderUsage, TranslationProvider, TranslationRequest, TranslationResult } from './base';
+
+type ProviderFactory = (model?: string) => TranslationProvider;
+
+// Ordered fallback chain used when TRANSLATION_PROVIDER_CHAIN is not set
+export const DEFAULT_PROVIDER_CHAIN = ['gemini:gemini-2.5-pro', 'gemini:gemini-2.5-flash', 'google-translate'];
+
+// Cheaper chain used for clients over budget when BUDGET_DEGRADED_CHAIN is not set
+export const DEFAULT_DEGRADED_CHAIN = ['gemini:gemini-2.5-flash-lite', 'google-translate'];
+
+export class ProviderRegistry {
+  private providers = new Map<string, TranslationProvider>();
+  private factories = new Map<string, ProviderFactory>();
+
+  register(provider: TranslationProvider): void {
+    this.providers.set(provider.id, provider);
+  }
+
+  /**
+   * Register a factory for ids of the form '<prefix>' or '<prefix>:<model>'
+   */
+  registerFactory(prefix: string, factory: ProviderFactory): void {
+    this.factories.set(prefix, factory);
+  }
+
+  get(id: string): TranslationProvider | null {
+    const existing = this.providers.get(id);
+    if (existing) return existing;
+
+    const separator = id.indexOf(':');
+    const prefix = separator >= 0 ? id.slice(0, separator) : id;
+    const model = separator >= 0 ? id.slice(separator + 1) : undefined;
+    const factory = this.factories.get(prefix);
+    if (!factory) return null;
+
+    const provider = factory(model);
+    this.register(provider);
+    return provider;
+  }
+
+  list(): TranslationProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  /**
+   * Resolve ids to configured providers, dropping unknown or unconfigured ones
+   */
+  resolveChain(ids: string[]): TranslationProvider[] {
+    const chain: TranslationProvider[] = [];
+    for (const id of ids) {
+      const provider = this.get(id);
+      if (!provider) {
+        console.warn(`Unknown translation provider in chain: ${id}`);
+      } else if (provider.isConfigured()) {
+        chain.push(provider);
+      }
+    }
+    return chain;
+  }
+}
+
+export const providerRegistry = new ProviderRegistry();
+
+providerRegistry.register(new GeminiProvider('gemini-2.5-pro', 0.95));
+providerRegistry.register(new GeminiProvider('gemini-2.5-flash', 0.9));
+providerRegistry.register(new GoogleTranslateProvider());
+providerRegistry.registerFactory('gemini', model => new GeminiProvider(model || 'gemini-2.5-flash'));
+providerRegistry.registerFactory('vertex', model => new VertexAIProvider(model || 'gemini-2.5-pro'));
+providerRegistry.registerFactory('openai', model => new OpenAICompatibleProvider(model));
+providerRegistry.registerFactory('mock', model => new MockProvider(model));
+
+/**
+ * The configured fallback chain: TRANSLATION_PROVIDER_CHAIN (comma-separated ids) or the default
+ */
+export function getProviderChain(): TranslationProvider[] {
+  return resolveConfiguredChain(process.env.TRANSLATION_PROVIDER_CHAIN, DEFAULT_PROVIDER_CHAIN);
+}
+
+/**
+ * The chain for clients whose budget is exhausted: BUDGET_DEGRADED_CHAIN or the default
+ */
+export function getDegradedProviderChain(): TranslationProvider[] {
+  return resolveConfiguredChain(process.env.BUDGET_DEGRADED_CHAIN, DEFAULT_DEGRADED_CHAIN);
+}
+
+function resolveConfiguredChain(configured: string | undefined, defaults: string[]): TranslationProvider[] {
+  const ids = configured
+    ? configured.split(',').map(id => id.trim()).filter(id => id.length > 0)
+    : defaults;
+  return providerRegistry.resolveChain(ids);
+}
+
+/**
+ * The configured chain without machine translation, for tasks driven by the system instruction
+ */
+export function getInstructionProviderChain(): TranslationProvider[] {
+  return getProviderChain().filter(provider => provider.followsInstructions);
+}
+
+export interface FallbackOptions {
+  maxAttempts?: number; // Attempts per provider on transient errors (default 1 + TRANSIENT_MAX_RETRIES)
+  onAttempt?: (provider: TranslationProvider) => void;
+  onFailure?: (provider: TranslationProvider, error: Error, next: TranslationProvider | null, errorClass: ErrorClass) => void;
+  onDelta?: (text: string) => void; // Stream output where the provider supports it
+  onUsage?: (provider: TranslationProvider, usage: ProviderUsage) => void; // Tokens and characters of the successful call
+  onSkip?: (skipped: SkippedModel) => void; // A provider was passed over because its circuit is open
+  signal?: AbortSignal; // Cancel the call in flight and stop walking the chain
+}
+
+export interface FallbackResult extends TranslationResult {
+  baseConfidence: number;
+  attempts: number;
+  skipped: SkippedModel[];
+  safety: SafetyOutcome | null; // Set when the chunk was blocked by safety filters on the first try
+}
+
+const TRANSIENT_RETRIES = Math.max(0, parseInt(process.env.TRANSIENT_MAX_RETRIES ?? '2', 10) || 0);
+const RETRY_BASE_DELAY = 1000;
+const MAX_RETRY_DELAY = 30000; // Longer retry-after hints move on to the next provider instead of waiting
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Full-jitter exponential backoff, never shorter than the provider's retry hint. Null when the hint
+ * asks for a longer wait than is worth holding the request for.
+ */
+function retryDelay(attempt: number, retryAfterMs: number | null): number | null {
+  const backoff = Math.random() * Math.min(MAX_RETRY_DELAY, RETRY_BASE_DELAY * 2 ** attempt);
+  if (retryAfterMs === null) return backoff;
+  return retryAfterMs > MAX_RETRY_DELAY ? null : Math.max(retryAfterMs, backoff);
+}
+
+/**
+ * Stop waiting when the signal aborts, also for providers that can't cancel their call
+ */
+function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new TranslationAbortedError());
+    if (signal.aborted) return onAbort();
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+/**
+ * Run one provider, streaming if asked, and reject empty output
+ */
+async function callProvider(
+  provider: TranslationProvider,
+  request: TranslationRequest,
+  options: FallbackOptions
+): Promise<TranslationResult> {
+  const active = options.signal ? { ...request, signal: options.signal } : request;
+  const result = await abortable(options.onDelta
+    ? provider.translateStream
+      ? provider.translateStream(active, options.onDelta)
+      : provider.translate(active).then(r => { options.onDelta!(r.text); return r; })
+    : provider.translate(active), options.signal);
+
+  if (result.usage) options.onUsage?.(provider, result.usage);
+
+  if (!result.text || result.text.trim().length === 0) {
+    throw new Error('Empty translation received');
+  }
+  return result;
+}
+
+/**
+ * Machine translation for passages the models refuse; used whether or not it is in the chain
+ */
+function getSafetyFallbackProvider(): TranslationProvider | null {
+  const provider = providerRegistry.get('google-translate');
+  return provider && provider.isConfigured() ? provider : null;
+}
+
+/**
+ * Walk the chain until a provider returns a non-empty translation. Transient errors are retried on the
+ * same provider with backoff; timeouts, quota errors and invalid requests move to the next provider, since
+ * one provider's 400 (an input limit, an unsupported parameter) says little about the others. A safety block is retried once with relaxed safety settings, then the passage goes to
+ * Google Translate. Providers whose circuit is open are skipped, unless every provider is open.
+ */
+export async function translateWithFallback(
+  chain: TranslationProvider[],
+  request: TranslationRequest,
+  options: FallbackOptions = {}
+): Promise<FallbackResult> {
+  if (chain.length === 0) {
+    throw new Error('All translation services failed: no translation provider is configured');
+  }
+
+  const maxAttempts = options.maxAttempts ?? 1 + TRANSIENT_RETRIES;
+  let attempts = 0;
+  const skipped: SkippedModel[] = [];
+  const failures: ProviderFailure[] = [];
+  let lastFailure: ClassifiedError | null = null;
+  const ignoreBreakers = chain.every(provider => !getBreaker(provider).isAvailable());
+
+  for (let i = 0; i < chain.length; i++) {
+    const provider = chain[i];
+    const breaker = getBreaker(provider);
+    let activeRequest = request;
+
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+      if (!ignoreBreakers && !breaker.isAvailable()) {
+        // A circuit that opened on an earlier attempt just ends the retries
+        if (attempt === 0) {
+          const { retryAt } = breaker.status();
+          const skip = { provider: provider.id, model: provider.model, reason: breaker.skipReason(), retryAt };
+          skipped.push(skip);
+          options.onSkip?.(skip);
+        }
+        break;
+      }
+
+      if (options.signal?.aborted) throw new TranslationAbortedError();
+      attempts++;
+      options.onAttempt?.(provider);
+      try {
+        const result = await callProvider(provider, activeRequest, options);
+        breaker.recordSuccess();
+        return {
+          ...result,
+          baseConfidence: provider.baseConfidence,
+          attempts,
+          skipped,
+          safety: activeRequest.relaxedSafety ? 'relaxed' : null
+        };
+      } catch (error: any) {
+        // Not the provider's fault, so it stays out of the breaker
+        if (options.signal?.aborted) throw new TranslationAbortedError();
+
+        const classified = classifyProviderError(error);
+        // An invalid request is only reported when no provider failed for another reason worth retrying
+        lastFailure = classified.errorClass === 'invalid' && lastFailure ? lastFailure : classified;
+        failures.push({ provider: provider.id, model: provider.model, errorClass: classified.errorClass, message: classified.message });
+        breaker.recordFailure(classified);
+        console.log(`${provider.id} failed (attempt ${attempt + 1}, ${classified.errorClass}):`, classified.message);
+
+        if (classified.errorClass === 'safety') {
+          if (!activeRequest.relaxedSafety && provider.followsInstructions) {
+            options.onFailure?.(provider, error, provider, classified.errorClass);
+            activeRequest = { ...request, relaxedSafety: true };
+            attempt--; // The relaxed retry comes on top of the transient retries
+            continue;
+          }
+
+          const fallback = getSafetyFallbackProvider();
+          options.onFailure?.(provider, error, fallback !== provider ? fallback : null, classified.errorClass);
+          if (!fallback || fallback === provider) break;
+
+          // Other models would most likely block the passage too
+          attempts++;
+          options.onAttempt?.(fallback);
+          try {
+            const result = await callProvider(fallback, request, options);
+            return { ...result, baseConfidence: fallback.baseConfidence, attempts, skipped, safety: 'machine-translated' };
+          } catch (fallbackError: any) {
+            if (options.signal?.aborted) throw new TranslationAbortedError();
+            const fallbackFailure = classifyProviderError(fallbackError);
+            failures.push({ provider: fallback.id, model: fallback.model, errorClass: fallbackFailure.errorClass, message: fallbackFailure.message });
+            throw new TranslationFailedError('Translation blocked by safety filters', 'safety', failures);
+          }
+        }
+
+        const delay = classified.errorClass === 'transient' && attempt < maxAttempts - 1
+          ? retryDelay(attempt, classified.retryAfterMs)
+          : null;
+        options.onFailure?.(provider, error, delay === null ? chain[i + 1] || null : provider, classified.errorClass);
+        if (delay === null) break;
+        await sleep(delay);
+      }
+    }
+  }
+
+  throw new TranslationFailedError(
+    'All translation services failed',
+    lastFailure?.errorClass || 'transient',
+    failures,
+    lastFailure?.retryAfterMs ?? null
+  );
+}
@@ -0,0 +1,69 @@
+import { splitMarkdownBlocks } from '../chunker';
+
+// Safety-filter handling for mature fiction. A chunk blocked by the safety filters is retried once with
+// GEMINI_SAFETY_SETTINGS; if it is still blocked it is machine-translated with Google Translate, and the
+// passage is reported so the reader can see which part of the chapter did not come from the model.
+
+export interface SafetySettingConfig {
+  category: string; // HARM_CATEGORY_*
+  threshold: string; // BLOCK_NONE, BLOCK_ONLY_HIGH, BLOCK_MEDIUM_AND_ABOVE, BLOCK_LOW_AND_ABOVE
+}
+
+// 'relaxed': translated by the model on the retry with relaxed settings
+// 'machine-translated': still blocked, translated by Google Translate instead
+export type SafetyOutcome = 'relaxed' | 'machine-translated';
+
+export interface SafetyPassage {
+  chunk: number;
+  outcome: SafetyOutcome;
+  blocks: [number, number]; // First and last block index in the translated Markdown (see splitMarkdownBlocks)
+}
+
+const HARM_CATEGORIES = [
+  'HARM_CATEGORY_HARASSMENT',
+  'HARM_CATEGORY_HATE_SPEECH',
+  'HARM_CATEGORY_SEXUALLY_EXPLICIT',
+  'HARM_CATEGORY_DANGEROUS_CONTENT'
+];
+
+const DEFAULT_RELAXED_THRESHOLD = 'BLOCK_ONLY_HIGH';
+
+/**
+ * Settings for the retry after a block: GEMINI_SAFETY_SETTINGS is either one threshold for every category
+ * (e.g. BLOCK_NONE) or a JSON array of { category, threshold }
+ */
+export function getRelaxedSafetySettings(): SafetySettingConfig[] {
+  const configured = process.env.GEMINI_SAFETY_SETTINGS?.trim();
+
+  if (configured?.startsWith('[')) {
+    try {
+      const settings = JSON.parse(configured);
+      if (Array.isArray(settings)) {
+        return settings.filter(setting => typeof setting?.category === 'string' && typeof setting?.threshold === 'string');
+      }
+    } catch {
+      console.error('Ignoring invalid GEMINI_SAFETY_SETTINGS');
+    }
+  }
+
+  const threshold = configured && !configured.startsWith('[') ? configured : DEFAULT_RELAXED_THRESHOLD;
+  return HARM_CATEGORIES.map(category => ({ category, threshold }));
+}
+
+/**
+ * Block ranges of the chunks that needed safety handling, for chunk outputs joined with joinChunks
+ */
+export function locateSafetyPassages(results: Array<{ text: string; safety: SafetyOutcome | null }>): SafetyPassage[] {
+  const passages: SafetyPassage[] = [];
+  let offset = 0;
+
+  results.forEach((result, chunk) => {
+    const count = splitMarkdownBlocks(result.text.trim()).length;
+    if (result.safety && count > 0) {
+      passages.push({ chunk, outcome: result.safety, blocks: [offset, offset + count - 1] });
+    }
+    offset += count;
+  });
+
+  return passages;
+}
@@ -0,0 +1,116 @@
+import { VertexAI, SchemaType, type SafetySetting } from '@google-cloud/vertexai';
+import { buildChunkPrompt } from '../translation-prompt';
+import { getRelaxedSafetySettings } from './safety';
+import { buildTranslationSchema } from '../structured-output';
+import {
+  withTimeout,
+  nextWithTimeout,
+  buildUsage,
+  type TranslationProvider,
+  type TranslationRequest,
+  type TranslationResult
+} from './base';
+
+const SCHEMA_TYPES = { object: SchemaType.OBJECT, array: SchemaType.ARRAY, string: SchemaType.STRING, integer: SchemaType.INTEGER };
+
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'RECITATION', 'SPII'];
+
+// Extract the text of the first candidate of a Vertex AI response; blocked responses throw like the Gemini SDK does
+function responseText(response: {
+  candidates?: Array<{ content?: { parts?: Array<{ text?: string }> }; finishReason?: string }>;
+  promptFeedback?: { blockReason?: string };
+}): string {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason) throw new Error(`Response was blocked due to ${blockReason}`);
+  if (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason)) {
+    throw new Error(`Response was blocked due to ${finishReason}`);
+  }
+
+  const parts = response.candidates?.[0]?.content?.parts || [];
+  return parts.map(part => part.text || '').join('');
+}
+
+// Gemini through Vertex AI (GOOGLE_CLOUD_PROJECT, optional GOOGLE_CLOUD_LOCATION; auth via application default credentials)
+export class VertexAIProvider implements TranslationProvider {
+  readonly id: string;
+  readonly model: string;
+  readonly baseConfidence: number;
+  readonly followsInstructions = true;
+  private modelId: string;
+
+  constructor(modelId: string, baseConfidence: number = 0.9) {
+    this.id = `vertex:${modelId}`;
+    this.model = `vertex/${modelId}`;
+    this.modelId = modelId;
+    this.baseConfidence = baseConfidence;
+  }
+
+  isConfigured(): boolean {
+    return !!process.env.GOOGLE_CLOUD_PROJECT;
+  }
+
+  private getModel(request: TranslationRequest) {
+    const vertexAI = new VertexAI({
+      project: process.env.GOOGLE_CLOUD_PROJECT,
+      location: process.env.GOOGLE_CLOUD_LOCATION || 'us-central1'
+    });
+    return vertexAI.getGenerativeModel({
+      model: this.modelId,
+      systemInstruction: request.systemInstruction,
+      safetySettings: request.relaxedSafety ? getRelaxedSafetySettings() as SafetySetting[] : undefined,
+      generationConfig: request.structured
+        ? { responseMimeType: 'application/json', responseSchema: buildTranslationSchema(SCHEMA_TYPES) }
+        : undefined
+    });
+  }
+
+  async translate(request: TranslationRequest): Promise<TranslationResult> {
+    const model = this.getModel(request);
+    const prompt = buildChunkPrompt(request);
+    const result = await withTimeout(model.generateContent(prompt));
+    if (!result || !result.response) throw new Error('Invalid response structure');
+
+    const text = responseText(result.response);
+    const usage = result.response.usageMetadata;
+    return {
+      text,
+      model: this.model,
+      provider: this.id,
+      usage: buildUsage(request.systemInstruction + prompt, text, {
+        inputTokens: usage?.promptTokenCount,
+        outputTokens: usage?.candidatesTokenCount
+      })
+    };
+  }
+
+  async translateStream(request: TranslationRequest, onDelta: (text: string) => void): Promise<TranslationResult> {
+    const model = this.getModel(request);
+    const prompt = buildChunkPrompt(request);
+    const result = await withTimeout(model.generateContentStream(prompt));
+    const iterator = result.stream[Symbol.asyncIterator]();
+    let output = '';
+
+    while (true) {
+      const { value, done } = await nextWithTimeout(iterator);
+      if (done) break;
+      const delta = responseText(value);
+      if (delta) {
+        output += delta;
+        onDelta(delta);
+      }
+    }
+
+    // The aggregated response carries the usage of the whole stream
+    const usage = (await withTimeout(result.response)).usageMetadata;
+    return {
+      text: output,
+      model: this.model,
+      provider: this.id,
+      usage: buildUsage(request.systemInstruction + prompt, output, {
+        inputTokens: usage?.promptTokenCount,
+        outputTokens: usage?.candidatesTokenCount
+      })
+    };
+  }
+}
@@ -1,3 +1,6 @@
+import { NextResponse } from 'next/server';
+import { logSecurityEvent } from './security';
+
 export interface RateLimitConfig {
   windowMs: number; // Time window in milliseconds
   maxRequests: number; // Maximum requests allowed in the window
@@ -181,4 +184,39 @@ export function checkRateLimit(
   
   // Return the one with fewer remaining requests
   return minuteCheck.remaining <= dayCheck.remaining ? minuteCheck : dayCheck;
-}
\ No newline at end of file
+}
+/**
+ * Check the rate limit of an endpoint and build the 429 response once it is exceeded; null while within limits
+ */
+export function rateLimitResponse(
+  ip: string,
+  userAgent: string | undefined,
+  url: string,
+  endpoint: string,
+  eventName: string
+): NextResponse | null {
+  const rateLimitResult = checkRateLimit(ip, endpoint);
+  if (rateLimitResult.success) return null;
+
+  logSecurityEvent(eventName, {
+    ip,
+    userAgent,
+    url,
+    reason: 'Rate limit exceeded at API level'
+  });
+
+  const response = NextResponse.json(
+    {
+      error: 'Rate limit exceeded',
+      message: 'Too many requests. Please try again later.',
+      retryAfter: rateLimitResult.retryAfter || 60
+    },
+    { status: 429 }
+  );
+
+  if (rateLimitResult.retryAfter) {
+    response.headers.set('Retry-After', rateLimitResult.retryAfter.toString());
+  }
+
+  return response;
+}
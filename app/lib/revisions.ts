@@ -0,0 +1,172 @@
+import { splitMarkdownBlocks, type TextChunk } from './chunker';
+import { normalizeSegment, type ChunkMemory } from './translation-memory';
+
+// Incremental retranslation of revised chapters. Each cached translation keeps its paragraph alignment (how
+// many translated blocks each source block became). When the source of a cached chapter changes - a typo fix,
+// an appended afterword - the new source is diffed against the previous one paragraph by paragraph, the
+// translations of unchanged paragraphs are kept, and only changed or inserted paragraphs go to the model.
+
+export interface RevisionInfo {
+  revision: number; // 1 for the first translation of a chapter
+  revisedFrom: string | null; // Source hash of the version this one was built from
+  unchanged: number; // Source paragraphs whose translation was kept
+  changed: number; // Changed or inserted source paragraphs
+  removed: number; // Paragraphs of the previous version that are gone
+}
+
+export interface ParagraphChange {
+  type: 'unchanged' | 'added' | 'removed';
+  text: string;
+}
+
+export interface PreviousVersion {
+  originalText: string;
+  translatedText: string;
+  alignment: number[] | null;
+  revision: number;
+  originalTextHash: string;
+}
+
+// A mostly rewritten chapter reads better translated in one go than patched together
+const MIN_UNCHANGED_SHARE = 0.5;
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Translated blocks per source block, when the translation lines up with the source one to one
+ */
+export function alignParagraphs(originalText: string, translatedText: string): number[] | null {
+  const sources = splitMarkdownBlocks(originalText);
+  const targets = splitMarkdownBlocks(translatedText);
+  return sources.length === targets.length ? sources.map(() => 1) : null;
+}
+
+/**
+ * For each new block, the index of the old block it is unchanged from (longest common subsequence of
+ * whitespace-normalized blocks), or null when it was changed or inserted
+ */
+export function diffParagraphs(oldBlocks: string[], newBlocks: string[]): Array<number | null> {
+  const a = oldBlocks.map(normalizeSegment);
+  const b = newBlocks.map(normalizeSegment);
+  const n = a.length;
+  const m = b.length;
+  const width = m + 1;
+
+  // lengths[i][j] = LCS of a[i..] and b[j..]
+  const lengths = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i * width + j] = a[i] === b[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const matches: Array<number | null> = new Array(m).fill(null);
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      matches[j] = i;
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return matches;
+}
+
+/**
+ * Paragraph-level diff of two translations of a chapter, in reading order
+ */
+export function diffTranslations(fromText: string, toText: string): ParagraphChange[] | null {
+  const fromBlocks = splitMarkdownBlocks(fromText);
+  const toBlocks = splitMarkdownBlocks(toText);
+  if (fromBlocks.length * toBlocks.length > MAX_DIFF_CELLS) return null;
+
+  const matches = diffParagraphs(fromBlocks, toBlocks);
+  const changes: ParagraphChange[] = [];
+  let added: ParagraphChange[] = [];
+  let next = 0;
+  // Between two unchanged paragraphs, the removed ones come before the added ones
+  const flush = (until: number) => {
+    for (; next < until; next++) changes.push({ type: 'removed', text: fromBlocks[next] });
+    changes.push(...added);
+    added = [];
+  };
+
+  toBlocks.forEach((block, index) => {
+    const match = matches[index];
+    if (match === null) {
+      added.push({ type: 'added', text: block });
+      return;
+    }
+    flush(match);
+    changes.push({ type: 'unchanged', text: block });
+    next = match + 1;
+  });
+  flush(fromBlocks.length);
+
+  return changes;
+}
+
+/**
+ * The kept translation for every block of the new chunks, for planChunkMemory, and what changed. Null when
+ * the previous version has no alignment or too little of it survived to be worth keeping.
+ */
+export function reusePreviousVersion(
+  chunks: TextChunk[],
+  previous: PreviousVersion
+): { kept: Array<Array<string | null>>; info: RevisionInfo } | null {
+  const oldBlocks = splitMarkdownBlocks(previous.originalText);
+  const targets = splitMarkdownBlocks(previous.translatedText);
+  const alignment = previous.alignment;
+  if (!alignment || alignment.length !== oldBlocks.length || alignment.reduce((sum, count) => sum + count, 0) !== targets.length) {
+    return null;
+  }
+
+  // The translation of each old block
+  let offset = 0;
+  const oldTargets = alignment.map(count => {
+    const block = targets.slice(offset, offset + count).join('\n\n');
+    offset += count;
+    return block;
+  });
+
+  const chunkBlocks = chunks.map(chunk => splitMarkdownBlocks(chunk.text));
+  const newBlocks = chunkBlocks.flat();
+  if (oldBlocks.length * newBlocks.length > MAX_DIFF_CELLS) return null;
+
+  const matches = diffParagraphs(oldBlocks, newBlocks);
+  const unchanged = matches.filter(match => match !== null && oldTargets[match].length > 0).length;
+  if (newBlocks.length === 0 || unchanged / newBlocks.length < MIN_UNCHANGED_SHARE) return null;
+
+  let next = 0;
+  const kept = chunkBlocks.map(blocks => blocks.map(() => {
+    const match = matches[next++];
+    return match !== null && oldTargets[match].length > 0 ? oldTargets[match] : null;
+  }));
+
+  return {
+    kept,
+    info: {
+      revision: previous.revision + 1,
+      revisedFrom: previous.originalTextHash,
+      unchanged,
+      changed: newBlocks.length - unchanged,
+      removed: oldBlocks.length - matches.filter(match => match !== null).length
+    }
+  };
+}
+
+/**
+ * The revision as it ended up: blocks of chunks that had to be translated whole count as changed
+ */
+export function summarizeRevision(info: RevisionInfo, plan: ChunkMemory[], translatedWhole: number[]): RevisionInfo {
+  const lost = translatedWhole.reduce(
+    (sum, index) => sum + plan[index].origin.filter(origin => origin === 'revision').length, 0
+  );
+  return { ...info, unchanged: info.unchanged - lost, changed: info.changed + lost };
+}
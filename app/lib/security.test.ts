@@ -0,0 +1,50 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { NextRequest } from 'next/server';
+import { getClientIP, validateRequest } from './security';
+
+describe("validateRequest('translate')", () => {
+  it('accepts the chapter URL the reader entered and takes the chapter number from it', () => {
+    const result = validateRequest({ text: '第一章', sourceUrl: 'https://www.example.com/book/4821/12' }, 'translate');
+    expect(result).toMatchObject({
+      isValid: true,
+      sanitized: { sourceUrl: 'https://www.example.com/book/4821/12', chapterNumber: '4821' }
+    });
+  });
+
+  it('translates text from a URL without a chapter number, without keying it to a chapter', () => {
+    const result = validateRequest({ text: '第一章', sourceUrl: 'https://www.example.com/book/chapter-one' }, 'translate');
+    expect(result.isValid).toBe(true);
+    expect(result.sanitized?.chapterNumber).toBeUndefined();
+  });
+
+  it('rejects URLs that are not http(s), and compare mode without a numbered chapter', () => {
+    expect(validateRequest({ text: '第一章', sourceUrl: 'javascript:alert(1)' }, 'translate').isValid).toBe(false);
+    expect(validateRequest({ text: '第一章', sourceUrl: 'https://www.example.com/book/chapter-one', compare: true }, 'translate').errors)
+      .toEqual(['Compare mode needs the URL of a numbered chapter']);
+  });
+});
+
+describe('getClientIP', () => {
+  const original = process.env.TRUSTED_PROXY_COUNT;
+  afterEach(() => {
+    if (original === undefined) delete process.env.TRUSTED_PROXY_COUNT;
+    else process.env.TRUSTED_PROXY_COUNT = original;
+  });
+
+  const request = (headers: Record<string, string>) => new NextRequest('http://localhost/api/translate', { headers });
+
+  it('takes the address the trusted proxy saw, not what the client put in X-Forwarded-For', () => {
+    delete process.env.TRUSTED_PROXY_COUNT;
+    expect(getClientIP(request({ 'x-forwarded-for': '198.51.100.1, 203.0.113.5' }))).toBe('203.0.113.5');
+
+    process.env.TRUSTED_PROXY_COUNT = '2';
+    expect(getClientIP(request({ 'x-forwarded-for': '198.51.100.1, 203.0.113.5, 10.0.0.2' }))).toBe('203.0.113.5');
+    expect(getClientIP(request({ 'x-forwarded-for': '203.0.113.5' }))).toBe('203.0.113.5');
+  });
+
+  it('ignores X-Forwarded-For without trusted proxies', () => {
+    process.env.TRUSTED_PROXY_COUNT = '0';
+    expect(getClientIP(request({ 'x-forwarded-for': '198.51.100.1', 'x-real-ip': '203.0.113.5' }))).toBe('203.0.113.5');
+    expect(getClientIP(request({ 'x-forwarded-for': '198.51.100.1' }))).toBe('127.0.0.1');
+  });
+});
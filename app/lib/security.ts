@@ -1,4 +1,11 @@
-import { NextRequest } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import type { GlossaryEntry } from './glossary';
+import {
+  DEFAULT_TARGET_LANGUAGE,
+  SUPPORTED_TARGET_LANGUAGES,
+  isSupportedTargetLanguage,
+  type TargetLanguage
+} from './languages';
 
 // URL validation patterns
 const ALLOWED_DOMAINS = [
@@ -15,6 +22,18 @@ const CHAPTER_URL_PATTERNS = [
   /^(https?:\/\/r\.jina\.ai\/https?:\/\/[^\/]+\/[^\/]+\/\d+\/\d+\/?$)/
 ];
 
+// Upper bound on the chapters one background job may translate
+export const MAX_JOB_CHAPTERS = 50;
+
+// Upper bound on one paragraph of a reader correction
+const MAX_CORRECTION_LENGTH = 5000;
+
+// Upper bound on the providers one comparison runs
+export const MAX_COMPARE_PROVIDERS = 4;
+
+// Upper bound on the body of a prompt template
+const MAX_PROMPT_TEMPLATE_LENGTH = 20000;
+
 export interface ValidationResult {
   isValid: boolean;
   error?: string;
@@ -29,17 +48,54 @@ export interface RequestValidation {
     text?: string;
     sourceUrl?: string;
     chapterNumber?: string;
+    targetLanguage?: TargetLanguage;
+    novelUrl?: string;
+    entries?: GlossaryEntry[];
+    startUrl?: string;
+    chapterCount?: number;
+    format?: 'markdown' | 'structured';
+    footnotes?: boolean;
+    stylePreset?: string;
+    retranslate?: boolean;
+    versionId?: number;
+    fromVersionId?: number;
+    toVersionId?: number;
+    chapterUrl?: string;
+    paragraphIndex?: number;
+    original?: string;
+    corrected?: string;
+    correctionId?: number;
+    review?: 'approved' | 'rejected';
+    proposalId?: number;
+    templateId?: number;
+    templateName?: string;
+    templateBody?: string;
+    description?: string;
+    trafficPercent?: number;
+    compare?: string[] | true; // true: the configured comparison providers
+    comparisonId?: number;
+    candidate?: number;
   };
 }
 
+// Number of reverse proxies in front of the app (TRUSTED_PROXY_COUNT, default 1). Each one appends the address
+// it was reached from to X-Forwarded-For, so only the entries they added can be trusted.
+function getTrustedProxyCount(): number {
+  const count = parseInt(process.env.TRUSTED_PROXY_COUNT || '1', 10);
+  return isNaN(count) || count < 0 ? 1 : count;
+}
+
 /**
- * Extract client IP from request headers
+ * Extract client IP from request headers. The client can send its own X-Forwarded-For, so the address is the
+ * one the outermost trusted proxy saw, counted from the right; with no trusted proxy the header is ignored.
  */
 export function getClientIP(request: NextRequest): string {
-  // Try various headers that might contain the real IP
   const forwarded = request.headers.get('x-forwarded-for');
-  if (forwarded) {
-    return forwarded.split(',')[0].trim();
+  const trustedProxies = getTrustedProxyCount();
+  if (forwarded && trustedProxies > 0) {
+    const hops = forwarded.split(',').map(hop => hop.trim()).filter(Boolean);
+    const hop = hops[Math.max(0, hops.length - trustedProxies)];
+    if (hop) return hop;
   }
 
   const realIP = request.headers.get('x-real-ip');
@@ -216,12 +272,108 @@ export function validateSourceUrl(url: string): ValidationResult {
   return urlValidation;
 }
 
+/**
+ * Validate the URL of a chapter that keys its cached translations. It is never fetched, so any http/https
+ * URL will do; the reader sends the chapter URL as the user entered it.
+ */
+export function validateChapterKeyUrl(url: string): ValidationResult {
+  if (!url || typeof url !== 'string') {
+    return {
+      isValid: false,
+      error: 'Source URL is required and must be a string'
+    };
+  }
+
+  return validateNovelUrl(url);
+}
+
+/**
+ * Validate a novel URL used to key per-novel data (any http/https chapter or index URL)
+ */
+export function validateNovelUrl(url: string): ValidationResult {
+  if (!url || typeof url !== 'string') {
+    return {
+      isValid: false,
+      error: 'Novel URL is required and must be a string'
+    };
+  }
+
+  try {
+    const urlObj = new URL(url);
+    if (!['http:', 'https:'].includes(urlObj.protocol)) {
+      return {
+        isValid: false,
+        error: 'Only HTTP and HTTPS protocols are allowed'
+      };
+    }
+  } catch {
+    return {
+      isValid: false,
+      error: 'Invalid URL format'
+    };
+  }
+
+  return {
+    isValid: true,
+    sanitizedUrl: url.trim()
+  };
+}
+
+/**
+ * Validate glossary entries submitted for a novel
+ */
+export function validateGlossaryEntries(entries: any): { errors: string[]; entries: GlossaryEntry[] } {
+  const errors: string[] = [];
+  const sanitized: GlossaryEntry[] = [];
+
+  if (!Array.isArray(entries) || entries.length === 0) {
+    return { errors: ['Entries must be a non-empty array'], entries: [] };
+  }
+
+  if (entries.length > 500) {
+    return { errors: ['At most 500 glossary entries can be submitted at once'], entries: [] };
+  }
+
+  entries.forEach((entry, index) => {
+    const source = typeof entry?.source === 'string' ? entry.source.trim() : '';
+    const target = typeof entry?.target === 'string' ? entry.target.trim() : '';
+    const notes = typeof entry?.notes === 'string' ? entry.notes.trim() : undefined;
+
+    if (!source || source.length > 200) {
+      errors.push(`Entry ${index}: source must be 1-200 characters`);
+    } else if (!target || target.length > 200) {
+      errors.push(`Entry ${index}: target must be 1-200 characters`);
+    } else if (notes && notes.length > 500) {
+      errors.push(`Entry ${index}: notes must be at most 500 characters`);
+    } else {
+      sanitized.push({ source, target, notes: notes || undefined });
+    }
+  });
+
+  return { errors, entries: sanitized };
+}
+
+/**
+ * Validate the shape of a style preset id; whether the preset exists is checked against style-presets.ts
+ */
+export function validateStylePresetId(id: any): ValidationResult {
+  if (typeof id !== 'string' || !/^[a-z0-9][a-z0-9-]{0,49}$/.test(id)) {
+    return {
+      isValid: false,
+      error: 'Must be 1-50 lowercase letters, digits or hyphens'
+    };
+  }
+
+  return { isValid: true };
+}
+
 /**
  * Comprehensive request validation
  */
 export function validateRequest(
   requestData: any,
-  type: 'translate' | 'scrape' | 'nextChapter'
+  type: 'translate' | 'scrape' | 'nextChapter' | 'glossary' | 'novelStyle' | 'storyContext' | 'job' | 'translationVersions'
+    | 'correction' | 'correctionReview' | 'glossaryProposal' | 'promptTemplate' | 'comparisonVote' | 'chapterSummary'
 ): RequestValidation {
   const errors: string[] = [];
 
@@ -235,7 +387,7 @@ export function validateRequest(
   let sanitized: RequestValidation['sanitized'] = {};
 
   if (type === 'translate') {
-    const { text, sourceUrl, chapterNumber } = requestData;
+    const { text, sourceUrl, chapterNumber, targetLanguage, format, footnotes, stylePreset, retranslate, compare } = requestData;
 
     // Validate text content
     const textValidation = validateTextContent(text);
@@ -245,23 +397,74 @@ export function validateRequest(
       sanitized.text = text;
     }
 
-    // Validate source URL
+    // Validate source URL; text from a URL without a chapter number is translated but not cached
     if (sourceUrl) {
-      const urlValidation = validateSourceUrl(sourceUrl);
+      const urlValidation = validateChapterKeyUrl(sourceUrl);
       if (!urlValidation.isValid) {
         errors.push(`Source URL: ${urlValidation.error}`);
       } else {
         sanitized.sourceUrl = urlValidation.sanitizedUrl || sourceUrl;
+        const extractedChapter = extractChapterNumber(sanitized.sourceUrl!);
+        if (extractedChapter) sanitized.chapterNumber = extractedChapter;
       }
     }
 
-    // Extract and validate chapter number
-    if (sourceUrl) {
-      const extractedChapter = extractChapterNumber(sourceUrl);
-      if (!extractedChapter) {
-        errors.push('Could not extract chapter number from source URL');
+    // Validate target language (defaults to English)
+    if (targetLanguage === undefined || targetLanguage === null || targetLanguage === '') {
+      sanitized.targetLanguage = DEFAULT_TARGET_LANGUAGE;
+    } else if (!isSupportedTargetLanguage(targetLanguage)) {
+      errors.push(`Target language must be one of: ${Object.keys(SUPPORTED_TARGET_LANGUAGES).join(', ')}`);
+    } else {
+      sanitized.targetLanguage = targetLanguage;
+    }
+
+    // Output format (defaults to Markdown)
+    if (format === undefined || format === null || format === '') {
+      sanitized.format = 'markdown';
+    } else if (format !== 'markdown' && format !== 'structured') {
+      errors.push('Format must be one of: markdown, structured');
+    } else {
+      sanitized.format = format;
+    }
+
+    // Translator's footnotes (off by default); structured output has its own notes
+    if (footnotes !== undefined && footnotes !== null && typeof footnotes !== 'boolean') {
+      errors.push('Footnotes must be a boolean');
+    } else if (footnotes && format === 'structured') {
+      errors.push('Footnotes are not available with structured output, which returns notes instead');
+    } else {
+      sanitized.footnotes = footnotes === true;
+    }
+
+    // Style preset id; when omitted the novel's saved preset applies
+    if (stylePreset !== undefined && stylePreset !== null && stylePreset !== '') {
+      const presetValidation = validateStylePresetId(stylePreset);
+      if (!presetValidation.isValid) {
+        errors.push(`Style preset: ${presetValidation.error}`);
       } else {
-        sanitized.chapterNumber = extractedChapter;
+        sanitized.stylePreset = stylePreset;
+      }
+    }
+
+    // Skip the cached translation and add a new version of the chapter
+    if (retranslate !== undefined && retranslate !== null && typeof retranslate !== 'boolean') {
+      errors.push('Retranslate must be a boolean');
+    } else {
+      sanitized.retranslate = retranslate === true;
+    }
+
+    // Compare mode: true, or the ids of 2-4 providers to run side by side. The comparison is stored per chapter.
+    if (compare !== undefined && compare !== null && compare !== false) {
+      if (compare !== true && (!Array.isArray(compare) || compare.length < 2 || compare.length > MAX_COMPARE_PROVIDERS
+        || compare.some(id => typeof id !== 'string' || !/^[a-z][a-z-]*(?::[\w.-]{1,64})?$/.test(id))
+        || new Set(compare).size !== compare.length)) {
+        errors.push(`Compare must be true or a list of 2-${MAX_COMPARE_PROVIDERS} different provider ids`);
+      } else if (!sourceUrl || !sanitized.chapterNumber) {
+        errors.push('Compare mode needs the URL of a numbered chapter');
+      } else if (footnotes) {
+        errors.push('Footnotes are not available in compare mode');
+      } else {
+        sanitized.compare = compare;
       }
     }
 
@@ -296,6 +499,320 @@ export function validateRequest(
         errors.push('Invalid URL format');
       }
     }
+  } else if (type === 'glossary') {
+    const { novelUrl, targetLanguage, entries } = requestData;
+
+    const urlValidation = validateNovelUrl(novelUrl);
+    if (!urlValidation.isValid) {
+      errors.push(`Novel URL: ${urlValidation.error}`);
+    } else {
+      sanitized.novelUrl = urlValidation.sanitizedUrl;
+    }
+
+    if (targetLanguage === undefined || targetLanguage === null || targetLanguage === '') {
+      sanitized.targetLanguage = DEFAULT_TARGET_LANGUAGE;
+    } else if (!isSupportedTargetLanguage(targetLanguage)) {
+      errors.push(`Target language must be one of: ${Object.keys(SUPPORTED_TARGET_LANGUAGES).join(', ')}`);
+    } else {
+      sanitized.targetLanguage = targetLanguage;
+    }
+
+    // Entries are only required when writing to the glossary
+    if (entries !== undefined) {
+      const entryValidation = validateGlossaryEntries(entries);
+      errors.push(...entryValidation.errors);
+      sanitized.entries = entryValidation.entries;
+    }
+
+  } else if (type === 'novelStyle') {
+    const { novelUrl, stylePreset } = requestData;
+
+    const urlValidation = validateNovelUrl(novelUrl);
+    if (!urlValidation.isValid) {
+      errors.push(`Novel URL: ${urlValidation.error}`);
+    } else {
+      sanitized.novelUrl = urlValidation.sanitizedUrl;
+    }
+
+    // Only required when saving the novel's preset
+    if (stylePreset !== undefined) {
+      const presetValidation = validateStylePresetId(stylePreset);
+      if (!presetValidation.isValid) {
+        errors.push(`Style preset: ${presetValidation.error}`);
+      } else {
+        sanitized.stylePreset = stylePreset;
+      }
+    }
+
+  } else if (type === 'storyContext') {
+    const { novelUrl, targetLanguage } = requestData;
+
+    const urlValidation = validateNovelUrl(novelUrl);
+    if (!urlValidation.isValid) {
+      errors.push(`Novel URL: ${urlValidation.error}`);
+    } else {
+      sanitized.novelUrl = urlValidation.sanitizedUrl;
+    }
+
+    if (targetLanguage === undefined || targetLanguage === null || targetLanguage === '') {
+      sanitized.targetLanguage = DEFAULT_TARGET_LANGUAGE;
+    } else if (!isSupportedTargetLanguage(targetLanguage)) {
+      errors.push(`Target language must be one of: ${Object.keys(SUPPORTED_TARGET_LANGUAGES).join(', ')}`);
+    } else {
+      sanitized.targetLanguage = targetLanguage;
+    }
+
+  } else if (type === 'translationVersions') {
+    const { sourceUrl, targetLanguage, versionId, fromVersionId, toVersionId } = requestData;
+
+    const urlValidation = validateChapterKeyUrl(sourceUrl);
+    if (!urlValidation.isValid) {
+      errors.push(`Source URL: ${urlValidation.error}`);
+    } else {
+      sanitized.sourceUrl = urlValidation.sanitizedUrl || sourceUrl;
+      const extractedChapter = extractChapterNumber(sanitized.sourceUrl!);
+      if (!extractedChapter) {
+        errors.push('Could not extract chapter number from source URL');
+      } else {
+        sanitized.chapterNumber = extractedChapter;
+      }
+    }
+
+    // Optional filter; all languages are listed when omitted
+    if (targetLanguage !== undefined && targetLanguage !== null && targetLanguage !== '') {
+      if (!isSupportedTargetLanguage(targetLanguage)) {
+        errors.push(`Target language must be one of: ${Object.keys(SUPPORTED_TARGET_LANGUAGES).join(', ')}`);
+      } else {
+        sanitized.targetLanguage = targetLanguage;
+      }
+    }
+
+    // Version ids, each only required by the endpoints that use it
+    const ids = { versionId, fromVersionId, toVersionId };
+    for (const [field, id] of Object.entries(ids) as Array<[keyof typeof ids, any]>) {
+      if (id === undefined) continue;
+      if (!Number.isSafeInteger(id) || id < 1) {
+        errors.push(`${field} must be a positive integer`);
+      } else {
+        sanitized[field] = id;
+      }
+    }
+
+  } else if (type === 'correction') {
+    const { chapterUrl, targetLanguage, versionId, paragraphIndex, original, corrected } = requestData;
+
+    const urlValidation = validateNovelUrl(chapterUrl);
+    if (!urlValidation.isValid) {
+      errors.push(`Chapter URL: ${urlValidation.error}`);
+    } else {
+      sanitized.chapterUrl = urlValidation.sanitizedUrl;
+    }
+
+    if (targetLanguage === undefined || targetLanguage === null || targetLanguage === '') {
+      sanitized.targetLanguage = DEFAULT_TARGET_LANGUAGE;
+    } else if (!isSupportedTargetLanguage(targetLanguage)) {
+      errors.push(`Target language must be one of: ${Object.keys(SUPPORTED_TARGET_LANGUAGES).join(', ')}`);
+    } else {
+      sanitized.targetLanguage = targetLanguage;
+    }
+
+    // Only chapters served from the translation cache have a version
+    if (versionId !== undefined && versionId !== null) {
+      if (!Number.isSafeInteger(versionId) || versionId < 1) {
+        errors.push('versionId must be a positive integer');
+      } else {
+        sanitized.versionId = versionId;
+      }
+    }
+
+    // The paragraph list is only needed when writing a correction
+    if (paragraphIndex !== undefined) {
+      if (!Number.isSafeInteger(paragraphIndex) || paragraphIndex < 0) {
+        errors.push('paragraphIndex must be a non-negative integer');
+      } else {
+        sanitized.paragraphIndex = paragraphIndex;
+      }
+
+      const paragraphs = { original, corrected };
+      for (const [field, text] of Object.entries(paragraphs) as Array<[keyof typeof paragraphs, any]>) {
+        if (typeof text !== 'string' || text.trim().length === 0) {
+          errors.push(`${field} is required and must be a non-empty string`);
+        } else if (text.length > MAX_CORRECTION_LENGTH) {
+          errors.push(`${field} must be at most ${MAX_CORRECTION_LENGTH} characters`);
+        } else {
+          sanitized[field] = text.trim();
+        }
+      }
+
+      if (sanitized.original !== undefined && sanitized.original === sanitized.corrected) {
+        errors.push('The corrected paragraph is the same as the original');
+      }
+    }
+
+  } else if (type === 'correctionReview') {
+    const { correctionId, status } = requestData;
+
+    if (!Number.isSafeInteger(correctionId) || correctionId < 1) {
+      errors.push('correctionId must be a positive integer');
+    } else {
+      sanitized.correctionId = correctionId;
+    }
+
+    if (status !== 'approved' && status !== 'rejected') {
+      errors.push('status must be approved or rejected');
+    } else {
+      sanitized.review = status;
+    }
+
+  } else if (type === 'glossaryProposal') {
+    const { novelUrl, proposalId } = requestData;
+
+    const urlValidation = validateNovelUrl(novelUrl);
+    if (!urlValidation.isValid) {
+      errors.push(`Novel URL: ${urlValidation.error}`);
+    } else {
+      sanitized.novelUrl = urlValidation.sanitizedUrl;
+    }
+
+    // Only required when accepting or dismissing a proposal
+    if (proposalId !== undefined) {
+      if (!Number.isSafeInteger(proposalId) || proposalId < 1) {
+        errors.push('proposalId must be a positive integer');
+      } else {
+        sanitized.proposalId = proposalId;
+      }
+    }
+
+  } else if (type === 'promptTemplate') {
+    const { templateId, name, body, description, trafficPercent } = requestData;
+
+    // Existing versions are addressed by id; a new version needs a name and a body, whose placeholders are
+    // checked against prompt-templates.ts
+    if (templateId !== undefined) {
+      if (!Number.isSafeInteger(templateId) || templateId < 1) {
+        errors.push('templateId must be a positive integer');
+      } else {
+        sanitized.templateId = templateId;
+      }
+    } else {
+      if (typeof name !== 'string' || !/^[a-z0-9][a-z0-9-]{0,49}$/.test(name)) {
+        errors.push('Name must be 1-50 lowercase letters, digits or hyphens');
+      } else {
+        sanitized.templateName = name;
+      }
+
+      if (typeof body !== 'string' || body.trim().length === 0) {
+        errors.push('Body is required and must be a non-empty string');
+      } else if (body.length > MAX_PROMPT_TEMPLATE_LENGTH) {
+        errors.push(`Body must be at most ${MAX_PROMPT_TEMPLATE_LENGTH} characters`);
+      } else {
+        sanitized.templateBody = body.trim();
+      }
+
+      if (description !== undefined && description !== null) {
+        if (typeof description !== 'string' || description.length > 500) {
+          errors.push('Description must be a string of at most 500 characters');
+        } else {
+          sanitized.description = description.trim();
+        }
+      }
+    }
+
+    if (trafficPercent !== undefined) {
+      if (!Number.isInteger(trafficPercent) || trafficPercent < 0 || trafficPercent > 100) {
+        errors.push('trafficPercent must be a whole number between 0 and 100');
+      } else {
+        sanitized.trafficPercent = trafficPercent;
+      }
+    }
+
+  } else if (type === 'comparisonVote') {
+    const { comparisonId, paragraphIndex, candidate } = requestData;
+
+    if (!Number.isSafeInteger(comparisonId) || comparisonId < 1) {
+      errors.push('comparisonId must be a positive integer');
+    } else {
+      sanitized.comparisonId = comparisonId;
+    }
+
+    // Only needed when voting
+    if (paragraphIndex !== undefined || candidate !== undefined) {
+      if (!Number.isSafeInteger(paragraphIndex) || paragraphIndex < 0) {
+        errors.push('paragraphIndex must be a non-negative integer');
+      } else {
+        sanitized.paragraphIndex = paragraphIndex;
+      }
+
+      if (!Number.isSafeInteger(candidate) || candidate < 0) {
+        errors.push('candidate must be a non-negative integer');
+      } else {
+        sanitized.candidate = candidate;
+      }
+    }
+
+  } else if (type === 'chapterSummary') {
+    const { sourceUrl, versionId, text, targetLanguage } = requestData;
+
+    // A cached version of a chapter, or the text of a translation the server doesn't have
+    if (versionId !== undefined) {
+      if (!Number.isSafeInteger(versionId) || versionId < 1) {
+        errors.push('versionId must be a positive integer');
+      } else {
+        sanitized.versionId = versionId;
+      }
+
+      const urlValidation = validateChapterKeyUrl(sourceUrl);
+      if (!urlValidation.isValid) {
+        errors.push(`Source URL: ${urlValidation.error}`);
+      } else {
+        sanitized.sourceUrl = urlValidation.sanitizedUrl || sourceUrl;
+        const extractedChapter = extractChapterNumber(sanitized.sourceUrl!);
+        if (!extractedChapter) {
+          errors.push('Could not extract chapter number from source URL');
+        } else {
+          sanitized.chapterNumber = extractedChapter;
+        }
+      }
+    } else {
+      const textValidation = validateTextContent(text);
+      if (!textValidation.isValid) {
+        errors.push(`Text: ${textValidation.error}`);
+      } else {
+        sanitized.text = text;
+      }
+
+      if (targetLanguage === undefined || targetLanguage === null || targetLanguage === '') {
+        sanitized.targetLanguage = DEFAULT_TARGET_LANGUAGE;
+      } else if (!isSupportedTargetLanguage(targetLanguage)) {
+        errors.push(`Target language must be one of: ${Object.keys(SUPPORTED_TARGET_LANGUAGES).join(', ')}`);
+      } else {
+        sanitized.targetLanguage = targetLanguage;
+      }
+    }
+
+  } else if (type === 'job') {
+    const { startUrl, chapterCount, targetLanguage } = requestData;
+
+    const urlValidation = validateSourceUrl(startUrl);
+    if (!urlValidation.isValid) {
+      errors.push(`Start URL: ${urlValidation.error}`);
+    } else {
+      sanitized.startUrl = urlValidation.sanitizedUrl;
+    }
+
+    if (!Number.isInteger(chapterCount) || chapterCount < 1 || chapterCount > MAX_JOB_CHAPTERS) {
+      errors.push(`Chapter count must be a whole number between 1 and ${MAX_JOB_CHAPTERS}`);
+    } else {
+      sanitized.chapterCount = chapterCount;
+    }
+
+    if (targetLanguage === undefined || targetLanguage === null || targetLanguage === '') {
+      sanitized.targetLanguage = DEFAULT_TARGET_LANGUAGE;
+    } else if (!isSupportedTargetLanguage(targetLanguage)) {
+      errors.push(`Target language must be one of: ${Object.keys(SUPPORTED_TARGET_LANGUAGES).join(', ')}`);
+    } else {
+      sanitized.targetLanguage = targetLanguage;
+    }
   }
 
   return {
@@ -331,6 +848,53 @@ export function logSecurityEvent(
   console.log(`[SECURITY] ${JSON.stringify(logEntry)}`);
 }
 
+/**
+ * Compare two strings in time that depends only on their lengths, not on where they differ
+ */
+export function constantTimeEqual(a: string, b: string): boolean {
+  let difference = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    difference |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+  }
+  return difference === 0;
+}
+
+/**
+ * Whether the request carries the operator's ADMIN_API_KEY as "Authorization: Bearer <key>". Always false
+ * when no key is configured.
+ */
+export function isAdminRequest(request: NextRequest): boolean {
+  const adminKey = process.env.ADMIN_API_KEY;
+  const token = request.headers.get('authorization')?.match(/^Bearer\s+(.+)$/i)?.[1]?.trim();
+  return !!adminKey && !!token && constantTimeEqual(token, adminKey);
+}
+
+/**
+ * The 401 (or 403 when no admin key is configured) response for operator-only actions; null for the operator
+ */
+export function adminRequiredResponse(request: NextRequest, ip: string, userAgent: string | undefined): NextResponse | null {
+  if (isAdminRequest(request)) return null;
+
+  if (!process.env.ADMIN_API_KEY) {
+    return NextResponse.json(
+      { error: 'Forbidden', details: ['This action is disabled until ADMIN_API_KEY is set'] },
+      { status: 403 }
+    );
+  }
+
+  logSecurityEvent('ADMIN_AUTH_FAILED', {
+    ip,
+    userAgent,
+    url: request.url,
+    reason: request.headers.has('authorization') ? 'Invalid admin key' : 'Missing admin key'
+  });
+
+  return NextResponse.json(
+    { error: 'Unauthorized', details: ['This action needs the admin key as a bearer token'] },
+    { status: 401 }
+  );
+}
+
 /**
  * Check if request appears to be from a bot
  */
@@ -1,10 +1,15 @@
 import { get, set, del, keys } from 'idb-keyval';
+import type { Footnote } from './footnotes';
 
 export interface ChapterData {
   novelUrl: string;
-  chapterTitle: string;
+  chapterTitle: string; // As in the source
+  translatedTitle?: string;
   translatedText: string;
+  footnotes?: Footnote[]; // Translator's footnotes referenced by "[^n]" markers in translatedText
   originalText: string;
+  versionId?: number; // Server cache version the translation came from, for corrections
+  summary?: string; // Spoiler-safe summary of translatedText, for "previously on" recaps
   audioBlob?: string; // base64 encoded audio
   imageUrl?: string; // base64 encoded image or URL
   timestamp: number;
@@ -14,8 +19,15 @@ export interface ChapterData {
 
 const STORE_KEY_PREFIX = 'chapter:';
 
+// A summary is kept for as long as the translation it was made from
 export async function saveChapter(data: ChapterData): Promise<void> {
   const key = `${STORE_KEY_PREFIX}${data.novelUrl}`;
+  if (data.summary === undefined) {
+    const existing = await get<ChapterData>(key);
+    if (existing?.summary && existing.translatedText === data.translatedText) {
+      data = { ...data, summary: existing.summary };
+    }
+  }
   await set(key, data);
 }
 
@@ -39,3 +51,40 @@ export async function getAllChapters(): Promise<ChapterData[]> {
   return chapters.filter((chapter): chapter is ChapterData => chapter !== undefined).sort((a, b) => b.timestamp - a.timestamp);
 }
 
+
+// The chapter number at the end of a URL and the part before it, e.g. '.../book/12' -> ['.../book/', 12]
+function splitChapterUrl(url: string): { novel: string; chapter: number } | null {
+  const match = url.match(/^(.*?)(\d+)\/?$/);
+  return match ? { novel: match[1], chapter: parseInt(match[2], 10) } : null;
+}
+
+/**
+ * Up to count saved chapters that come before this one in the story, oldest first. Follows the prevUrl
+ * links through the history, then falls back to saved chapters of the same novel with lower numbers.
+ */
+export async function getPreviousChapters(chapter: Pick<ChapterData, 'novelUrl' | 'prevUrl'>, count: number): Promise<ChapterData[]> {
+  const previous: ChapterData[] = [];
+  const seen = new Set([chapter.novelUrl]);
+
+  let prevUrl = chapter.prevUrl;
+  while (prevUrl && !seen.has(prevUrl) && previous.length < count) {
+    const saved = await getChapter(prevUrl);
+    if (!saved) break;
+    previous.push(saved);
+    seen.add(prevUrl);
+    prevUrl = saved.prevUrl;
+  }
+
+  const from = splitChapterUrl(previous.length > 0 ? previous[previous.length - 1].novelUrl : chapter.novelUrl);
+  if (from && previous.length < count) {
+    const earlier = (await getAllChapters())
+      .map(saved => ({ saved, position: splitChapterUrl(saved.novelUrl) }))
+      .filter(({ saved, position }) =>
+        !seen.has(saved.novelUrl) && position && position.novel === from.novel && position.chapter < from.chapter
+      )
+      .sort((a, b) => b.position!.chapter - a.position!.chapter);
+    previous.push(...earlier.slice(0, count - previous.length).map(({ saved }) => saved));
+  }
+
+  return previous.reverse();
+}
@@ -0,0 +1,292 @@
+import pool from './db';
+import { getLanguageName, type TargetLanguage } from './languages';
+import { getInstructionProviderChain, translateWithFallback } from './providers/registry';
+import { detectPromptInjection } from './prompt-injection';
+import { neutralizeSourceText } from './translation-prompt';
+import type { UsageTracker } from './usage';
+
+// Rolling "story so far" per novel and target language: a short summary plus the active characters and
+// their pronouns. Updated after each translated chapter and fed into the prompt of the next one, so
+// ambiguous names keep the same gender from chapter to chapter.
+
+export interface StoryCharacter {
+  name: string; // As rendered in the translation
+  pronouns: string; // e.g. 'he/him', 'she/her', 'they/them'
+  notes?: string;
+}
+
+export interface StoryContext {
+  novelKey: string;
+  targetLanguage: TargetLanguage;
+  summary: string;
+  characters: StoryCharacter[];
+  lastChapter: string; // Chapter the context was last updated from
+  updatedAt: number;
+}
+
+const MAX_SUMMARY_LENGTH = 1500;
+const MAX_CHARACTERS = 30;
+const MAX_CHAPTER_INPUT = 20000; // Characters of the translated chapter sent to the model
+
+let initialized = false;
+
+// Chapter numbers are strings ('12', '12.5', 'prologue'); only numeric ones can be ordered
+function chapterOrder(chapter: string): number | null {
+  const value = parseFloat(chapter);
+  return isNaN(value) ? null : value;
+}
+
+export class StoryContextDB {
+  private async ensureTable() {
+    if (initialized) return;
+
+    const query = `
+      CREATE TABLE IF NOT EXISTS novel_story_context (
+        id SERIAL PRIMARY KEY,
+        novel_key TEXT NOT NULL,
+        target_language VARCHAR(10) NOT NULL,
+        summary TEXT NOT NULL DEFAULT '',
+        characters JSONB NOT NULL DEFAULT '[]',
+        last_chapter VARCHAR(50) NOT NULL,
+        last_chapter_order REAL,
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(novel_key, target_language)
+      );
+    `;
+
+    try {
+      await pool.query(query);
+      initialized = true;
+    } catch (error) {
+      console.error('Failed to initialize novel_story_context table:', error);
+    }
+  }
+
+  async get(novelKey: string, targetLanguage: TargetLanguage): Promise<StoryContext | null> {
+    await this.ensureTable();
+
+    const query = `
+      SELECT novel_key, target_language, summary, characters, last_chapter, updated_at
+      FROM novel_story_context
+      WHERE novel_key = $1 AND target_language = $2
+    `;
+
+    try {
+      const result = await pool.query(query, [novelKey, targetLanguage]);
+      if (result.rows.length === 0) return null;
+
+      const row = result.rows[0];
+      return {
+        novelKey: row.novel_key,
+        targetLanguage: row.target_language,
+        summary: row.summary,
+        characters: row.characters || [],
+        lastChapter: row.last_chapter,
+        updatedAt: new Date(row.updated_at).getTime()
+      };
+    } catch (error) {
+      console.error('Story context get error:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Store a context, unless a later chapter has already been recorded (concurrent or out-of-order reads)
+   */
+  async save(context: Omit<StoryContext, 'updatedAt'>): Promise<void> {
+    await this.ensureTable();
+
+    const query = `
+      INSERT INTO novel_story_context (novel_key, target_language, summary, characters, last_chapter, last_chapter_order)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      ON CONFLICT (novel_key, target_language)
+      DO UPDATE SET
+        summary = EXCLUDED.summary,
+        characters = EXCLUDED.characters,
+        last_chapter = EXCLUDED.last_chapter,
+        last_chapter_order = EXCLUDED.last_chapter_order,
+        updated_at = CURRENT_TIMESTAMP
+      WHERE novel_story_context.last_chapter_order IS NULL
+        OR EXCLUDED.last_chapter_order IS NULL
+        OR novel_story_context.last_chapter_order < EXCLUDED.last_chapter_order
+    `;
+
+    try {
+      await pool.query(query, [
+        context.novelKey,
+        context.targetLanguage,
+        context.summary,
+        JSON.stringify(context.characters),
+        context.lastChapter,
+        chapterOrder(context.lastChapter)
+      ]);
+    } catch (error) {
+      console.error('Story context save error:', error);
+    }
+  }
+
+  async delete(novelKey: string, targetLanguage: TargetLanguage): Promise<boolean> {
+    await this.ensureTable();
+
+    try {
+      const result = await pool.query(
+        'DELETE FROM novel_story_context WHERE novel_key = $1 AND target_language = $2',
+        [novelKey, targetLanguage]
+      );
+      return (result.rowCount || 0) > 0;
+    } catch (error) {
+      console.error('Story context delete error:', error);
+      return false;
+    }
+  }
+}
+
+export const storyContextDB = new StoryContextDB();
+
+/**
+ * Whether the context was built from chapters before the given one. Reading an earlier chapter again
+ * should not leak later plot into its prompt; the character list is still safe to use.
+ */
+export function isContextBefore(context: StoryContext, chapter: string): boolean {
+  const last = chapterOrder(context.lastChapter);
+  const current = chapterOrder(chapter);
+  return last !== null && current !== null && last < current;
+}
+
+/**
+ * Render the story context as an additional section of the system instruction. The notes are written by a
+ * model from scraped chapters, so they go in a delimited data block like the source text.
+ */
+export function formatStoryContextForPrompt(context: StoryContext, includeSummary: boolean): string {
+  const sections: string[] = [];
+
+  if (includeSummary && context.summary) {
+    sections.push(`Story so far (for context only, do NOT translate it):\n${context.summary}`);
+  }
+
+  if (context.characters.length > 0) {
+    const lines = context.characters.map(character =>
+      `- ${character.name}: ${character.pronouns}${character.notes ? ` (${character.notes})` : ''}`
+    );
+    sections.push(`Characters:\n${lines.join('\n')}`);
+  }
+
+  if (sections.length === 0) return '';
+
+  return `
+
+Story context: Keep the names and pronouns of these characters consistent with earlier chapters.
+<story_context>
+${neutralizeSourceText(sections.join('\n\n'))}
+</story_context>`;
+}
+
+/**
+ * The story context section for the system instruction of a chapter, empty when there is none yet
+ */
+export async function loadStoryContextForPrompt(
+  novelKey: string,
+  chapter: string,
+  targetLanguage: TargetLanguage
+): Promise<string> {
+  const context = await storyContextDB.get(novelKey, targetLanguage);
+  return context ? formatStoryContextForPrompt(context, isContextBefore(context, chapter)) : '';
+}
+
+function buildUpdateInstruction(targetLanguage: TargetLanguage): string {
+  return `You maintain the "story so far" notes for a serialized novel that is being translated into ${getLanguageName(targetLanguage)}, one chapter at a time.
+
+You receive the current notes (JSON) and the newest translated chapter. Return updated notes as JSON only, with no code fences or commentary, in exactly this shape:
+{"summary": string, "characters": [{"name": string, "pronouns": string, "notes": string}]}
+
+Rules:
+1. summary: at most 150 words in ${getLanguageName(targetLanguage)}, covering the ongoing plot threads up to the end of the newest chapter. Fold older events into a sentence or two.
+2. characters: the characters active in recent chapters, at most ${MAX_CHARACTERS}. Use names exactly as written in the translation. pronouns is e.g. "he/him", "she/her", "they/them"; keep the pronouns from the current notes unless the chapter clearly contradicts them. notes is a few words (role, relationship), may be empty.
+3. Drop characters that have not appeared for a long time when the list is full.`;
+}
+
+// Notes are fed into every later prompt, so nothing that reads like an instruction to a model is kept;
+// a flagged summary leaves the previous one in place
+function isClean(text: string): boolean {
+  return detectPromptInjection(text).length === 0;
+}
+
+function parseContextResponse(text: string, previousSummary: string): { summary: string; characters: StoryCharacter[] } | null {
+  const json = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+  try {
+    const data = JSON.parse(json);
+    if (typeof data?.summary !== 'string' || !Array.isArray(data?.characters)) return null;
+
+    const characters = data.characters
+      .filter((c: any) => typeof c?.name === 'string' && c.name.trim() && typeof c?.pronouns === 'string')
+      .filter((c: any) => isClean(`${c.name} ${c.pronouns}`))
+      .slice(0, MAX_CHARACTERS)
+      .map((c: any): StoryCharacter => ({
+        name: c.name.trim().slice(0, 100),
+        pronouns: c.pronouns.trim().slice(0, 30),
+        ...(typeof c.notes === 'string' && c.notes.trim() && isClean(c.notes) ? { notes: c.notes.trim().slice(0, 200) } : {})
+      }));
+
+    const summary = data.summary.trim().slice(0, MAX_SUMMARY_LENGTH);
+    return { summary: isClean(summary) ? summary : previousSummary, characters };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Fold a newly translated chapter into the novel's story context.
+ * Skipped when the context already covers this chapter or a later one, or no instruction-following model is configured.
+ */
+export async function updateStoryContext(
+  novelKey: string,
+  chapter: string,
+  targetLanguage: TargetLanguage,
+  translatedText: string,
+  usage?: UsageTracker
+): Promise<void> {
+  const existing = await storyContextDB.get(novelKey, targetLanguage);
+  if (existing) {
+    const last = chapterOrder(existing.lastChapter);
+    const current = chapterOrder(chapter);
+    if (existing.lastChapter === chapter || (last !== null && current !== null && last >= current)) return;
+  }
+
+  const chain = getInstructionProviderChain();
+  if (chain.length === 0) return;
+
+  const current = JSON.stringify({ summary: existing?.summary || '', characters: existing?.characters || [] });
+  const result = await translateWithFallback(chain, {
+    text: `Current notes:\n${current}\n\nNewest chapter (${chapter}):\n${translatedText.slice(0, MAX_CHAPTER_INPUT)}`,
+    systemInstruction: buildUpdateInstruction(targetLanguage),
+    targetLanguage,
+    instruction: true
+  }, { maxAttempts: 1, onUsage: usage?.forPurpose('story-context') });
+
+  // Usually finishes after the scheduling request has flushed its usage, so record this call itself
+  await usage?.flush();
+
+  const updated = parseContextResponse(result.text, existing?.summary || '');
+  if (!updated) {
+    console.error(`Story context update for ${novelKey} returned invalid JSON from ${result.model}`);
+    return;
+  }
+
+  await storyContextDB.save({ novelKey, targetLanguage, lastChapter: chapter, ...updated });
+}
+
+/**
+ * Run updateStoryContext without holding up the response to the reader
+ */
+export function scheduleStoryContextUpdate(
+  novelKey: string,
+  chapter: string,
+  targetLanguage: TargetLanguage,
+  translatedText: string,
+  usage?: UsageTracker
+): void {
+  updateStoryContext(novelKey, chapter, targetLanguage, translatedText, usage).catch(error => {
+    console.error(`Story context update failed for ${novelKey}:`, error);
+  });
+}
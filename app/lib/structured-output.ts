@@ -0,0 +1,157 @@
+import { splitMarkdownBlocks } from './chunker';
+
+// Structured translation output: { title, paragraphs[], notes[] } with every paragraph keyed to the index
+// of its source block (see splitMarkdownBlocks). Gemini and Vertex enforce the shape with a response
+// schema; other providers get numbered paragraphs and their output is mapped back by marker or position.
+
+export interface StructuredParagraph {
+  index: number; // Source block index
+  text: string; // Translated Markdown
+}
+
+export interface TranslatorNote {
+  index: number | null; // Source block the note refers to, null for the chapter as a whole
+  text: string;
+}
+
+export interface StructuredTranslation {
+  title: string; // Translated chapter title, empty when the chapter has none
+  paragraphs: StructuredParagraph[];
+  notes: TranslatorNote[];
+}
+
+export type OutputFormat = 'markdown' | 'structured';
+
+// Each SDK spells the schema types differently ('object' vs 'OBJECT')
+export interface SchemaTypes<T> {
+  object: T;
+  array: T;
+  string: T;
+  integer: T;
+}
+
+export function buildTranslationSchema<T>(types: SchemaTypes<T>) {
+  return {
+    type: types.object,
+    properties: {
+      title: { type: types.string },
+      paragraphs: {
+        type: types.array,
+        items: {
+          type: types.object,
+          properties: { index: { type: types.integer }, text: { type: types.string } },
+          required: ['index', 'text']
+        }
+      },
+      notes: {
+        type: types.array,
+        items: {
+          type: types.object,
+          properties: { index: { type: types.integer, nullable: true }, text: { type: types.string } },
+          required: ['text']
+        }
+      }
+    },
+    required: ['title', 'paragraphs', 'notes']
+  };
+}
+
+/**
+ * Prefix each block with its source index, e.g. "[12] ..."
+ */
+export function numberSourceBlocks(markdown: string, firstIndex: number): { text: string; indices: number[] } {
+  const blocks = splitMarkdownBlocks(markdown);
+  const indices = blocks.map((_, i) => firstIndex + i);
+  return { text: blocks.map((block, i) => `[${indices[i]}] ${block}`).join('\n\n'), indices };
+}
+
+const MARKER_REGEX = /^\[(\d+)\]\s*/;
+
+function parseJson(text: string): any {
+  const cleaned = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  try {
+    return JSON.parse(cleaned);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read a chunk's output back into paragraphs keyed by the expected source indices. JSON output is used
+ * as is; plain text is matched by its "[n]" markers, or by position when the markers were lost.
+ */
+export function parseStructuredChunk(output: string, indices: number[]): StructuredTranslation & { missing: number[] } {
+  const expected = new Set(indices);
+  const json = parseJson(output);
+
+  let title = '';
+  let notes: TranslatorNote[] = [];
+  const byIndex = new Map<number, string>();
+
+  if (json && Array.isArray(json.paragraphs)) {
+    title = typeof json.title === 'string' ? json.title.trim() : '';
+    for (const paragraph of json.paragraphs) {
+      if (Number.isInteger(paragraph?.index) && expected.has(paragraph.index) && typeof paragraph.text === 'string') {
+        byIndex.set(paragraph.index, paragraph.text.trim());
+      }
+    }
+    notes = (Array.isArray(json.notes) ? json.notes : [])
+      .filter((note: any) => typeof note?.text === 'string' && note.text.trim().length > 0)
+      .map((note: any) => ({
+        index: Number.isInteger(note.index) && expected.has(note.index) ? note.index : null,
+        text: note.text.trim()
+      }));
+  } else {
+    const blocks = splitMarkdownBlocks(output);
+    const marked = blocks.filter(block => MARKER_REGEX.test(block));
+    if (marked.length > 0) {
+      for (const block of marked) {
+        const index = parseInt(block.match(MARKER_REGEX)![1], 10);
+        if (expected.has(index)) byIndex.set(index, block.replace(MARKER_REGEX, '').trim());
+      }
+    } else if (blocks.length === indices.length) {
+      blocks.forEach((block, i) => byIndex.set(indices[i], block.trim()));
+    }
+  }
+
+  return {
+    title,
+    paragraphs: indices.filter(index => byIndex.has(index)).map(index => ({ index, text: byIndex.get(index)! })),
+    notes,
+    missing: indices.filter(index => !byIndex.has(index))
+  };
+}
+
+/**
+ * Combine chunk results in order; the title comes from the first chunk that has one
+ */
+export function mergeStructuredChunks(chunks: StructuredTranslation[]): StructuredTranslation {
+  return {
+    title: chunks.find(chunk => chunk.title)?.title || '',
+    paragraphs: chunks.flatMap(chunk => chunk.paragraphs),
+    notes: chunks.flatMap(chunk => chunk.notes)
+  };
+}
+
+export function structuredToMarkdown(structured: StructuredTranslation): string {
+  return structured.paragraphs.map(paragraph => paragraph.text).join('\n\n');
+}
+
+/**
+ * The translated counterpart of the source's first heading, for Markdown output: the block at the same
+ * index when it is a heading, otherwise the first heading of the translation
+ */
+export function findTranslatedTitle(originalMarkdown: string, translatedMarkdown: string): string | null {
+  const isHeading = (block: string) => /^#{1,6}\s/.test(block);
+  const stripHeading = (block: string) => block.replace(/^#{1,6}\s+/, '').trim();
+
+  const sourceIndex = splitMarkdownBlocks(originalMarkdown).findIndex(isHeading);
+  if (sourceIndex < 0) return null;
+
+  const translatedBlocks = splitMarkdownBlocks(translatedMarkdown);
+  const aligned = translatedBlocks[sourceIndex];
+  if (aligned && isHeading(aligned)) return stripHeading(aligned);
+
+  const firstHeading = translatedBlocks.find(isHeading);
+  return firstHeading ? stripHeading(firstHeading) : null;
+}
@@ -0,0 +1,254 @@
+import pool from './db';
+import crypto from 'crypto';
+import { validateStylePresetId } from './security';
+import { neutralizeSourceText } from './translation-prompt';
+
+// Named translation styles: how honorifics, romanization, register, profanity and units are handled.
+// A preset is chosen per request or saved per novel, and its identity is part of the translation cache key
+// so the same chapter can be cached once per style.
+
+export type HonorificStyle = 'keep' | 'translate' | 'localize';
+export type RomanizationScheme = 'hanyu-pinyin' | 'wade-giles' | 'revised-romanization' | 'mccune-reischauer' | 'hepburn';
+export type Register = 'formal' | 'neutral' | 'casual';
+export type ProfanityLevel = 'uncensored' | 'moderate' | 'clean';
+export type MeasurementUnits = 'original' | 'metric' | 'imperial';
+
+export interface StyleSettings {
+  honorifics?: HonorificStyle;
+  romanization?: RomanizationScheme;
+  register?: Register;
+  profanity?: ProfanityLevel;
+  units?: MeasurementUnits;
+}
+
+export interface StylePreset extends StyleSettings {
+  id: string;
+  name: string;
+  description?: string;
+}
+
+export const DEFAULT_STYLE_PRESET = 'default';
+
+const BUILT_IN_PRESETS: StylePreset[] = [
+  {
+    id: DEFAULT_STYLE_PRESET,
+    name: 'Default',
+    description: 'The translator decides case by case'
+  },
+  {
+    id: 'cultivation-romanized',
+    name: 'Cultivation (romanized)',
+    description: 'Shixiong, Shizun, li and zhang',
+    honorifics: 'keep',
+    romanization: 'hanyu-pinyin',
+    units: 'original'
+  },
+  {
+    id: 'cultivation-translated',
+    name: 'Cultivation (translated)',
+    description: 'Senior Brother, Master, li and zhang',
+    honorifics: 'translate',
+    romanization: 'hanyu-pinyin',
+    units: 'original'
+  },
+  {
+    id: 'korean-honorifics',
+    name: 'Korean honorifics',
+    description: 'Hyung, -nim and -ssi kept as in the original',
+    honorifics: 'keep',
+    romanization: 'revised-romanization'
+  },
+  {
+    id: 'localized',
+    name: 'Localized',
+    description: 'Honorifics and units adapted for Western readers',
+    honorifics: 'localize',
+    register: 'neutral',
+    units: 'metric'
+  },
+  {
+    id: 'family-friendly',
+    name: 'Family friendly',
+    description: 'Profanity toned down',
+    profanity: 'clean'
+  }
+];
+
+const STYLE_OPTIONS: { [K in keyof StyleSettings]-?: readonly NonNullable<StyleSettings[K]>[] } = {
+  honorifics: ['keep', 'translate', 'localize'],
+  romanization: ['hanyu-pinyin', 'wade-giles', 'revised-romanization', 'mccune-reischauer', 'hepburn'],
+  register: ['formal', 'neutral', 'casual'],
+  profanity: ['uncensored', 'moderate', 'clean'],
+  units: ['original', 'metric', 'imperial']
+};
+
+function isValidPreset(preset: any): preset is StylePreset {
+  if (!preset || !validateStylePresetId(preset.id).isValid) return false;
+  if (typeof preset.name !== 'string' || preset.name.trim().length === 0) return false;
+  return (Object.keys(STYLE_OPTIONS) as Array<keyof StyleSettings>).every(key =>
+    preset[key] === undefined || (STYLE_OPTIONS[key] as readonly string[]).includes(preset[key])
+  );
+}
+
+/**
+ * Built-in presets, extended or overridden by STYLE_PRESETS (a JSON array of presets)
+ */
+export function getStylePresets(): StylePreset[] {
+  const presets = new Map(BUILT_IN_PRESETS.map(preset => [preset.id, preset]));
+
+  if (process.env.STYLE_PRESETS) {
+    try {
+      const configured = JSON.parse(process.env.STYLE_PRESETS);
+      for (const preset of Array.isArray(configured) ? configured : []) {
+        // The default preset stays empty so rows cached before presets existed keep matching it
+        if (isValidPreset(preset) && preset.id !== DEFAULT_STYLE_PRESET) presets.set(preset.id, preset);
+        else console.error(`Ignoring invalid style preset in STYLE_PRESETS: ${JSON.stringify(preset)}`);
+      }
+    } catch {
+      console.error('Ignoring invalid STYLE_PRESETS');
+    }
+  }
+
+  return Array.from(presets.values());
+}
+
+export function getStylePreset(id: string): StylePreset | null {
+  return getStylePresets().find(preset => preset.id === id) || null;
+}
+
+/**
+ * Cache key component: the preset id plus a hash of its settings, so editing a preset doesn't serve
+ * translations made with its old settings
+ */
+export function getStyleIdentity(preset: StylePreset): string {
+  if (preset.id === DEFAULT_STYLE_PRESET) return DEFAULT_STYLE_PRESET;
+
+  const settings = (Object.keys(STYLE_OPTIONS) as Array<keyof StyleSettings>).map(key => `${key}=${preset[key] || ''}`);
+  const hash = crypto.createHash('sha256').update(settings.join(';')).digest('hex').slice(0, 8);
+  return `${preset.id}:${hash}`;
+}
+
+const HONORIFIC_INSTRUCTIONS: Record<HonorificStyle, string> = {
+  keep: 'Keep honorifics and forms of address romanized as in the original (e.g. "Shixiong", "Shizun", "hyung", "-nim", "-sama") instead of translating them.',
+  translate: 'Translate honorifics and forms of address into their closest equivalent (e.g. "Senior Brother", "Master", "Elder Brother").',
+  localize: 'Adapt honorifics and forms of address the way a native novel would address people, dropping those with no natural equivalent.'
+};
+
+const ROMANIZATION_INSTRUCTIONS: Record<RomanizationScheme, string> = {
+  'hanyu-pinyin': 'Romanize Chinese names and terms in Hanyu Pinyin without tone marks.',
+  'wade-giles': 'Romanize Chinese names and terms in Wade-Giles.',
+  'revised-romanization': 'Romanize Korean names and terms in the Revised Romanization of Korean.',
+  'mccune-reischauer': 'Romanize Korean names and terms in McCune-Reischauer.',
+  hepburn: 'Romanize Japanese names and terms in Hepburn.'
+};
+
+const REGISTER_INSTRUCTIONS: Record<Register, string> = {
+  formal: 'Use a formal, literary register for narration and dialogue alike.',
+  neutral: 'Use a neutral, contemporary register.',
+  casual: 'Use a casual, conversational register, especially in dialogue.'
+};
+
+const PROFANITY_INSTRUCTIONS: Record<ProfanityLevel, string> = {
+  uncensored: 'Render profanity and insults with their full force.',
+  moderate: 'Soften strong profanity while keeping the tone of the scene.',
+  clean: 'Replace profanity with mild, non-offensive expressions.'
+};
+
+const UNIT_INSTRUCTIONS: Record<MeasurementUnits, string> = {
+  original: 'Keep traditional units of measurement (li, zhang, jin, shichen, etc.) as in the original.',
+  metric: 'Convert units of measurement to metric equivalents.',
+  imperial: 'Convert units of measurement to imperial equivalents.'
+};
+
+/**
+ * Render a preset as an additional section of the system instruction, delimited like the glossary
+ */
+export function formatStyleForPrompt(preset: StylePreset): string {
+  const lines = [
+    preset.honorifics && HONORIFIC_INSTRUCTIONS[preset.honorifics],
+    preset.romanization && ROMANIZATION_INSTRUCTIONS[preset.romanization],
+    preset.register && REGISTER_INSTRUCTIONS[preset.register],
+    preset.profanity && PROFANITY_INSTRUCTIONS[preset.profanity],
+    preset.units && UNIT_INSTRUCTIONS[preset.units]
+  ].filter(Boolean);
+
+  if (lines.length === 0) return '';
+
+  return `
+
+Style: Follow these conventions throughout; glossary entries still take precedence:
+<style_guide>
+${neutralizeSourceText(lines.map(line => `- ${line}`).join('\n'))}
+</style_guide>`;
+}
+
+let initialized = false;
+
+export class NovelStyleDB {
+
+  private async ensureTable() {
+    if (initialized) return;
+
+    const query = `
+      CREATE TABLE IF NOT EXISTS novel_styles (
+        novel_key VARCHAR(512) PRIMARY KEY,
+        preset_id VARCHAR(50) NOT NULL,
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      );
+    `;
+
+    try {
+      await pool.query(query);
+      initialized = true;
+    } catch (error) {
+      console.error('Failed to initialize novel_styles table:', error);
+    }
+  }
+
+  async getPresetId(novelKey: string): Promise<string | null> {
+    await this.ensureTable();
+
+    try {
+      const result = await pool.query('SELECT preset_id FROM novel_styles WHERE novel_key = $1', [novelKey]);
+      return result.rows[0]?.preset_id || null;
+    } catch (error) {
+      console.error('Database novel style get error:', error);
+      return null;
+    }
+  }
+
+  async setPresetId(novelKey: string, presetId: string): Promise<void> {
+    await this.ensureTable();
+
+    await pool.query(`
+      INSERT INTO novel_styles (novel_key, preset_id)
+      VALUES ($1, $2)
+      ON CONFLICT (novel_key)
+      DO UPDATE SET preset_id = EXCLUDED.preset_id, updated_at = CURRENT_TIMESTAMP
+    `, [novelKey, presetId]);
+  }
+
+  async clear(novelKey: string): Promise<boolean> {
+    await this.ensureTable();
+
+    const result = await pool.query('DELETE FROM novel_styles WHERE novel_key = $1', [novelKey]);
+    return (result.rowCount || 0) > 0;
+  }
+}
+
+export const novelStyleDB = new NovelStyleDB();
+
+/**
+ * The preset for a translation: the one requested, else the one saved for the novel, else the default
+ */
+export async function resolveStylePreset(requestedId: string | undefined, novelKey: string | null): Promise<StylePreset> {
+  const presetId = requestedId || (novelKey ? await novelStyleDB.getPresetId(novelKey) : null);
+  if (!presetId) return getStylePreset(DEFAULT_STYLE_PRESET)!;
+
+  const preset = getStylePreset(presetId);
+  if (!preset) {
+    console.warn(`Unknown style preset "${presetId}", using the default`);
+    return getStylePreset(DEFAULT_STYLE_PRESET)!;
+  }
+  return preset;
+}
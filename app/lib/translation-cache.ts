@@ -1,13 +1,81 @@
 import pool from './db';
 import crypto from 'crypto';
+import type { PoolClient } from 'pg';
+import { DEFAULT_TARGET_LANGUAGE, type TargetLanguage } from './languages';
+import type { ConfidenceReport } from './confidence';
+import type { SafetyPassage } from './providers/safety';
+import type { StructuredTranslation } from './structured-output';
+import type { Footnote } from './footnotes';
+import { DEFAULT_STYLE_PRESET } from './style-presets';
+import { alignParagraphs, type PreviousVersion, type RevisionInfo } from './revisions';
 
 export interface CachedTranslation {
   translatedText: string;
   originalText: string;
   model: string;
+  targetLanguage: TargetLanguage;
+  confidence: ConfidenceReport | null; // null for rows cached before scoring existed
+  safetyPassages: SafetyPassage[];
+  structured: StructuredTranslation | null; // Set when the translation was made in structured mode
+  footnotes: Footnote[] | null; // Set (possibly empty) when translator's footnotes were requested
+  revision: number; // Counts up each time the source chapter changed and was retranslated incrementally
+  versionId: number;
+  pinned: boolean;
   timestamp: number;
 }
 
+// Stored alongside a translation
+export interface TranslationMetadata {
+  confidence?: ConfidenceReport;
+  safetyPassages?: SafetyPassage[];
+  structured?: StructuredTranslation;
+  footnotes?: Footnote[];
+  revision?: RevisionInfo; // Set when the translation was built from an earlier version of the chapter
+  promptTemplateId?: number | null; // null for the built-in template
+  fidelityFailed?: boolean; // The structural checks suspected omitted content
+}
+
+// One translation of a chapter; every retranslation adds a version instead of replacing the last one
+export interface TranslationVersion {
+  id: number;
+  targetLanguage: TargetLanguage;
+  stylePreset: string; // Style identity, see getStyleIdentity
+  originalTextHash: string; // Versions of a revised chapter have different source hashes
+  model: string;
+  confidence: number | null;
+  revision: number;
+  structured: boolean;
+  footnotes: boolean;
+  promptTemplateId: number | null; // null for the built-in template and rows cached before templates existed
+  pinned: boolean;
+  timestamp: number;
+}
+
+export interface TranslationVersionText extends TranslationVersion {
+  translatedText: string;
+  originalText: string | null; // null for rows cached before the source text was stored
+  summary: string | null; // Spoiler-safe chapter summary, once one was asked for (see chapter-summaries.ts)
+}
+
+export interface LowConfidenceTranslation {
+  sourceUrl: string | null;
+  chapterNumber: string;
+  targetLanguage: TargetLanguage;
+  model: string;
+  confidence: number;
+  timestamp: number;
+}
+
+// Translations made with one prompt template (null for the built-in one)
+export interface PromptTemplateStats {
+  promptTemplateId: number | null;
+  translations: number;
+  averageConfidence: number | null;
+  lowConfidence: number; // Below the given threshold
+  fidelityChecked: number;
+  fidelityFailures: number;
+}
+
 let initialized = false;
 
 export class TranslationCacheDB {
@@ -23,11 +91,73 @@ export class TranslationCacheDB {
         original_text_hash VARCHAR(64) NOT NULL,
         translated_text TEXT NOT NULL,
         original_text TEXT,
-        model VARCHAR(50),
-        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
-        UNIQUE(source_url_hash, chapter_number, original_text_hash)
+        model TEXT,
+        target_language VARCHAR(10) NOT NULL DEFAULT 'en',
+        style_preset VARCHAR(64) NOT NULL DEFAULT 'default',
+        source_url TEXT,
+        confidence REAL,
+        confidence_details JSONB,
+        safety_passages JSONB,
+        structured_output JSONB,
+        footnotes JSONB,
+        paragraph_alignment JSONB,
+        revision INTEGER NOT NULL DEFAULT 1,
+        revised_from VARCHAR(64),
+        revision_changes JSONB,
+        pinned BOOLEAN NOT NULL DEFAULT FALSE,
+        prompt_template_id INTEGER,
+        fidelity_failed BOOLEAN,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
       );
       CREATE INDEX IF NOT EXISTS idx_translations_lookup ON translations(source_url_hash, chapter_number);
+
+      -- Migrate tables created before translations were keyed by target language
+      ALTER TABLE translations ADD COLUMN IF NOT EXISTS target_language VARCHAR(10) NOT NULL DEFAULT 'en';
+      DO $$
+      DECLARE con record;
+      BEGIN
+        FOR con IN
+          SELECT conname FROM pg_constraint
+          WHERE conrelid = 'translations'::regclass AND contype = 'u' AND array_length(conkey, 1) = 3
+        LOOP
+          EXECUTE format('ALTER TABLE translations DROP CONSTRAINT %I', con.conname);
+        END LOOP;
+      END $$;
+
+      -- Migrate tables created before style presets; existing rows were translated in the default style
+      ALTER TABLE translations ADD COLUMN IF NOT EXISTS style_preset VARCHAR(64) NOT NULL DEFAULT 'default';
+      DROP INDEX IF EXISTS idx_translations_unique_language;
+
+      -- Migrate tables created before confidence scoring
+      ALTER TABLE translations ADD COLUMN IF NOT EXISTS source_url TEXT;
+      ALTER TABLE translations ADD COLUMN IF NOT EXISTS confidence REAL;
+      ALTER TABLE translations ADD COLUMN IF NOT EXISTS confidence_details JSONB;
+      CREATE INDEX IF NOT EXISTS idx_translations_confidence ON translations(confidence);
+      ALTER TABLE translations ADD COLUMN IF NOT EXISTS safety_passages JSONB;
+      ALTER TABLE translations ADD COLUMN IF NOT EXISTS structured_output JSONB;
+      ALTER TABLE translations ADD COLUMN IF NOT EXISTS footnotes JSONB;
+
+      -- Migrate tables created before incremental retranslation
+      ALTER TABLE translations ADD COLUMN IF NOT EXISTS paragraph_alignment JSONB;
+      ALTER TABLE translations ADD COLUMN IF NOT EXISTS revision INTEGER NOT NULL DEFAULT 1;
+      ALTER TABLE translations ADD COLUMN IF NOT EXISTS revised_from VARCHAR(64);
+      ALTER TABLE translations ADD COLUMN IF NOT EXISTS revision_changes JSONB;
+      CREATE INDEX IF NOT EXISTS idx_translations_versions
+        ON translations(source_url_hash, chapter_number, target_language, style_preset, created_at DESC);
+
+      -- Migrate tables created before version history: retranslations used to overwrite the cached row
+      DROP INDEX IF EXISTS idx_translations_unique_style;
+      ALTER TABLE translations ADD COLUMN IF NOT EXISTS pinned BOOLEAN NOT NULL DEFAULT FALSE;
+
+      -- Migrate tables created before prompt templates
+      ALTER TABLE translations ADD COLUMN IF NOT EXISTS prompt_template_id INTEGER;
+      ALTER TABLE translations ADD COLUMN IF NOT EXISTS fidelity_failed BOOLEAN;
+
+      -- Migrate tables created before chapter summaries
+      ALTER TABLE translations ADD COLUMN IF NOT EXISTS summary TEXT;
+
+      -- Model names from OpenAI-compatible servers (often full repository paths) can exceed 50 characters
+      ALTER TABLE translations ALTER COLUMN model TYPE TEXT;
     `;
     
     try {
@@ -44,29 +174,50 @@ export class TranslationCacheDB {
     return crypto.createHash('sha256').update(text).digest('hex');
   }
 
-  async get(sourceUrl: string, chapterNumber: string, originalText: string): Promise<CachedTranslation | null> {
+  /**
+   * The pinned version of the chapter if there is one for this source text, else the latest
+   */
+  async get(
+    sourceUrl: string,
+    chapterNumber: string,
+    originalText: string,
+    targetLanguage: TargetLanguage = DEFAULT_TARGET_LANGUAGE,
+    styleIdentity: string = DEFAULT_STYLE_PRESET // See getStyleIdentity
+  ): Promise<CachedTranslation | null> {
     await this.ensureTable();
     
     const urlHash = this.hash(sourceUrl);
     const textHash = this.hash(originalText);
     
     const query = `
-      SELECT translated_text, original_text, model, created_at
+      SELECT id, translated_text, original_text, model, target_language, confidence_details, safety_passages,
+        structured_output, footnotes, revision, pinned, created_at
       FROM translations
       WHERE source_url_hash = $1 
         AND chapter_number = $2 
         AND original_text_hash = $3
+        AND target_language = $4
+        AND style_preset = $5
+      ORDER BY pinned DESC, created_at DESC
       LIMIT 1
     `;
     
     try {
-      const result = await pool.query(query, [urlHash, chapterNumber, textHash]);
+      const result = await pool.query(query, [urlHash, chapterNumber, textHash, targetLanguage, styleIdentity]);
       if (result.rows.length > 0) {
         const row = result.rows[0];
         return {
           translatedText: row.translated_text,
           originalText: row.original_text || originalText,
           model: row.model,
+          targetLanguage: row.target_language,
+          confidence: row.confidence_details || null,
+          safetyPassages: row.safety_passages || [],
+          structured: row.structured_output || null,
+          footnotes: row.footnotes || null,
+          revision: row.revision || 1,
+          versionId: row.id,
+          pinned: row.pinned,
           timestamp: new Date(row.created_at).getTime()
         };
       }
@@ -78,28 +229,309 @@ export class TranslationCacheDB {
     return null;
   }
 
-  async set(sourceUrl: string, chapterNumber: string, originalText: string, translatedText: string, model: string): Promise<void> {
+  async set(
+    sourceUrl: string,
+    chapterNumber: string,
+    originalText: string,
+    translatedText: string,
+    model: string,
+    targetLanguage: TargetLanguage = DEFAULT_TARGET_LANGUAGE,
+    styleIdentity: string = DEFAULT_STYLE_PRESET,
+    metadata: TranslationMetadata = {},
+    client: Pick<PoolClient, 'query'> = pool
+  ): Promise<number | null> {
+    const { confidence, safetyPassages, structured, footnotes, revision, promptTemplateId, fidelityFailed } = metadata;
+    const alignment = alignParagraphs(originalText, translatedText);
     await this.ensureTable();
 
     const urlHash = this.hash(sourceUrl);
     const textHash = this.hash(originalText);
     
     const query = `
-      INSERT INTO translations (source_url_hash, chapter_number, original_text_hash, translated_text, original_text, model)
-      VALUES ($1, $2, $3, $4, $5, $6)
-      ON CONFLICT (source_url_hash, chapter_number, original_text_hash) 
-      DO UPDATE SET 
-        translated_text = EXCLUDED.translated_text,
-        model = EXCLUDED.model,
-        created_at = CURRENT_TIMESTAMP
+      INSERT INTO translations (
+        source_url_hash, chapter_number, original_text_hash, translated_text, original_text, model, target_language,
+        style_preset, source_url, confidence, confidence_details, safety_passages, structured_output, footnotes,
+        paragraph_alignment, revision, revised_from, revision_changes, prompt_template_id, fidelity_failed
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20)
+      RETURNING id
     `;
     
     try {
-      await pool.query(query, [urlHash, chapterNumber, textHash, translatedText, originalText, model]);
+      const result = await client.query(query, [
+        urlHash, chapterNumber, textHash, translatedText, originalText, model, targetLanguage,
+        styleIdentity, sourceUrl, confidence?.score ?? null, confidence ? JSON.stringify(confidence) : null,
+        safetyPassages && safetyPassages.length > 0 ? JSON.stringify(safetyPassages) : null,
+        structured ? JSON.stringify(structured) : null,
+        footnotes ? JSON.stringify(footnotes) : null,
+        alignment ? JSON.stringify(alignment) : null,
+        revision?.revision ?? 1,
+        revision?.revisedFrom ?? null,
+        revision ? JSON.stringify(revision) : null,
+        promptTemplateId ?? null,
+        fidelityFailed ?? null
+      ]);
+      return result.rows[0].id;
     } catch (error) {
       console.error('Database cache set error:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Every version of a chapter, newest first
+   */
+  async listVersions(sourceUrl: string, chapterNumber: string, targetLanguage?: TargetLanguage): Promise<TranslationVersion[]> {
+    await this.ensureTable();
+
+    const query = `
+      SELECT id, target_language, style_preset, original_text_hash, model, confidence, revision,
+        structured_output IS NOT NULL AS structured, footnotes IS NOT NULL AS footnotes, prompt_template_id,
+        pinned, created_at
+      FROM translations
+      WHERE source_url_hash = $1
+        AND chapter_number = $2
+        AND ($3::VARCHAR IS NULL OR target_language = $3)
+      ORDER BY created_at DESC
+    `;
+
+    try {
+      const result = await pool.query(query, [this.hash(sourceUrl), chapterNumber, targetLanguage ?? null]);
+      return result.rows.map(row => this.toVersion(row));
+    } catch (error) {
+      console.error('Database version list error:', error);
+      return [];
+    }
+  }
+
+  /**
+   * One version of a chapter with its text; null when the id belongs to another chapter
+   */
+  async getVersion(sourceUrl: string, chapterNumber: string, id: number): Promise<TranslationVersionText | null> {
+    await this.ensureTable();
+
+    const query = `
+      SELECT id, target_language, style_preset, original_text_hash, model, confidence, revision,
+        structured_output IS NOT NULL AS structured, footnotes IS NOT NULL AS footnotes, prompt_template_id,
+        pinned, created_at, translated_text, original_text, summary
+      FROM translations
+      WHERE id = $1 AND source_url_hash = $2 AND chapter_number = $3
+    `;
+
+    const result = await pool.query(query, [id, this.hash(sourceUrl), chapterNumber]);
+    const row = result.rows[0];
+    return row
+      ? { ...this.toVersion(row), translatedText: row.translated_text, originalText: row.original_text, summary: row.summary }
+      : null;
+  }
+
+  /**
+   * Store the summary of a version next to its translation
+   */
+  async setSummary(id: number, summary: string | null): Promise<void> {
+    await this.ensureTable();
+
+    await pool.query('UPDATE translations SET summary = $2 WHERE id = $1', [id, summary]);
+  }
+
+  /**
+   * Make a version the one served for its chapter, language and style; false when it doesn't exist. Pass a
+   * client to pin inside its transaction.
+   */
+  async pinVersion(
+    sourceUrl: string,
+    chapterNumber: string,
+    id: number,
+    client: Pick<PoolClient, 'query'> = pool
+  ): Promise<boolean> {
+    await this.ensureTable();
+
+    const urlHash = this.hash(sourceUrl);
+    const result = await client.query(`
+      UPDATE translations SET pinned = (id = $3)
+      WHERE source_url_hash = $1
+        AND chapter_number = $2
+        AND (target_language, style_preset) = (
+          SELECT target_language, style_preset FROM translations
+          WHERE id = $3 AND source_url_hash = $1 AND chapter_number = $2
+        )
+    `, [urlHash, chapterNumber, id]);
+    return (result.rowCount || 0) > 0;
+  }
+
+  /**
+   * Go back to serving the latest version; false when the version wasn't pinned
+   */
+  async unpinVersion(sourceUrl: string, chapterNumber: string, id: number): Promise<boolean> {
+    await this.ensureTable();
+
+    const result = await pool.query(`
+      UPDATE translations SET pinned = FALSE
+      WHERE id = $1 AND source_url_hash = $2 AND chapter_number = $3 AND pinned
+    `, [id, this.hash(sourceUrl), chapterNumber]);
+    return (result.rowCount || 0) > 0;
+  }
+
+  /**
+   * Replace the text of a version that is built up over time (the preferred version of a model comparison);
+   * false when it doesn't exist. The summary of the old text is dropped. Pass a client to write inside its
+   * transaction.
+   */
+  async replaceVersionText(
+    id: number,
+    translatedText: string,
+    model: string,
+    metadata: Pick<TranslationMetadata, 'confidence' | 'structured'> = {},
+    client: Pick<PoolClient, 'query'> = pool
+  ): Promise<boolean> {
+    await this.ensureTable();
+
+    const { confidence, structured } = metadata;
+    const result = await client.query('SELECT original_text FROM translations WHERE id = $1', [id]);
+    if (result.rows.length === 0) return false;
+
+    const alignment = result.rows[0].original_text ? alignParagraphs(result.rows[0].original_text, translatedText) : null;
+    const updated = await client.query(`
+      UPDATE translations
+      SET translated_text = $2, model = $3, confidence = $4, confidence_details = $5, structured_output = $6,
+        paragraph_alignment = $7, summary = NULL
+      WHERE id = $1
+    `, [
+      id, translatedText, model, confidence?.score ?? null, confidence ? JSON.stringify(confidence) : null,
+      structured ? JSON.stringify(structured) : null,
+      alignment ? JSON.stringify(alignment) : null
+    ]);
+    return (updated.rowCount || 0) > 0;
+  }
+
+  private toVersion(row: any): TranslationVersion {
+    return {
+      id: row.id,
+      targetLanguage: row.target_language,
+      stylePreset: row.style_preset,
+      originalTextHash: row.original_text_hash,
+      model: row.model,
+      confidence: row.confidence,
+      revision: row.revision || 1,
+      structured: row.structured,
+      footnotes: row.footnotes,
+      promptTemplateId: row.prompt_template_id,
+      pinned: row.pinned,
+      timestamp: new Date(row.created_at).getTime()
+    };
+  }
+
+  /**
+   * The pinned or most recent translation of the chapter made from a different source text, to build a revision on
+   */
+  async getPreviousVersion(
+    sourceUrl: string,
+    chapterNumber: string,
+    originalText: string,
+    targetLanguage: TargetLanguage = DEFAULT_TARGET_LANGUAGE,
+    styleIdentity: string = DEFAULT_STYLE_PRESET
+  ): Promise<PreviousVersion | null> {
+    await this.ensureTable();
+
+    const query = `
+      SELECT original_text, original_text_hash, translated_text, paragraph_alignment, revision
+      FROM translations
+      WHERE source_url_hash = $1
+        AND chapter_number = $2
+        AND original_text_hash <> $3
+        AND target_language = $4
+        AND style_preset = $5
+        AND original_text IS NOT NULL
+        AND footnotes IS NULL
+      ORDER BY pinned DESC, created_at DESC
+      LIMIT 1
+    `;
+
+    try {
+      const result = await pool.query(query, [
+        this.hash(sourceUrl), chapterNumber, this.hash(originalText), targetLanguage, styleIdentity
+      ]);
+      const row = result.rows[0];
+      if (!row) return null;
+
+      return {
+        originalText: row.original_text,
+        translatedText: row.translated_text,
+        alignment: row.paragraph_alignment || null,
+        revision: row.revision || 1,
+        originalTextHash: row.original_text_hash
+      };
+    } catch (error) {
+      console.error('Database previous version query error:', error);
+      return null;
     }
   }
+
+  /**
+   * Served translations scoring below the threshold, weakest first - candidates for retranslation
+   */
+  async listLowConfidence(threshold: number, limit: number = 50): Promise<LowConfidenceTranslation[]> {
+    await this.ensureTable();
+
+    // Only the version get() serves counts; a chapter that was retranslated or pinned drops off the list
+    const query = `
+      SELECT source_url, chapter_number, target_language, model, confidence, created_at
+      FROM (
+        SELECT DISTINCT ON (source_url_hash, chapter_number, original_text_hash, target_language, style_preset)
+          source_url, chapter_number, target_language, model, confidence, created_at
+        FROM translations
+        ORDER BY source_url_hash, chapter_number, original_text_hash, target_language, style_preset,
+          pinned DESC, created_at DESC
+      ) served
+      WHERE confidence IS NOT NULL AND confidence < $1
+      ORDER BY confidence ASC, created_at DESC
+      LIMIT $2
+    `;
+
+    try {
+      const result = await pool.query(query, [threshold, limit]);
+      return result.rows.map(row => ({
+        sourceUrl: row.source_url,
+        chapterNumber: row.chapter_number,
+        targetLanguage: row.target_language,
+        model: row.model,
+        confidence: row.confidence,
+        timestamp: new Date(row.created_at).getTime()
+      }));
+    } catch (error) {
+      console.error('Database low-confidence query error:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Confidence and fidelity of the translations made since a date, per prompt template
+   */
+  async summarizeByPromptTemplate(since: Date, lowConfidenceThreshold: number): Promise<PromptTemplateStats[]> {
+    await this.ensureTable();
+
+    const result = await pool.query(`
+      SELECT prompt_template_id,
+        COUNT(*) AS translations,
+        AVG(confidence) AS average_confidence,
+        COUNT(*) FILTER (WHERE confidence < $2) AS low_confidence,
+        COUNT(fidelity_failed) AS fidelity_checked,
+        COUNT(*) FILTER (WHERE fidelity_failed) AS fidelity_failures
+      FROM translations
+      WHERE created_at >= $1
+      GROUP BY prompt_template_id
+    `, [since, lowConfidenceThreshold]);
+
+    return result.rows.map(row => ({
+      promptTemplateId: row.prompt_template_id,
+      translations: parseInt(row.translations, 10),
+      averageConfidence: row.average_confidence === null ? null : parseFloat(row.average_confidence),
+      lowConfidence: parseInt(row.low_confidence, 10),
+      fidelityChecked: parseInt(row.fidelity_checked, 10),
+      fidelityFailures: parseInt(row.fidelity_failures, 10)
+    }));
+  }
+
 }
 
 export const translationCache = new TranslationCacheDB();
@@ -0,0 +1,376 @@
+import pool from './db';
+import crypto from 'crypto';
+import { splitMarkdownBlocks, type TextChunk } from './chunker';
+import type { TargetLanguage } from './languages';
+import type { FallbackResult } from './providers/registry';
+import type { ConfidenceReport } from './confidence';
+import type { SafetyPassage } from './providers/safety';
+
+// Segment-level translation memory. Every translated chapter whose paragraphs line up one to one with the
+// source stores its (source, target) paragraph pairs per novel, target language and style. Later chapters
+// reuse exact matches without calling the model - recurring chapter headers, LitRPG system messages,
+// battle cries - and pass close matches to the model as references. The same mechanism keeps the unchanged
+// paragraphs of a revised chapter (see revisions.ts).
+
+export interface MemoryScope {
+  novelKey: string; // Text without a source URL has no novel and doesn't use memory
+  targetLanguage: TargetLanguage;
+  styleIdentity: string; // See getStyleIdentity
+}
+
+export interface MemoryReference {
+  source: string;
+  target: string;
+  similarity: number; // 0-1, trigram overlap with the paragraph being translated
+}
+
+export interface ChunkMemory {
+  blocks: string[]; // Source blocks of the chunk
+  reused: Array<string | null>; // Stored translation per block, null where the model has to translate
+  origin: Array<'memory' | 'revision' | null>; // Where each reused block came from
+  text: string; // Blocks left for the model, empty when the whole chunk came from memory
+  references: MemoryReference[]; // Fuzzy matches for the blocks left for the model
+}
+
+export interface MemoryStats {
+  segments: number;
+  exactHits: number;
+  fuzzyHits: number; // Paragraphs translated with a close match as reference
+  hitRate: number; // Share of segments served from memory
+}
+
+// Reported as the model of chunks that never reached one
+export const MEMORY_MODEL = 'translation-memory';
+// Stored pairs come from validated translations, but weak paragraphs and blocked passages are never stored
+const MEMORY_CONFIDENCE = 0.9;
+
+const MAX_SEGMENT_LENGTH = 1000; // Longer paragraphs hardly ever repeat
+const MIN_FUZZY_LENGTH = 12;
+const FUZZY_THRESHOLD = parseFloat(process.env.TM_FUZZY_THRESHOLD || '0.75') || 0.75;
+const FUZZY_CANDIDATES = 5; // Closest stored pairs per paragraph, by pg_trgm similarity, scored for fuzzy matches
+const MAX_REFERENCES_PER_CHUNK = 10;
+
+export function normalizeSegment(text: string): string {
+  return text.normalize('NFKC').replace(/\s+/g, ' ').trim();
+}
+
+function hashSegment(text: string): string {
+  return crypto.createHash('sha256').update(normalizeSegment(text)).digest('hex');
+}
+
+function trigrams(text: string): Set<string> {
+  const normalized = ` ${normalizeSegment(text).toLowerCase()} `;
+  const grams = new Set<string>();
+  for (let i = 0; i < normalized.length - 2; i++) grams.add(normalized.slice(i, i + 3));
+  return grams;
+}
+
+function diceSimilarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(gram => { if (b.has(gram)) shared++; });
+  return (2 * shared) / (a.size + b.size);
+}
+
+let initialized = false;
+
+export class TranslationMemoryDB {
+
+  private async ensureTable() {
+    if (initialized) return;
+
+    const query = `
+      CREATE TABLE IF NOT EXISTS translation_memory (
+        id SERIAL PRIMARY KEY,
+        novel_key VARCHAR(512) NOT NULL DEFAULT '',
+        target_language VARCHAR(10) NOT NULL,
+        style_preset VARCHAR(64) NOT NULL DEFAULT 'default',
+        source_hash VARCHAR(64) NOT NULL,
+        source_text TEXT NOT NULL,
+        target_text TEXT NOT NULL,
+        hits INTEGER NOT NULL DEFAULT 0,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        last_used_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(novel_key, target_language, style_preset, source_hash)
+      );
+      CREATE INDEX IF NOT EXISTS idx_translation_memory_recent
+        ON translation_memory(novel_key, target_language, style_preset, last_used_at DESC);
+
+      -- Fuzzy lookups prefilter by trigram similarity in the database
+      CREATE EXTENSION IF NOT EXISTS pg_trgm;
+      CREATE INDEX IF NOT EXISTS idx_translation_memory_trgm
+        ON translation_memory USING GIN (source_text gin_trgm_ops);
+    `;
+
+    try {
+      await pool.query(query);
+      initialized = true;
+    } catch (error) {
+      console.error('Failed to initialize translation_memory table:', error);
+    }
+  }
+
+  private scopeParams(scope: MemoryScope): [string, string, string] {
+    return [scope.novelKey, scope.targetLanguage, scope.styleIdentity];
+  }
+
+  /**
+   * Stored translations by source hash, counting each match as a hit
+   */
+  async findExact(scope: MemoryScope, hashes: string[]): Promise<Map<string, string>> {
+    await this.ensureTable();
+    if (hashes.length === 0) return new Map();
+
+    const result = await pool.query(`
+      UPDATE translation_memory
+      SET hits = hits + 1, last_used_at = CURRENT_TIMESTAMP
+      WHERE novel_key = $1 AND target_language = $2 AND style_preset = $3 AND source_hash = ANY($4)
+      RETURNING source_hash, target_text
+    `, [...this.scopeParams(scope), hashes]);
+
+    return new Map(result.rows.map(row => [row.source_hash, row.target_text]));
+  }
+
+  /**
+   * The stored pairs closest to each of the given paragraphs, by pg_trgm similarity (at least
+   * pg_trgm.similarity_threshold, 0.3 by default), indexed like the paragraphs
+   */
+  async getCandidates(
+    scope: MemoryScope,
+    blocks: string[],
+    limit: number = FUZZY_CANDIDATES
+  ): Promise<Array<Array<{ source: string; target: string }>>> {
+    await this.ensureTable();
+    if (blocks.length === 0) return [];
+
+    const result = await pool.query(`
+      SELECT q.position, c.source_text, c.target_text
+      FROM unnest($4::text[]) WITH ORDINALITY AS q(block, position)
+      CROSS JOIN LATERAL (
+        SELECT source_text, target_text
+        FROM translation_memory
+        WHERE novel_key = $1 AND target_language = $2 AND style_preset = $3 AND source_text % q.block
+        ORDER BY similarity(source_text, q.block) DESC
+        LIMIT $5
+      ) c
+    `, [...this.scopeParams(scope), blocks, limit]);
+
+    const candidates: Array<Array<{ source: string; target: string }>> = blocks.map(() => []);
+    for (const row of result.rows) {
+      candidates[Number(row.position) - 1].push({ source: row.source_text, target: row.target_text });
+    }
+    return candidates;
+  }
+
+  async store(scope: MemoryScope, pairs: Array<{ source: string; target: string }>): Promise<void> {
+    await this.ensureTable();
+
+    // One row per source; a statement can't upsert the same row twice
+    const unique = Array.from(new Map(pairs.map(pair => [hashSegment(pair.source), pair])));
+
+    // Batched so a long chapter is a handful of statements rather than one per paragraph
+    for (let start = 0; start < unique.length; start += 100) {
+      const batch = unique.slice(start, start + 100);
+      const params: string[] = [];
+      const rows = batch.map(([hash, pair]) => {
+        params.push(...this.scopeParams(scope), hash, pair.source, pair.target);
+        const offset = params.length - 6;
+        return `($${offset + 1}, $${offset + 2}, $${offset + 3}, $${offset + 4}, $${offset + 5}, $${offset + 6})`;
+      });
+
+      await pool.query(`
+        INSERT INTO translation_memory (novel_key, target_language, style_preset, source_hash, source_text, target_text)
+        VALUES ${rows.join(', ')}
+        ON CONFLICT (novel_key, target_language, style_preset, source_hash)
+        DO UPDATE SET target_text = EXCLUDED.target_text, last_used_at = CURRENT_TIMESTAMP
+      `, params);
+    }
+  }
+}
+
+export const translationMemoryDB = new TranslationMemoryDB();
+
+const isSegment = (block: string) => normalizeSegment(block).length > 0 && block.length <= MAX_SEGMENT_LENGTH;
+
+/**
+ * Look up every chunk's paragraphs: exact matches are filled in from memory and left out of the text sent to
+ * the model, close matches of the rest become references. previous holds, per chunk and block, the translation
+ * kept from an earlier version of the chapter (see reusePreviousVersion), which takes precedence over memory.
+ * Lookup failures leave everything else to the model.
+ */
+export async function planChunkMemory(
+  chunks: TextChunk[],
+  scope: MemoryScope,
+  previous: Array<Array<string | null>> = []
+): Promise<ChunkMemory[]> {
+  const chunkBlocks = chunks.map(chunk => splitMarkdownBlocks(chunk.text));
+  const kept = (chunk: number, block: number) => previous[chunk]?.[block] ?? null;
+
+  let exact = new Map<string, string>();
+  try {
+    const lookups = chunkBlocks.flatMap((blocks, chunk) => blocks.filter((block, i) => kept(chunk, i) === null && isSegment(block)));
+    exact = await translationMemoryDB.findExact(scope, Array.from(new Set(lookups.map(hashSegment))));
+  } catch (error) {
+    console.error('Translation memory lookup failed:', error);
+  }
+
+  // Candidates for fuzzy matches of the paragraphs left for the model, by source text
+  const candidates = new Map<string, Array<{ source: string; target: string; grams: Set<string>; length: number }>>();
+  try {
+    const fuzzy = Array.from(new Set(chunkBlocks.flatMap((blocks, chunk) => blocks.filter((block, i) =>
+      kept(chunk, i) === null && isSegment(block) && block.length >= MIN_FUZZY_LENGTH && !exact.has(hashSegment(block))
+    ))));
+    const found = await translationMemoryDB.getCandidates(scope, fuzzy);
+    fuzzy.forEach((block, i) => candidates.set(block, (found[i] || []).map(candidate => (
+      { ...candidate, grams: trigrams(candidate.source), length: candidate.source.length }
+    ))));
+  } catch (error) {
+    console.error('Translation memory fuzzy lookup failed:', error);
+  }
+
+  return chunks.map((chunk, index) => {
+    const blocks = chunkBlocks[index];
+    const origin = blocks.map((block, i): ChunkMemory['origin'][number] =>
+      kept(index, i) !== null ? 'revision' : isSegment(block) && exact.has(hashSegment(block)) ? 'memory' : null
+    );
+    const reused = blocks.map((block, i) =>
+      origin[i] === 'revision' ? kept(index, i) : origin[i] === 'memory' ? exact.get(hashSegment(block))! : null
+    );
+    const misses = blocks.filter((_, i) => reused[i] === null);
+
+    const references: MemoryReference[] = [];
+    for (const block of misses) {
+      const blockCandidates = candidates.get(block);
+      if (!blockCandidates || blockCandidates.length === 0) continue;
+
+      const grams = trigrams(block);
+      let best: MemoryReference | null = null;
+      for (const candidate of blockCandidates) {
+        // Trigram overlap can't reach the threshold when the lengths are too far apart
+        if (Math.min(candidate.length, block.length) / Math.max(candidate.length, block.length) < FUZZY_THRESHOLD / 2) continue;
+        const similarity = diceSimilarity(grams, candidate.grams);
+        if (similarity >= FUZZY_THRESHOLD && (!best || similarity > best.similarity)) {
+          best = { source: candidate.source, target: candidate.target, similarity };
+        }
+      }
+      if (best) references.push(best);
+    }
+
+    // Unchanged chunks keep their text as is, blank lines and all
+    const anyReused = reused.some(target => target !== null);
+    return {
+      blocks,
+      reused,
+      origin,
+      text: anyReused ? misses.join('\n\n') : chunk.text,
+      references: references.sort((a, b) => b.similarity - a.similarity).slice(0, MAX_REFERENCES_PER_CHUNK)
+    };
+  });
+}
+
+/**
+ * Put the model's output for the remaining blocks back between the reused ones. Null when the output
+ * doesn't have one block per remaining source block, in which case the chunk has to be translated whole.
+ */
+export function assembleChunk(memory: ChunkMemory, output: string): string | null {
+  if (memory.reused.every(target => target === null)) return output;
+
+  const translated = splitMarkdownBlocks(output.trim());
+  const missing = memory.reused.filter(target => target === null).length;
+  if (translated.length !== missing) return null;
+
+  let next = 0;
+  return memory.reused.map(target => target ?? translated[next++]).join('\n\n');
+}
+
+/**
+ * Result for a chunk whose every block came from memory
+ */
+export function memoryResult(memory: ChunkMemory): FallbackResult {
+  return {
+    text: memory.reused.join('\n\n'),
+    model: MEMORY_MODEL,
+    provider: MEMORY_MODEL,
+    baseConfidence: MEMORY_CONFIDENCE,
+    attempts: 0,
+    skipped: [],
+    safety: null
+  };
+}
+
+/**
+ * Memory stats for a chapter; chunks in translatedWhole were retranslated without their reused blocks
+ */
+export function summarizeMemory(plan: ChunkMemory[], translatedWhole: number[] = []): MemoryStats {
+  let segments = 0;
+  let exactHits = 0;
+  let fuzzyHits = 0;
+
+  plan.forEach((memory, index) => {
+    segments += memory.blocks.length;
+    if (translatedWhole.includes(index)) return;
+    exactHits += memory.origin.filter(origin => origin === 'memory').length;
+    fuzzyHits += memory.references.length;
+  });
+
+  return {
+    segments,
+    exactHits,
+    fuzzyHits,
+    hitRate: segments > 0 ? Math.round((exactHits / segments) * 1000) / 1000 : 0
+  };
+}
+
+/**
+ * Render a chunk's fuzzy matches as an additional section of its system instruction
+ */
+export function formatMemoryReferences(references: MemoryReference[]): string {
+  if (references.length === 0) return '';
+
+  const lines = references.map(reference => `Source: ${reference.source}\nEarlier translation: ${reference.target}`);
+
+  return `
+
+Earlier translations of similar passages in this novel, for reference. Keep their wording where the text is the same, and translate whatever differs:
+${lines.join('\n\n')}`;
+}
+
+/**
+ * Blocks of a translation that shouldn't be reused: weak paragraphs and passages blocked by safety filters
+ */
+export function unreliableBlocks(confidence: ConfidenceReport, safetyPassages: SafetyPassage[]): Set<number> {
+  const blocks = new Set(confidence.weakParagraphs);
+  for (const passage of safetyPassages) {
+    for (let index = passage.blocks[0]; index <= passage.blocks[1]; index++) blocks.add(index);
+  }
+  return blocks;
+}
+
+/**
+ * Store the paragraph pairs of a validated translation. Chapters whose blocks don't line up with the source
+ * are skipped, as are the given block indices (weak or machine-translated paragraphs) and reused blocks.
+ */
+export async function rememberTranslation(
+  scope: MemoryScope,
+  originalText: string,
+  translatedText: string,
+  skipBlocks: Set<number>,
+  plan: ChunkMemory[] = []
+): Promise<void> {
+  const sources = splitMarkdownBlocks(originalText);
+  const targets = splitMarkdownBlocks(translatedText);
+  if (sources.length !== targets.length) return;
+
+  const reused = new Set(plan.flatMap(memory => memory.blocks.filter((_, i) => memory.reused[i] !== null)));
+  const pairs = sources
+    .map((source, index) => ({ source, target: targets[index], index }))
+    .filter(pair => isSegment(pair.source) && !skipBlocks.has(pair.index) && !reused.has(pair.source));
+
+  if (pairs.length === 0) return;
+
+  try {
+    await translationMemoryDB.store(scope, pairs);
+  } catch (error) {
+    console.error('Failed to store translation memory:', error);
+  }
+}
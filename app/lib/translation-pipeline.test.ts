@@ -0,0 +1,140 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { TranslationProvider, TranslationRequest } from './providers/base';
+import { translateChapter } from './translation-pipeline';
+import { extractNovelKey } from './url-prediction';
+
+const mocks = vi.hoisted(() => ({
+  cache: {
+    get: vi.fn(),
+    set: vi.fn(),
+    getPreviousVersion: vi.fn()
+  },
+  storyContext: {
+    loadStoryContextForPrompt: vi.fn(async () => ''),
+    scheduleStoryContextUpdate: vi.fn()
+  },
+  getEntries: vi.fn(async () => [])
+}));
+
+// No database here: every query fails, as it does when Postgres is down
+vi.mock('./db', () => ({
+  default: {
+    query: vi.fn(async () => { throw new Error('no database'); }),
+    connect: vi.fn(async () => { throw new Error('no database'); })
+  }
+}));
+vi.mock('./translation-cache', () => ({ translationCache: mocks.cache }));
+vi.mock('./story-context', () => mocks.storyContext);
+vi.mock('./glossary', async importOriginal => {
+  const original = await importOriginal<typeof import('./glossary')>();
+  return { ...original, glossaryDB: { getEntries: mocks.getEntries } };
+});
+
+const SOURCE = [
+  '林凡看着远处的山峰，心中涌起一股说不出的感觉。',
+  '师父曾经说过，修炼之路漫长而孤独，只有坚持到底的人才能看到山顶的风景。',
+  '他深吸一口气，握紧了手中的剑。'
+].join('\n\n');
+
+const TRANSLATION = [
+  'Lin Fan looked at the distant peaks, and a feeling he could not put into words rose in his heart.',
+  'His master had once said that the path of cultivation is long and lonely, and only those who persist to the end get to see the view from the top.',
+  'He took a deep breath and tightened his grip on the sword in his hand.'
+].join('\n\n');
+
+function provider(text: string = TRANSLATION, seen: TranslationRequest[] = []): TranslationProvider {
+  return {
+    id: 'test:pipeline',
+    model: 'test-model',
+    baseConfidence: 0.9,
+    followsInstructions: true,
+    isConfigured: () => true,
+    translate: async request => {
+      seen.push(request);
+      return { text, model: 'test-model', provider: 'test:pipeline' };
+    }
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  mocks.cache.get.mockResolvedValue(null);
+  mocks.cache.set.mockResolvedValue(42);
+  mocks.cache.getPreviousVersion.mockResolvedValue(null);
+});
+
+describe('translateChapter without a source URL', () => {
+  it('translates without touching the cache or any novel state', async () => {
+    const result = await translateChapter({ text: SOURCE, targetLanguage: 'en' }, { providers: [provider()] });
+
+    expect(result).toMatchObject({ status: 'translated', translatedText: TRANSLATION, versionId: null, memory: null });
+    expect(mocks.cache.get).not.toHaveBeenCalled();
+    expect(mocks.cache.set).not.toHaveBeenCalled();
+    expect(mocks.cache.getPreviousVersion).not.toHaveBeenCalled();
+    expect(mocks.getEntries).not.toHaveBeenCalled();
+    expect(mocks.storyContext.loadStoryContextForPrompt).not.toHaveBeenCalled();
+    expect(mocks.storyContext.scheduleStoryContextUpdate).not.toHaveBeenCalled();
+    expect(console.error).not.toHaveBeenCalledWith('Failed to cache translation:', expect.anything());
+  });
+});
+
+describe('translateChapter with a source URL', () => {
+  const input = {
+    text: SOURCE,
+    sourceUrl: 'https://novels.example.com/my-novel/12',
+    chapterNumber: '12',
+    targetLanguage: 'en' as const
+  };
+  const novelKey = extractNovelKey(input.sourceUrl);
+
+  it('caches the translation as a version of the chapter and updates the story context', async () => {
+    const result = await translateChapter(input, { providers: [provider()] });
+
+    expect(result).toMatchObject({ status: 'translated', versionId: 42 });
+    expect(mocks.cache.get).toHaveBeenCalledWith(input.sourceUrl, '12', SOURCE, 'en', expect.any(String));
+    expect(mocks.cache.set).toHaveBeenCalledWith(
+      input.sourceUrl, '12', SOURCE, TRANSLATION, 'test-model', 'en', expect.any(String), expect.any(Object)
+    );
+    expect(mocks.getEntries).toHaveBeenCalledWith(novelKey, 'en');
+    expect(mocks.storyContext.scheduleStoryContextUpdate)
+      .toHaveBeenCalledWith(novelKey, '12', 'en', TRANSLATION, undefined);
+  });
+
+  it('serves a cached version without calling the model', async () => {
+    mocks.cache.get.mockResolvedValue({
+      versionId: 7,
+      translatedText: TRANSLATION,
+      originalText: SOURCE,
+      model: 'cached-model',
+      targetLanguage: 'en',
+      timestamp: 1,
+      confidence: null,
+      safetyPassages: [],
+      structured: null,
+      footnotes: null
+    });
+    const seen: TranslationRequest[] = [];
+    const result = await translateChapter(input, { providers: [provider(TRANSLATION, seen)] });
+
+    expect(result).toMatchObject({ status: 'cached', versionId: 7, model: 'cached-model', translatedText: TRANSLATION });
+    expect(seen).toHaveLength(0);
+    expect(mocks.cache.set).not.toHaveBeenCalled();
+    // Rereading a chapter must not pay for another summary of it
+    expect(mocks.storyContext.scheduleStoryContextUpdate).not.toHaveBeenCalled();
+  });
+});
+
+describe('translateChapter over budget', () => {
+  const input = { text: SOURCE, sourceUrl: 'https://novels.example.com/my-novel/13', chapterNumber: '13', targetLanguage: 'en' as const };
+  const budget = { action: 'reject' as const, period: 'daily' as const, spentUsd: 2, limitUsd: 1, resetAt: 0 };
+
+  it('rejects a cache miss without calling the model', async () => {
+    const seen: TranslationRequest[] = [];
+    const result = await translateChapter(input, { providers: [provider(TRANSLATION, seen)], budget });
+
+    expect(result).toEqual({ status: 'over-budget', budget });
+    expect(seen).toHaveLength(0);
+    expect(mocks.cache.set).not.toHaveBeenCalled();
+  });
+});
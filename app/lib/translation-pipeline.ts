@@ -0,0 +1,533 @@
+// End-to-end translation of one chapter: language detection and pass-through, glossary and story context,
+// the translation cache, chunked translation with fallback, validation and quality scoring.
+// Shared by POST /api/translate, the background job workers and the streaming route, which follows the
+// translation through progress callbacks.
+
+import { translationCache } from './translation-cache';
+import { isTargetLanguage, isAlreadyInTargetLanguage, cleanPassThroughMarkdown } from './validation';
+import { detectLanguage, type DetectedLanguage } from './language-detection';
+import type { TargetLanguage } from './languages';
+import {
+  glossaryDB,
+  filterRelevantEntries,
+  findGlossaryViolations,
+  type GlossaryEntry,
+  type GlossaryViolation
+} from './glossary';
+import { extractNovelKey } from './url-prediction';
+import { loadStoryContextForPrompt, scheduleStoryContextUpdate } from './story-context';
+import { resolveStylePreset, getStyleIdentity, formatStyleForPrompt } from './style-presets';
+import { chunkMarkdown, joinChunks, mapWithConcurrency, DEFAULT_CHUNK_SIZE, type TextChunk } from './chunker';
+import { buildSystemInstruction, buildOmissionRetryInstruction } from './translation-prompt';
+import { selectPromptTemplate, type SelectedPromptTemplate } from './prompt-templates';
+import {
+  getProviderChain,
+  getDegradedProviderChain,
+  translateWithFallback,
+  type FallbackOptions
+} from './providers/registry';
+import type { SkippedModel } from './providers/circuit-breaker';
+import { TranslationAbortedError, type ErrorClass } from './providers/errors';
+import type { TranslationProvider } from './providers/base';
+import { locateSafetyPassages, type SafetyPassage } from './providers/safety';
+import {
+  numberSourceBlocks,
+  parseStructuredChunk,
+  mergeStructuredChunks,
+  structuredToMarkdown,
+  type OutputFormat,
+  type StructuredTranslation
+} from './structured-output';
+import {
+  planChunkMemory,
+  assembleChunk,
+  memoryResult,
+  summarizeMemory,
+  formatMemoryReferences,
+  rememberTranslation,
+  unreliableBlocks,
+  MEMORY_MODEL,
+  type MemoryStats
+} from './translation-memory';
+import { reusePreviousVersion, summarizeRevision, type RevisionInfo } from './revisions';
+import { extractChapterFootnotes, stripFootnoteMarkers, type Footnote } from './footnotes';
+import { loadCorrectedTranslation } from './corrections';
+import { checkStructuralFidelity, retranslateIfOmitted, summarizeFidelity } from './fidelity';
+import {
+  detectPromptInjection,
+  checkTranslationOutput,
+  retranslateIfAnswered,
+  summarizeInjection,
+  type InjectionReport
+} from './prompt-injection';
+import { computeConfidence, type ConfidenceReport } from './confidence';
+import type { BudgetDecision, UsageTracker } from './usage';
+
+export interface ChapterTranslationInput {
+  text: string;
+  sourceUrl?: string;
+  chapterNumber?: string;
+  targetLanguage: TargetLanguage;
+  format?: OutputFormat; // 'structured' also returns { title, paragraphs, notes }
+  footnotes?: boolean; // Markdown mode only: "[^n]" markers in the text plus the footnote list
+  stylePreset?: string; // Preset id; defaults to the novel's saved preset
+  retranslate?: boolean; // Ignore the cached version and translation memory, and add a new version
+}
+
+// Progress of a chapter in Markdown mode, as the streaming route relays it. Chunks are reported by index and
+// may interleave; a reset discards what was reported for a chunk, and the text that follows replaces it.
+// Cached and passed-through chapters are reported as one chunk.
+export interface ChapterProgress {
+  onStart?: (chunks: number, sourceLanguage: DetectedLanguage) => void;
+  onModel?: (chunk: number, model: string) => void; // A chunk is being translated by this model
+  onDelta?: (chunk: number, text: string) => void; // Markdown to append to a chunk
+  onReset?: (chunk: number, reason: string, errorClass?: ErrorClass) => void;
+  onFallback?: (chunk: number, from: string, to: string, reason: string, errorClass: ErrorClass) => void;
+  onSkip?: (chunk: number, skipped: SkippedModel) => void; // A model was passed over because its circuit is open
+}
+
+export interface ChapterTranslationOptions {
+  usage?: UsageTracker; // Collects tokens and cost of every model call made for the chapter
+  budget?: BudgetDecision; // Applied on cache misses only; cached chapters cost nothing
+  providers?: TranslationProvider[]; // Use this chain instead of the configured or degraded one (compare mode)
+  store?: boolean; // false: don't cache the translation or feed it to translation memory and story context
+  readerKey?: string; // Also serve this reader's own pending corrections (see getClientKey)
+  progress?: ChapterProgress; // Markdown mode only
+  signal?: AbortSignal; // Abort the model calls, e.g. when the reader closed the stream
+}
+
+export interface ChunkSummary {
+  index: number;
+  model: string;
+  provider: string;
+  attempts: number;
+}
+
+interface TranslatedChapter {
+  translatedText: string;
+  model: string;
+  confidence: ConfidenceReport;
+  fidelity: ReturnType<typeof summarizeFidelity>;
+  glossaryViolations: GlossaryViolation[];
+  sourceLanguage: DetectedLanguage;
+  safetyPassages: SafetyPassage[]; // Chunks blocked by safety filters, and how they were translated
+  structured: StructuredTranslation | null; // Structured mode only
+  footnotes: Footnote[] | null; // Only when requested
+  stylePreset: string; // Id of the preset the chapter was translated with
+  versionId: number | null; // Cached version served or created; null when caching failed or was turned off
+}
+
+export type ChapterTranslationResult =
+  | { status: 'passthrough'; translatedText: string; sourceLanguage: DetectedLanguage }
+  | (TranslatedChapter & { status: 'cached'; originalText: string; targetLanguage: TargetLanguage; timestamp: number })
+  | (TranslatedChapter & {
+      status: 'translated';
+      chunks: ChunkSummary[];
+      degraded: boolean;
+      skippedModels: SkippedModel[];
+      memory: MemoryStats | null; // Translation memory use, Markdown mode without footnotes only
+      revision: RevisionInfo | null; // Set when only the changed paragraphs of a revised chapter were translated
+      injection: InjectionReport | null; // Set when the source had instruction-like passages or the output looked like an answer
+      promptTemplate: Omit<SelectedPromptTemplate, 'body'>; // The template of the system instruction, see prompt-templates.ts
+    })
+  | { status: 'invalid-output'; sourceLanguage: DetectedLanguage } // Output failed the target-language check
+  | { status: 'unconfigured' } // No provider in the chain is configured
+  | { status: 'over-budget'; budget: BudgetDecision }; // Budget exhausted and BUDGET_EXHAUSTED_ACTION=reject
+
+/**
+ * Skipped models across all chunks, one entry per provider with its latest reason
+ */
+export function collectSkippedModels(skipped: SkippedModel[]): SkippedModel[] {
+  const byProvider = new Map<string, SkippedModel>();
+  for (const skip of skipped) byProvider.set(skip.provider, skip);
+  return Array.from(byProvider.values());
+}
+
+/**
+ * Translate a chapter, serving it from the translation cache when possible and caching new translations
+ */
+export async function translateChapter(
+  input: ChapterTranslationInput,
+  options: ChapterTranslationOptions = {}
+): Promise<ChapterTranslationResult> {
+  const { text, sourceUrl, chapterNumber, targetLanguage } = input;
+  const { usage, budget } = options;
+  const store = options.store !== false;
+  const structured = input.format === 'structured';
+  const footnotes = !structured && input.footnotes === true;
+  const progress: ChapterProgress = structured ? {} : options.progress || {};
+
+  // The whole text of a chunk at once, after discarding what was reported for it
+  const replaceChunk = (index: number, model: string, text: string, reason?: string) => {
+    if (reason) progress.onReset?.(index, reason);
+    progress.onModel?.(index, model);
+    progress.onDelta?.(index, text);
+  };
+
+  // Chapters already in the target language are passed through without calling the model
+  const sourceLanguage = detectLanguage(text);
+  if (isAlreadyInTargetLanguage(text, targetLanguage, sourceLanguage)) {
+    const translatedText = cleanPassThroughMarkdown(text);
+    progress.onStart?.(1, sourceLanguage);
+    replaceChunk(0, 'passthrough', translatedText);
+    return { status: 'passthrough', translatedText, sourceLanguage };
+  }
+
+  // Only text from a chapter URL belongs to a novel, and is cached and kept as versions
+  const chapter = sourceUrl && chapterNumber
+    ? { sourceUrl, chapterNumber, novelKey: extractNovelKey(sourceUrl) }
+    : null;
+  const novelKey = chapter?.novelKey ?? null;
+
+  // Load the per-novel glossary and story so far so names and pronouns stay consistent across chapters
+  let glossary: GlossaryEntry[] = [];
+  let storyContext = '';
+  if (chapter) {
+    try {
+      glossary = filterRelevantEntries(await glossaryDB.getEntries(chapter.novelKey, targetLanguage), text);
+    } catch (glossaryError) {
+      console.error('Glossary retrieval failed:', glossaryError);
+    }
+    storyContext = await loadStoryContextForPrompt(chapter.novelKey, chapter.chapterNumber, targetLanguage);
+  }
+
+  // Each style is cached separately
+  const style = await resolveStylePreset(input.stylePreset, novelKey);
+  const styleIdentity = getStyleIdentity(style);
+
+  // Check DB cache first, unless a new version was asked for
+  try {
+    const cachedTranslation = chapter && !input.retranslate
+      ? await translationCache.get(chapter.sourceUrl, chapter.chapterNumber, text, targetLanguage, styleIdentity)
+      : null;
+    // Rows translated as Markdown have no title or notes, and rows translated without footnotes have no
+    // markers, so those requests translate again
+    if (cachedTranslation && (!structured || cachedTranslation.structured) && (!footnotes || cachedTranslation.footnotes)) {
+      // Served with the approved corrections of this version, and the reader's own
+      const translatedText = await loadCorrectedTranslation(
+        cachedTranslation.versionId,
+        !footnotes && cachedTranslation.footnotes
+          ? stripFootnoteMarkers(cachedTranslation.translatedText)
+          : cachedTranslation.translatedText,
+        options.readerKey
+      );
+
+      progress.onStart?.(1, sourceLanguage);
+      replaceChunk(0, cachedTranslation.model, translatedText);
+
+      // Rows cached before scoring existed are scored on the fly
+      const confidence = cachedTranslation.confidence || computeConfidence({
+        originalText: text,
+        translatedText,
+        targetLanguage,
+        glossary
+      });
+
+      return {
+        status: 'cached',
+        translatedText,
+        originalText: cachedTranslation.originalText,
+        model: cachedTranslation.model,
+        targetLanguage: cachedTranslation.targetLanguage,
+        timestamp: cachedTranslation.timestamp,
+        confidence,
+        fidelity: summarizeFidelity(checkStructuralFidelity(text, translatedText)),
+        glossaryViolations: findGlossaryViolations(glossary, text, translatedText),
+        sourceLanguage,
+        safetyPassages: cachedTranslation.safetyPassages,
+        structured: structured ? cachedTranslation.structured : null,
+        footnotes: footnotes ? cachedTranslation.footnotes : null,
+        stylePreset: style.id,
+        versionId: cachedTranslation.versionId
+      };
+    }
+  } catch (cacheError) {
+    console.error('Cache retrieval failed:', cacheError);
+    // Continue to translation if cache fails
+  }
+
+  if (budget?.action === 'reject') {
+    return { status: 'over-budget', budget };
+  }
+
+  const degraded = !options.providers && budget?.action === 'degrade';
+  const providerChain = options.providers || (degraded ? getDegradedProviderChain() : getProviderChain());
+  if (providerChain.length === 0) {
+    return { status: 'unconfigured' };
+  }
+
+  // Template versions split the traffic by chapter URL
+  const promptTemplate = await selectPromptTemplate(sourceUrl);
+  const systemInstruction = buildSystemInstruction({
+    template: promptTemplate.body,
+    glossary,
+    targetLanguage,
+    sourceLanguage: sourceLanguage.language,
+    storyContext,
+    style: formatStyleForPrompt(style),
+    structured,
+    footnotes
+  });
+
+  const chunks = chunkMarkdown(text, DEFAULT_CHUNK_SIZE);
+
+  // In structured mode every block is numbered with its index in the whole chapter
+  let nextIndex = 0;
+  const numbered = chunks.map(chunk => {
+    const result = numberSourceBlocks(chunk.text, nextIndex);
+    nextIndex += result.indices.length;
+    return result;
+  });
+
+  // Stored paragraphs are reused in plain Markdown mode; structured and footnoted output need every paragraph,
+  // a retranslation shouldn't come back as the same text, and text without a source URL belongs to no novel
+  const memoryScope = novelKey && !structured && !footnotes && !input.retranslate
+    ? { novelKey, targetLanguage, styleIdentity }
+    : null;
+
+  // A revised chapter keeps the translations of its unchanged paragraphs from the previous version
+  const previous = memoryScope && chapter
+    ? await translationCache.getPreviousVersion(chapter.sourceUrl, chapter.chapterNumber, text, targetLanguage, styleIdentity)
+    : null;
+  const revised = previous ? reusePreviousVersion(chunks, previous) : null;
+  const memory = memoryScope ? await planChunkMemory(chunks, memoryScope, revised?.kept) : null;
+
+  // Passages that read like instructions to the model make the prompt for their chunk warn about them
+  const injectionFindings = chunks.map(chunk => detectPromptInjection(chunk.text, chunk.index));
+
+  // whole: send every block of the chunk, including the ones found in memory
+  const chunkRequest = (chunk: TextChunk, whole = false) => ({
+    text: structured ? numbered[chunk.index].text : memory && !whole ? memory[chunk.index].text : chunk.text,
+    context: chunk.context,
+    systemInstruction: memory ? systemInstruction + formatMemoryReferences(memory[chunk.index].references) : systemInstruction,
+    targetLanguage,
+    structured,
+    suspectedInjection: injectionFindings[chunk.index].length > 0
+  });
+
+  // Model calls of a chunk report their progress under its index
+  const chunkOptions = (index: number): FallbackOptions => ({
+    onUsage: usage?.forPurpose('translate'),
+    signal: options.signal,
+    onAttempt: progress.onModel && (provider => progress.onModel!(index, provider.model)),
+    onDelta: progress.onDelta && (delta => progress.onDelta!(index, delta)),
+    onSkip: progress.onSkip && (skipped => progress.onSkip!(index, skipped)),
+    onFailure: (provider, error, next, errorClass) => {
+      progress.onReset?.(index, error.message, errorClass);
+      if (next && next !== provider) progress.onFallback?.(index, provider.model, next.model, error.message, errorClass);
+    }
+  });
+
+  progress.onStart?.(chunks.length, sourceLanguage);
+
+  // Each chunk walks the fallback chain on its own, so one failure doesn't redo the whole chapter
+  const concurrency = parseInt(process.env.TRANSLATION_CHUNK_CONCURRENCY || '3', 10) || 3;
+  const chunkResults = await mapWithConcurrency(chunks, concurrency, async chunk => {
+    if (memory && !memory[chunk.index].text) {
+      const remembered = memoryResult(memory[chunk.index]);
+      replaceChunk(chunk.index, remembered.model, remembered.text);
+      return remembered;
+    }
+    return translateWithFallback(providerChain, chunkRequest(chunk), chunkOptions(chunk.index));
+  });
+
+  const retranslatedChunks: number[] = [];
+  const answeredChunks: number[] = [];
+  let structuredOutput: StructuredTranslation | null = null;
+
+  if (structured) {
+    // Structural checks don't apply to JSON; retry chunks whose answer is missing paragraphs instead
+    const parsed = chunkResults.map((result, index) => parseStructuredChunk(result.text, numbered[index].indices));
+    await mapWithConcurrency(chunks, concurrency, async (chunk, index) => {
+      if (parsed[index].missing.length === 0) return;
+
+      const request = chunkRequest(chunk);
+      const retry = await translateWithFallback(providerChain, {
+        ...request,
+        systemInstruction: buildOmissionRetryInstruction(request.systemInstruction)
+      }, chunkOptions(index)).catch(error => {
+        if (error instanceof TranslationAbortedError) throw error;
+        console.error('Missing paragraph retranslation failed:', error);
+        return null;
+      });
+      const reparsed = retry && parseStructuredChunk(retry.text, numbered[index].indices);
+      if (retry && reparsed && reparsed.missing.length < parsed[index].missing.length) {
+        chunkResults[index] = { ...retry, attempts: chunkResults[index].attempts + retry.attempts };
+        parsed[index] = reparsed;
+        retranslatedChunks.push(index);
+      }
+    });
+
+    structuredOutput = mergeStructuredChunks(parsed);
+    // From here on each chunk is handled as Markdown, like in the default mode
+    parsed.forEach((chunk, index) => {
+      chunkResults[index] = { ...chunkResults[index], text: structuredToMarkdown(chunk) };
+    });
+  } else {
+    // Retranslate only the chunks that look like they dropped content; a retry that is no better leaves the
+    // first translation in place
+    await mapWithConcurrency(chunks, concurrency, async (chunk, index) => {
+      const request = chunkRequest(chunk);
+      const current = chunkResults[index];
+      if (current.provider === MEMORY_MODEL || !checkStructuralFidelity(request.text, current.text).suspectedOmission) return;
+
+      progress.onReset?.(index, 'Suspected omission, retranslating');
+      const retry = await retranslateIfOmitted(providerChain, request, current, chunkOptions(index));
+      if (retry) {
+        chunkResults[index] = retry;
+        retranslatedChunks.push(index);
+      } else {
+        replaceChunk(index, current.model, current.text, 'Retranslation was not more faithful');
+      }
+    });
+
+    // And the ones where the model answered or summarized the text instead of translating it
+    await mapWithConcurrency(chunks, concurrency, async (chunk, index) => {
+      const request = chunkRequest(chunk);
+      const current = chunkResults[index];
+      if (current.provider === MEMORY_MODEL || checkTranslationOutput(request.text, current.text, request.suspectedInjection).length === 0) return;
+
+      progress.onReset?.(index, 'Output looks like an answer rather than a translation, retranslating');
+      const retry = await retranslateIfAnswered(providerChain, request, current, chunkOptions(index));
+      if (retry) {
+        chunkResults[index] = retry;
+        answeredChunks.push(index);
+      } else {
+        replaceChunk(index, current.model, current.text, 'Retranslation did not look more like a translation');
+      }
+    });
+  }
+  retranslatedChunks.sort((a, b) => a - b);
+  answeredChunks.sort((a, b) => a - b);
+
+  // Slot the reused paragraphs back in between the translated ones
+  const translatedWhole: number[] = [];
+  if (memory) {
+    await mapWithConcurrency(chunks, concurrency, async (chunk, index) => {
+      if (chunkResults[index].provider === MEMORY_MODEL) return;
+
+      const assembled = assembleChunk(memory[index], chunkResults[index].text);
+      if (assembled !== null) {
+        if (assembled !== chunkResults[index].text) {
+          replaceChunk(index, chunkResults[index].model, assembled, 'Adding paragraphs from translation memory');
+        }
+        chunkResults[index] = { ...chunkResults[index], text: assembled };
+        return;
+      }
+
+      // The model merged or split paragraphs, so there is no telling where the reused ones go
+      progress.onReset?.(index, 'Paragraphs did not line up with translation memory, retranslating');
+      const whole = await translateWithFallback(providerChain, chunkRequest(chunk, true), chunkOptions(index));
+      chunkResults[index] = { ...whole, attempts: chunkResults[index].attempts + whole.attempts };
+      translatedWhole.push(index);
+    });
+  }
+
+  const injection = summarizeInjection(
+    injectionFindings.flat(),
+    chunks.map((chunk, index) => ({
+      source: chunk.text,
+      output: chunkResults[index].provider === MEMORY_MODEL ? chunk.text : chunkResults[index].text,
+      flagged: injectionFindings[index].length > 0
+    })),
+    answeredChunks
+  );
+
+  // Footnotes are numbered per chunk by the model; move them out of the text and number them across the chapter
+  let chapterFootnotes: Footnote[] | null = null;
+  if (footnotes) {
+    const extracted = extractChapterFootnotes(chunkResults.map(result => result.text));
+    extracted.texts.forEach((text, index) => {
+      if (text !== chunkResults[index].text) {
+        replaceChunk(index, chunkResults[index].model, text, 'Moving footnotes out of the text');
+      }
+      chunkResults[index] = { ...chunkResults[index], text };
+    });
+    chapterFootnotes = extracted.footnotes;
+  }
+
+  const translation = joinChunks(chunkResults.map(result => result.text));
+  const skippedModels = collectSkippedModels(chunkResults.flatMap(result => result.skipped));
+  const safetyPassages = locateSafetyPassages(chunkResults);
+
+  // Report the weakest model that contributed to the chapter
+  const weakest = chunkResults.reduce((min, result) => result.baseConfidence < min.baseConfidence ? result : min);
+
+  // Validate Output
+  if (!translation || translation.trim().length === 0) {
+    throw new Error('Empty translation received');
+  }
+
+  if (!isTargetLanguage(translation, targetLanguage)) {
+    return { status: 'invalid-output', sourceLanguage };
+  }
+
+  const fidelity = checkStructuralFidelity(text, translation);
+  const confidence = computeConfidence({
+    originalText: text,
+    translatedText: translation,
+    targetLanguage,
+    glossary,
+    fidelity,
+    baseConfidence: weakest.baseConfidence
+  });
+
+  const revision = revised && memory ? summarizeRevision(revised.info, memory, translatedWhole) : null;
+
+  // Retries swallow their errors, so a reader who left during one only shows here; nothing is stored then
+  if (options.signal?.aborted) throw new TranslationAbortedError();
+
+  // Cache the successful translation as a new version
+  let versionId: number | null = null;
+  if (store && chapter) {
+    try {
+      versionId = await translationCache.set(chapter.sourceUrl, chapter.chapterNumber, text, translation, weakest.model, targetLanguage, styleIdentity, {
+        confidence,
+        safetyPassages,
+        structured: structuredOutput || undefined,
+        footnotes: chapterFootnotes || undefined,
+        revision: revision || undefined,
+        promptTemplateId: promptTemplate.id,
+        fidelityFailed: fidelity.suspectedOmission
+      });
+    } catch (e) {
+      console.error('Failed to cache translation:', e);
+    }
+  }
+
+  if (memoryScope && memory && store) {
+    await rememberTranslation(memoryScope, text, translation, unreliableBlocks(confidence, safetyPassages), memory);
+  }
+
+  // Fold this chapter into the story so far for the next one
+  if (chapter && store) {
+    scheduleStoryContextUpdate(chapter.novelKey, chapter.chapterNumber, targetLanguage, translation, usage);
+  }
+
+  return {
+    status: 'translated',
+    translatedText: translation,
+    model: weakest.model,
+    confidence,
+    fidelity: summarizeFidelity(fidelity, retranslatedChunks),
+    glossaryViolations: findGlossaryViolations(glossary, text, translation),
+    sourceLanguage,
+    safetyPassages,
+    structured: structuredOutput,
+    footnotes: chapterFootnotes,
+    stylePreset: style.id,
+    versionId,
+    degraded,
+    skippedModels,
+    memory: memory ? summarizeMemory(memory, translatedWhole) : null,
+    revision,
+    injection,
+    promptTemplate: { id: promptTemplate.id, name: promptTemplate.name, version: promptTemplate.version },
+    chunks: chunkResults.map((result, index) => ({
+      index,
+      model: result.model,
+      provider: result.provider,
+      attempts: result.attempts
+    }))
+  };
+}
@@ -0,0 +1,48 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { streamTranslation } from './translation-stream';
+
+function sse(events: Array<[string, unknown]>): Response {
+  const body = events.map(([event, data]) => `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`).join('');
+  return new Response(body, { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('streamTranslation', () => {
+  it('sends the chapter URL so the server can cache the chapter under its novel', async () => {
+    const fetchMock = vi.fn(async () => sse([['done', { versionId: 3 }]]));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await streamTranslation({ text: '第一章', sourceUrl: 'https://novels.example.com/book/12', targetLanguage: 'en' });
+
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('/api/translate/stream');
+    expect(JSON.parse(init.body as string)).toEqual({
+      text: '第一章', sourceUrl: 'https://novels.example.com/book/12', targetLanguage: 'en'
+    });
+  });
+
+  it('assembles the deltas per chunk and returns the done event', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => sse([
+      ['delta', { chunk: 1, text: 'Second' }],
+      ['delta', { chunk: 0, text: 'Fi' }],
+      ['delta', { chunk: 0, text: 'rst' }],
+      ['done', { versionId: 9 }]
+    ])));
+    const onText = vi.fn();
+
+    const result = await streamTranslation({ text: '…', sourceUrl: 'https://novels.example.com/book/12' }, { onText });
+
+    expect(result.translatedText).toBe('First\n\nSecond');
+    expect(result.done).toMatchObject({ versionId: 9 });
+    expect(onText).toHaveBeenLastCalledWith('First\n\nSecond');
+  });
+
+  it('surfaces stream errors', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => sse([['error', { message: 'Daily budget exhausted' }]])));
+    await expect(streamTranslation({ text: '…', sourceUrl: 'https://novels.example.com/book/12' }))
+      .rejects.toThrow('Daily budget exhausted');
+  });
+});
@@ -0,0 +1,123 @@
+// Client helper for POST /api/translate/stream (Server-Sent Events over fetch)
+
+import type { ConfidenceReport } from './confidence';
+import type { UsageTotals } from './usage';
+import type { SafetyPassage } from './providers/safety';
+import type { Footnote } from './footnotes';
+import type { MemoryStats } from './translation-memory';
+import type { RevisionInfo } from './revisions';
+import type { InjectionReport } from './prompt-injection';
+
+export interface StreamDoneEvent {
+  model: string;
+  confidence: number;
+  confidenceDetails: ConfidenceReport | null; // null for pass-through chapters
+  cached: boolean;
+  passThrough: boolean;
+  glossaryViolations: Array<{ source: string; expected: string; occurrences: number }>;
+  fidelity: {
+    passed: boolean;
+    suspectedOmission: boolean;
+    findings: Array<{ check: string; severity: 'warning' | 'error'; message: string }>;
+    lengthRatio: number;
+    retranslatedChunks: number[];
+  } | null; // null for pass-through chapters
+  usage: UsageTotals;
+  budgetDegraded: boolean; // Served by the cheaper chain because the client's budget is exhausted
+  skippedModels: Array<{ provider: string; model: string; reason: string; retryAt: number | null }>;
+  safetyPassages: SafetyPassage[];
+  title: string | null; // Translated chapter title, when the chapter has one
+  footnotes: Footnote[] | null; // Only when requested
+  stylePreset: string | null; // null for pass-through chapters
+  translationMemory: MemoryStats | null; // null unless the chapter was translated just now
+  revision: RevisionInfo | null; // Set when only the changed paragraphs of a revised chapter were translated
+  versionId: number | null; // Cached version served or created; pin it through /api/translate/versions
+  promptInjection: InjectionReport | null; // null unless the chapter was translated just now
+  promptTemplate: { id: number | null; name: string; version: number } | null; // null unless the chapter was translated just now
+  responseTime: number;
+}
+
+export interface StreamHandlers {
+  onText?: (text: string) => void; // Full translation so far, in chunk order
+  onModel?: (chunk: number, model: string) => void;
+  onFallback?: (chunk: number, from: string, to: string, reason: string) => void;
+}
+
+/**
+ * Stream a translation, calling onText with the accumulated Markdown as deltas arrive. The chapter URL is
+ * required: without it the chapter is neither cached nor tied to its novel.
+ */
+export async function streamTranslation(
+  body: { text: string; sourceUrl: string; targetLanguage?: string; footnotes?: boolean; stylePreset?: string },
+  handlers: StreamHandlers = {}
+): Promise<{ translatedText: string; done: StreamDoneEvent }> {
+  const response = await fetch('/api/translate/stream', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok || !response.body) {
+    const errorBody = await response.json().catch(() => null);
+    throw new Error(errorBody?.message || errorBody?.error || 'Translation failed');
+  }
+
+  const chunkTexts: string[] = [];
+  const currentText = () => chunkTexts.filter(Boolean).map(t => t.trim()).join('\n\n');
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let done = null as StreamDoneEvent | null;
+
+  const handleEvent = (event: string, data: any) => {
+    switch (event) {
+      case 'model':
+        handlers.onModel?.(data.chunk, data.model);
+        break;
+      case 'delta':
+        chunkTexts[data.chunk] = (chunkTexts[data.chunk] || '') + data.text;
+        handlers.onText?.(currentText());
+        break;
+      case 'reset':
+        chunkTexts[data.chunk] = '';
+        handlers.onText?.(currentText());
+        break;
+      case 'fallback':
+        handlers.onFallback?.(data.chunk, data.from, data.to, data.reason);
+        break;
+      case 'done':
+        done = data;
+        break;
+      case 'error':
+        throw new Error(data.message || data.error || 'Translation failed');
+    }
+  };
+
+  while (true) {
+    const { value, done: streamDone } = await reader.read();
+    if (streamDone) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    // Events are separated by a blank line
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary >= 0) {
+      const rawEvent = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      let event = 'message';
+      let data = '';
+      for (const line of rawEvent.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) data += line.slice(5).trim();
+      }
+      if (data) handleEvent(event, JSON.parse(data));
+
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+
+  if (!done) throw new Error('Translation stream ended unexpectedly');
+
+  return { translatedText: currentText(), done };
+}
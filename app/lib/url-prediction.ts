@@ -81,6 +81,31 @@ export function extractChapterIdentifier(url: string): {
   return { identifier: null, type: null, pattern: null };
 }
 
+// Derive a stable per-novel key from a chapter URL (e.g. 'example.com/novel/story')
+// Proxy URLs such as r.jina.ai/https://site/... are unwrapped first
+export function extractNovelKey(url: string): string {
+  let urlObj = new URL(url);
+  const proxied = urlObj.pathname.match(/^\/(https?:\/\/.+)$/);
+  if (proxied) {
+    try {
+      urlObj = new URL(proxied[1] + urlObj.search);
+    } catch {
+      // Keep the proxy URL if the wrapped one is malformed
+    }
+  }
+
+  let path = urlObj.pathname.replace(/\/+$/, '');
+  const { identifier } = extractChapterIdentifier(urlObj.href);
+  const lastSegment = path.slice(path.lastIndexOf('/') + 1);
+
+  // Drop the trailing segment when it names the chapter (chapter-50, 99.html, /book/12/345)
+  if (identifier && (lastSegment.includes(identifier) || /\d/.test(lastSegment))) {
+    path = path.slice(0, path.lastIndexOf('/'));
+  }
+
+  return `${urlObj.hostname.toLowerCase()}${path}`;
+}
+
 // Pattern detector that learns URL structure
 export class PatternDetector {
   private static readonly PATTERN_KEY = 'url-patterns-v2';
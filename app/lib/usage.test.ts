@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { checkBudget, estimateCost, getClientKey, usageDB } from './usage';
+
+const ENV_KEYS = ['BUDGET_DAILY_USD', 'BUDGET_MONTHLY_USD', 'BUDGET_EXHAUSTED_ACTION', 'CLIENT_API_KEYS', 'MODEL_PRICING'];
+const originalEnv = Object.fromEntries(ENV_KEYS.map(key => [key, process.env[key]]));
+
+beforeEach(() => {
+  for (const key of ENV_KEYS) delete process.env[key];
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  for (const key of ENV_KEYS) {
+    if (originalEnv[key] === undefined) delete process.env[key];
+    else process.env[key] = originalEnv[key];
+  }
+});
+
+describe('checkBudget', () => {
+  it('allows everything without budgets, without reading the spend', async () => {
+    const getSpend = vi.spyOn(usageDB, 'getSpend');
+    expect(await checkBudget('ip:203.0.113.1')).toEqual({ action: 'allow' });
+    expect(getSpend).not.toHaveBeenCalled();
+  });
+
+  it('allows clients under their budgets', async () => {
+    process.env.BUDGET_DAILY_USD = '1';
+    process.env.BUDGET_MONTHLY_USD = '20';
+    vi.spyOn(usageDB, 'getSpend').mockResolvedValue(0.5);
+
+    expect(await checkBudget('ip:203.0.113.1')).toEqual({ action: 'allow' });
+  });
+
+  it('degrades a client whose daily budget is spent, until the next UTC day', async () => {
+    process.env.BUDGET_DAILY_USD = '1';
+    const getSpend = vi.spyOn(usageDB, 'getSpend').mockResolvedValue(1.2);
+
+    const decision = await checkBudget('key:abc');
+    const now = new Date();
+
+    expect(decision).toMatchObject({ action: 'degrade', period: 'daily', spentUsd: 1.2, limitUsd: 1 });
+    expect(decision.resetAt).toBe(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+    expect(getSpend).toHaveBeenCalledWith('key:abc', new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())));
+  });
+
+  it('rejects instead with BUDGET_EXHAUSTED_ACTION=reject, reporting the monthly budget first', async () => {
+    process.env.BUDGET_DAILY_USD = '1';
+    process.env.BUDGET_MONTHLY_USD = '5';
+    process.env.BUDGET_EXHAUSTED_ACTION = 'reject';
+    vi.spyOn(usageDB, 'getSpend').mockResolvedValue(6);
+
+    expect(await checkBudget('key:abc')).toMatchObject({ action: 'reject', period: 'monthly', limitUsd: 5 });
+  });
+
+  it('does not block translation when the spend cannot be read', async () => {
+    process.env.BUDGET_DAILY_USD = '1';
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(usageDB, 'getSpend').mockRejectedValue(new Error('connection refused'));
+
+    expect(await checkBudget('key:abc')).toEqual({ action: 'allow' });
+  });
+});
+
+describe('getClientKey', () => {
+  const request = (apiKey?: string) => new NextRequest('http://localhost/api/translate', {
+    headers: apiKey ? { 'x-api-key': apiKey } : {}
+  });
+
+  it('uses a hash of issued API keys, and the IP for anything else', () => {
+    process.env.CLIENT_API_KEYS = 'alpha, beta';
+
+    const key = getClientKey(request('beta'), '203.0.113.1');
+    expect(key).toMatch(/^key:[0-9a-f]{32}$/);
+    expect(key).not.toContain('beta');
+    expect(getClientKey(request('made-up'), '203.0.113.1')).toBe('ip:203.0.113.1');
+    expect(getClientKey(request(), '203.0.113.1')).toBe('ip:203.0.113.1');
+  });
+});
+
+describe('estimateCost', () => {
+  it('prices tokens or characters per million, Vertex models like their counterparts', () => {
+    expect(estimateCost('gemini-2.5-flash', { inputTokens: 1_000_000, outputTokens: 100_000, characters: 0, estimated: false })).toBeCloseTo(0.55);
+    expect(estimateCost('vertex/gemini-2.5-flash', { inputTokens: 1_000_000, outputTokens: 0, characters: 0, estimated: false })).toBeCloseTo(0.3);
+    expect(estimateCost('google-translate-api', { inputTokens: 0, outputTokens: 0, characters: 50_000, estimated: false })).toBeCloseTo(1);
+    expect(estimateCost('unknown-model', { inputTokens: 1_000_000, outputTokens: 0, characters: 0, estimated: false })).toBe(0);
+  });
+});
@@ -0,0 +1,313 @@
+import pool from './db';
+import crypto from 'crypto';
+import type { NextRequest } from 'next/server';
+import type { ProviderUsage, TranslationProvider } from './providers/base';
+
+// Token, character and cost accounting per request, model, client and novel, with optional
+// daily and monthly budgets per client (BUDGET_DAILY_USD, BUDGET_MONTHLY_USD)
+
+export type UsagePurpose = 'translate' | 'story-context' | 'glossary-proposal' | 'chapter-summary' | 'health-probe';
+
+export interface UsageContext {
+  clientKey: string; // 'key:<hash>' for API key clients, 'ip:<address>' otherwise, SYSTEM_CLIENT_KEY for the app's own calls
+  clientIp?: string;
+  novelKey?: string | null;
+  sourceUrl?: string;
+  requestId: string;
+}
+
+// Client of calls no reader asked for, like circuit breaker probes; no budget applies to it
+export const SYSTEM_CLIENT_KEY = 'system';
+
+export interface UsageEntry extends ProviderUsage {
+  model: string;
+  provider: string;
+  purpose: UsagePurpose;
+  costUsd: number;
+}
+
+export interface UsageTotals {
+  inputTokens: number;
+  outputTokens: number;
+  characters: number;
+  costUsd: number;
+}
+
+export interface ModelUsageSummary extends UsageTotals {
+  model: string;
+  requests: number;
+}
+
+export type BudgetPeriod = 'daily' | 'monthly';
+
+export interface BudgetDecision {
+  action: 'allow' | 'degrade' | 'reject';
+  period?: BudgetPeriod; // The exhausted budget, when action is not 'allow'
+  spentUsd?: number;
+  limitUsd?: number;
+  resetAt?: number; // When the exhausted budget starts over
+}
+
+type ModelPrice = { input: number; output: number } | { characters: number };
+
+// USD per million tokens, or per million characters for machine translation. Extend or override with
+// MODEL_PRICING (JSON, same shape); models without a price are counted at zero cost.
+const MODEL_PRICING: Record<string, ModelPrice> = {
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  'google-translate-api': { characters: 20 },
+};
+
+let initialized = false;
+
+function getPricing(): Record<string, ModelPrice> {
+  if (!process.env.MODEL_PRICING) return MODEL_PRICING;
+  try {
+    return { ...MODEL_PRICING, ...JSON.parse(process.env.MODEL_PRICING) };
+  } catch {
+    console.error('Ignoring invalid MODEL_PRICING');
+    return MODEL_PRICING;
+  }
+}
+
+/**
+ * Estimated cost of one call; Vertex models are priced like their Generative Language counterparts
+ */
+export function estimateCost(model: string, usage: ProviderUsage): number {
+  const price = getPricing()[model] || getPricing()[model.replace(/^vertex\//, '')];
+  if (!price) return 0;
+
+  if ('characters' in price) return usage.characters * price.characters / 1_000_000;
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+}
+
+function hashApiKey(apiKey: string): string {
+  return crypto.createHash('sha256').update(apiKey).digest('hex').slice(0, 32);
+}
+
+/**
+ * Hashes of the API keys issued to clients (CLIENT_API_KEYS, comma-separated)
+ */
+function getIssuedKeyHashes(): Set<string> {
+  return new Set((process.env.CLIENT_API_KEYS || '')
+    .split(',')
+    .map(key => key.trim())
+    .filter(key => key.length > 0)
+    .map(hashApiKey));
+}
+
+/**
+ * Identify the client for accounting: a hash of the X-API-Key header when it is an issued key, the IP
+ * otherwise. Made-up keys count as the IP, so a fresh key per request doesn't get a fresh budget.
+ */
+export function getClientKey(request: NextRequest, ip: string): string {
+  const apiKey = request.headers.get('x-api-key');
+  if (apiKey) {
+    const hash = hashApiKey(apiKey);
+    if (getIssuedKeyHashes().has(hash)) return `key:${hash}`;
+  }
+  return `ip:${ip}`;
+}
+
+function periodStart(period: BudgetPeriod, now: Date = new Date()): Date {
+  return period === 'daily'
+    ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+function periodEnd(period: BudgetPeriod, now: Date = new Date()): Date {
+  return period === 'daily'
+    ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1))
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+}
+
+export class UsageDB {
+  private async ensureTable() {
+    if (initialized) return;
+
+    const query = `
+      CREATE TABLE IF NOT EXISTS translation_usage (
+        id SERIAL PRIMARY KEY,
+        request_id VARCHAR(64) NOT NULL,
+        client_key TEXT NOT NULL,
+        client_ip TEXT,
+        novel_key TEXT,
+        source_url TEXT,
+        purpose VARCHAR(20) NOT NULL DEFAULT 'translate',
+        provider TEXT NOT NULL,
+        model TEXT NOT NULL,
+        input_tokens INTEGER NOT NULL DEFAULT 0,
+        output_tokens INTEGER NOT NULL DEFAULT 0,
+        characters INTEGER NOT NULL DEFAULT 0,
+        estimated BOOLEAN NOT NULL DEFAULT FALSE,
+        cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE INDEX IF NOT EXISTS idx_translation_usage_client ON translation_usage(client_key, created_at);
+      CREATE INDEX IF NOT EXISTS idx_translation_usage_novel ON translation_usage(novel_key, created_at);
+    `;
+
+    try {
+      await pool.query(query);
+      initialized = true;
+    } catch (error) {
+      console.error('Failed to initialize translation_usage table:', error);
+    }
+  }
+
+  async record(context: UsageContext, entries: UsageEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+    await this.ensureTable();
+
+    // One multi-row insert per request
+    const values: unknown[] = [];
+    const rows = entries.map((entry, i) => {
+      values.push(
+        context.requestId, context.clientKey, context.clientIp || null, context.novelKey || null,
+        context.sourceUrl || null, entry.purpose, entry.provider, entry.model, entry.inputTokens,
+        entry.outputTokens, entry.characters, entry.estimated, entry.costUsd
+      );
+      const offset = i * 13;
+      return `(${Array.from({ length: 13 }, (_, j) => `$${offset + j + 1}`).join(', ')})`;
+    });
+
+    try {
+      await pool.query(
+        `INSERT INTO translation_usage (
+          request_id, client_key, client_ip, novel_key, source_url, purpose, provider, model,
+          input_tokens, output_tokens, characters, estimated, cost_usd
+        ) VALUES ${rows.join(', ')}`,
+        values
+      );
+    } catch (error) {
+      console.error('Usage record error:', error);
+    }
+  }
+
+  async getSpend(clientKey: string, since: Date): Promise<number> {
+    await this.ensureTable();
+
+    const result = await pool.query(
+      'SELECT COALESCE(SUM(cost_usd), 0) AS spent FROM translation_usage WHERE client_key = $1 AND created_at >= $2',
+      [clientKey, since]
+    );
+    return parseFloat(result.rows[0].spent);
+  }
+
+  /**
+   * Usage per model for a client since the given time
+   */
+  async summarize(clientKey: string, since: Date): Promise<ModelUsageSummary[]> {
+    await this.ensureTable();
+
+    const result = await pool.query(
+      `SELECT model, COUNT(DISTINCT request_id) AS requests,
+              SUM(input_tokens) AS input_tokens, SUM(output_tokens) AS output_tokens,
+              SUM(characters) AS characters, SUM(cost_usd) AS cost_usd
+       FROM translation_usage
+       WHERE client_key = $1 AND created_at >= $2
+       GROUP BY model
+       ORDER BY SUM(cost_usd) DESC`,
+      [clientKey, since]
+    );
+
+    return result.rows.map(row => ({
+      model: row.model,
+      requests: parseInt(row.requests, 10),
+      inputTokens: parseInt(row.input_tokens, 10),
+      outputTokens: parseInt(row.output_tokens, 10),
+      characters: parseInt(row.characters, 10),
+      costUsd: parseFloat(row.cost_usd)
+    }));
+  }
+}
+
+export const usageDB = new UsageDB();
+
+/**
+ * Collects the usage of one request (including work it schedules, like the story context update)
+ * and writes it to Postgres on flush
+ */
+export class UsageTracker {
+  private pending: UsageEntry[] = [];
+  private totals: UsageTotals = { inputTokens: 0, outputTokens: 0, characters: 0, costUsd: 0 };
+
+  constructor(readonly context: UsageContext) {}
+
+  /**
+   * Callback for FallbackOptions.onUsage
+   */
+  forPurpose(purpose: UsagePurpose) {
+    return (provider: TranslationProvider, usage: ProviderUsage) => {
+      const entry: UsageEntry = {
+        ...usage,
+        model: provider.model,
+        provider: provider.id,
+        purpose,
+        costUsd: estimateCost(provider.model, usage)
+      };
+      this.pending.push(entry);
+      this.totals.inputTokens += entry.inputTokens;
+      this.totals.outputTokens += entry.outputTokens;
+      this.totals.characters += entry.characters;
+      this.totals.costUsd += entry.costUsd;
+    };
+  }
+
+  getTotals(): UsageTotals {
+    return { ...this.totals, costUsd: Math.round(this.totals.costUsd * 1_000_000) / 1_000_000 };
+  }
+
+  async flush(): Promise<void> {
+    const entries = this.pending;
+    this.pending = [];
+    await usageDB.record(this.context, entries);
+  }
+}
+
+export function createUsageTracker(context: Omit<UsageContext, 'requestId'>): UsageTracker {
+  return new UsageTracker({ ...context, requestId: crypto.randomUUID() });
+}
+
+export function getBudgetLimits(): Record<BudgetPeriod, number | null> {
+  const parse = (value: string | undefined) => {
+    const limit = value ? parseFloat(value) : NaN;
+    return isNaN(limit) || limit <= 0 ? null : limit;
+  };
+  return {
+    daily: parse(process.env.BUDGET_DAILY_USD),
+    monthly: parse(process.env.BUDGET_MONTHLY_USD),
+  };
+}
+
+/**
+ * Decide how to serve a client that may be over budget. BUDGET_EXHAUSTED_ACTION picks between
+ * moving to the cheaper chain ('degrade', the default) and refusing the translation ('reject').
+ */
+export async function checkBudget(clientKey: string): Promise<BudgetDecision> {
+  const limits = getBudgetLimits();
+  if (limits.daily === null && limits.monthly === null) return { action: 'allow' };
+
+  const action = process.env.BUDGET_EXHAUSTED_ACTION === 'reject' ? 'reject' : 'degrade';
+
+  try {
+    for (const period of ['monthly', 'daily'] as const) {
+      const limitUsd = limits[period];
+      if (limitUsd === null) continue;
+
+      const spentUsd = await usageDB.getSpend(clientKey, periodStart(period));
+      if (spentUsd >= limitUsd) {
+        return { action, period, spentUsd, limitUsd, resetAt: periodEnd(period).getTime() };
+      }
+    }
+  } catch (error) {
+    // Accounting must not take translation down with it
+    console.error('Budget check failed:', error);
+  }
+
+  return { action: 'allow' };
+}
+
+export { periodStart as getPeriodStart };
@@ -1,35 +1,119 @@
+import { DEFAULT_TARGET_LANGUAGE, type TargetLanguage } from './languages';
+import { countScripts, stripMarkdownForDetection, type DetectedLanguage } from './language-detection';
 
-export function isEnglish(text: string): boolean {
+// Common function words per target language, used to confirm the output is real prose in that language
+const STOP_WORDS: Record<TargetLanguage, Set<string>> = {
+  en: new Set(['the', 'and', 'is', 'in', 'to', 'of', 'it', 'that', 'was', 'for', 'with', 'he', 'she', 'they']),
+  es: new Set(['el', 'la', 'de', 'que', 'y', 'en', 'los', 'las', 'se', 'del', 'un', 'una', 'por', 'con', 'no', 'su']),
+  de: new Set(['der', 'die', 'das', 'und', 'ist', 'nicht', 'ein', 'eine', 'zu', 'den', 'mit', 'sich', 'er', 'sie', 'es', 'war']),
+  id: new Set(['yang', 'dan', 'di', 'itu', 'dengan', 'untuk', 'tidak', 'ini', 'dari', 'dia', 'akan', 'ke', 'ada', 'aku', 'kamu']),
+};
+
+// English is mostly Basic Latin; the others add Latin-1/Extended accents (é, ß, ñ) and typographic punctuation
+function latinPatternFor(language: TargetLanguage): RegExp {
+  return language === 'en'
+    ? /[\u0000-\u007F]/g
+    : /[\u0000-\u024F\u2000-\u206F]/g;
+}
+
+function splitWords(text: string): string[] {
+  return text.toLowerCase().split(/[\s\.,;!?()"'¡¿«»„“”]+/).filter(w => w.length > 0);
+}
+
+/**
+ * Check that text reads as prose in the given target language
+ */
+export function isTargetLanguage(text: string, language: TargetLanguage = DEFAULT_TARGET_LANGUAGE): boolean {
   if (!text || text.length === 0) return false;
-  
-  // 1. Check character range (English uses ASCII mostly)
-  // Allow some punctuation and common latin supplements, but should be mostly Basic Latin
-  const asciiCount = (text.match(/[\u0000-\u007F]/g) || []).length;
-  const ratio = asciiCount / text.length;
-  
-  // If less than 70% is ASCII, probably not English (relaxed from 80% to account for formatting chars or some names)
-  if (ratio < 0.7) return false; 
-  
-  // 2. Check for common stop words to ensure it's actual English sentences
+
+  // 1. Check character range (all supported targets use Latin script)
+  const latinCount = (text.match(latinPatternFor(language)) || []).length;
+  const ratio = latinCount / text.length;
+
+  // If less than 70% is Latin, probably not the target language (relaxed from 80% to account for formatting chars or some names)
+  if (ratio < 0.7) return false;
+
+  // 2. Check for common stop words to ensure it's actual sentences in that language
   // We check only a subset of most common words
-  const stopWords = new Set(['the', 'and', 'is', 'in', 'to', 'of', 'it', 'that', 'was', 'for', 'with', 'he', 'she', 'they']);
-  
-  // Sample the text to avoid processing huge strings entirely if not needed? 
+  const stopWords = STOP_WORDS[language];
+
+  // Sample the text to avoid processing huge strings entirely if not needed?
   // But regex split is fast enough for chapter size usually.
-  const words = text.toLowerCase().split(/[\s\.,;!?()"']+/).filter(w => w.length > 0);
-  
+  const words = splitWords(text);
+
   if (words.length < 5) {
-      // Very short text, hard to judge by stop words. Rely on ASCII ratio.
-      return true; 
+      // Very short text, hard to judge by stop words. Rely on character ratio.
+      return true;
   }
 
   const foundStopWordsCount = words.reduce((count, word) => count + (stopWords.has(word) ? 1 : 0), 0);
-  
+
   // Expect at least some stop words. E.g. 5% of words should be stop words?
-  // English text usually consists of ~50% function words.
+  // Natural prose usually consists of ~50% function words.
   // Let's be conservative: at least 1 stop word if > 10 words, or checking density.
-  
+
   if (words.length > 10 && foundStopWordsCount === 0) return false;
-  
+
   return true;
 }
+
+/**
+ * Graded version of isTargetLanguage, from 0 (not the target language) to 1.
+ * Combines the share of characters in the target script with the density of common function words.
+ */
+export function scoreTargetLanguage(text: string, language: TargetLanguage = DEFAULT_TARGET_LANGUAGE): number {
+  if (!text || text.length === 0) return 0;
+
+  const ratio = (text.match(latinPatternFor(language)) || []).length / text.length;
+  // 70% Latin is the isTargetLanguage cutoff, 95% and up is clean
+  const scriptScore = Math.max(0, Math.min(1, (ratio - 0.7) / 0.25));
+
+  const words = splitWords(text);
+  if (words.length < 5) return scriptScore;
+
+  // Function words from the short lists above make up 10% or more of ordinary prose
+  const stopWords = STOP_WORDS[language];
+  const density = words.reduce((count, word) => count + (stopWords.has(word) ? 1 : 0), 0) / words.length;
+  const stopWordScore = Math.min(1, density / 0.1);
+
+  return Math.min(scriptScore, stopWordScore);
+}
+
+export function isEnglish(text: string): boolean {
+  return isTargetLanguage(text, 'en');
+}
+
+/**
+ * Decide whether a scraped chapter is already in the target language and can skip the model.
+ * Requires the local detector to agree with the stop-word heuristics above, and almost no leftover foreign script.
+ */
+export function isAlreadyInTargetLanguage(
+  markdown: string,
+  targetLanguage: TargetLanguage,
+  detected: DetectedLanguage
+): boolean {
+  if (detected.language !== targetLanguage || detected.confidence < 0.6) return false;
+
+  const prose = stripMarkdownForDetection(markdown);
+  if (!isTargetLanguage(prose, targetLanguage)) return false;
+
+  // Fan translations often keep a few source-script terms; more than that means a mixed or raw chapter
+  const { counts, total } = countScripts(prose);
+  const foreignShare = total > 0 ? (total - (counts.latin || 0)) / total : 0;
+  return foreignShare < 0.02;
+}
+
+/**
+ * Tidy a chapter that is passed through untranslated: drop scraper metadata and navigation lines,
+ * and normalize blank lines
+ */
+export function cleanPassThroughMarkdown(markdown: string): string {
+  return markdown
+    .replace(/\r\n/g, '\n')
+    .replace(/^(Title|URL Source|Published Time|Markdown Content):.*$/gm, '')
+    .replace(/^.*\[(?:Next|Previous|Prev|Table of Contents|Index)[^\]]*\]\([^)]*\).*$/gim, '')
+    .replace(/^\s*!\[[^\]]*\]\([^)]*\)\s*$/gm, '')
+    .replace(/[ \t]+$/gm, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
@@ -1,19 +1,47 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
-import { Loader2, BookOpen, Menu, History, ChevronLeft, ChevronRight, Check, Trash2 } from 'lucide-react';
-import ReactMarkdown from 'react-markdown';
-import { saveChapter, getChapter, deleteChapter, getAllChapters, type ChapterData } from './lib/storage';
+import { Loader2, BookOpen, Menu, History, ChevronLeft, ChevronRight, Check, Trash2, AlertTriangle, Pencil } from 'lucide-react';
+import ReactMarkdown, { type Components } from 'react-markdown';
+import { saveChapter, getChapter, deleteChapter, getAllChapters, getPreviousChapters, type ChapterData } from './lib/storage';
+import { streamTranslation } from './lib/translation-stream';
+import { splitMarkdownBlocks } from './lib/chunker';
+import type { ParagraphConfidence } from './lib/confidence';
+import type { SafetyPassage } from './lib/providers/safety';
+import type { StylePreset } from './lib/style-presets';
+import type { ModelComparison } from './lib/model-comparison';
+import { linkFootnoteMarkers, type Footnote } from './lib/footnotes';
+import { SUPPORTED_TARGET_LANGUAGES, DEFAULT_TARGET_LANGUAGE, type TargetLanguage } from './lib/languages';
+
+const RECAP_CHAPTER_OPTIONS = [3, 5, 10]; // How many earlier chapters a "previously on" recap covers
 
 export default function Home() {
   const [url, setUrl] = useState('');
   const [originalContent, setOriginalContent] = useState('');
   const [translatedContent, setTranslatedContent] = useState('');
   const [chapterTitle, setChapterTitle] = useState('');
+  const [translatedTitle, setTranslatedTitle] = useState('');
   const [nextUrl, setNextUrl] = useState<string | null>(null);
   const [prevUrl, setPrevUrl] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
+  const [streamStatus, setStreamStatus] = useState('');
+  const [targetLanguage, setTargetLanguage] = useState<TargetLanguage>(DEFAULT_TARGET_LANGUAGE);
   const [error, setError] = useState('');
+  const [fidelityWarnings, setFidelityWarnings] = useState<string[]>([]);
+  const [weakParagraphs, setWeakParagraphs] = useState<ParagraphConfidence[]>([]);
+  const [safetyPassages, setSafetyPassages] = useState<SafetyPassage[]>([]);
+  const [showFootnotes, setShowFootnotes] = useState(false);
+  const [stylePresets, setStylePresets] = useState<StylePreset[]>([]);
+  const [stylePreset, setStylePreset] = useState(''); // Empty: the server's default
+  const [footnotes, setFootnotes] = useState<Footnote[]>([]);
+  const [versionId, setVersionId] = useState<number | null>(null);
+  const [editingIndex, setEditingIndex] = useState<number | null>(null); // Paragraph being corrected
+  const [editDraft, setEditDraft] = useState('');
+  const [comparison, setComparison] = useState<ModelComparison | null>(null); // Providers side by side
+  const [comparing, setComparing] = useState(false);
+  const [recap, setRecap] = useState<Array<{ url: string; title: string; summary: string | null }> | null>(null);
+  const [recapCount, setRecapCount] = useState(RECAP_CHAPTER_OPTIONS[0]);
+  const [recapLoading, setRecapLoading] = useState(false);
   const [historyOpen, setHistoryOpen] = useState(false);
   const [savedChapters, setSavedChapters] = useState<ChapterData[]>([]);
   const [isSaved, setIsSaved] = useState(false);
@@ -28,9 +56,13 @@ export default function Home() {
     }
   }, [url]);
 
-  // Load history on mount
+  // Load history and the style presets on mount
   useEffect(() => {
     loadChapters();
+    fetch('/api/style-presets')
+      .then(res => res.ok ? res.json() : null)
+      .then(data => data && setStylePresets(data.presets))
+      .catch(e => console.error('Failed to load style presets', e));
   }, []);
 
   // Check saved status when content changes
@@ -78,24 +110,38 @@ export default function Home() {
     setUrl(chapter.novelUrl);
     setOriginalContent(chapter.originalText);
     setTranslatedContent(chapter.translatedText);
+    setFootnotes(chapter.footnotes || []);
+    setVersionId(chapter.versionId ?? null);
+    setEditingIndex(null);
+    setComparison(null);
+    setRecap(null);
     setChapterTitle(chapter.chapterTitle);
+    setTranslatedTitle(chapter.translatedTitle || '');
     setNextUrl(chapter.nextUrl || null);
     setPrevUrl(chapter.prevUrl || null);
     setHistoryOpen(false);
     setError('');
+    setFidelityWarnings([]);
+    setWeakParagraphs([]);
+    setSafetyPassages([]);
     setIsSaved(true);
   };
 
-  const saveChapterData = async () => {
+  // Values passed in win over state, which is stale inside the handler that just set it
+  const saveChapterData = async (overrides: Partial<ChapterData> = {}) => {
     try {
       const chapterData: ChapterData = {
         novelUrl: url,
         chapterTitle: chapterTitle || 'Untitled',
+        translatedTitle: translatedTitle || undefined,
         translatedText: translatedContent,
+        footnotes: footnotes.length > 0 ? footnotes : undefined,
         originalText: originalContent,
+        versionId: versionId ?? undefined,
         timestamp: Date.now(),
         nextUrl: nextUrl || undefined,
         prevUrl: prevUrl || undefined,
+        ...overrides,
       };
       await saveChapter(chapterData);
       setIsSaved(true);
@@ -125,6 +171,14 @@ export default function Home() {
     setError('');
     setOriginalContent('');
     setTranslatedContent('');
+    setFootnotes([]);
+    setVersionId(null);
+    setEditingIndex(null);
+    setComparison(null);
+    setRecap(null);
+    setFidelityWarnings([]);
+    setWeakParagraphs([]);
+    setSafetyPassages([]);
     setIsSaved(false);
 
     try {
@@ -138,19 +192,30 @@ export default function Home() {
       setOriginalContent(markdown);
       
       const titleMatch = markdown.match(/^#+\s*(.+)$/m);
-      setChapterTitle(titleMatch ? titleMatch[1] : '');
-
-      // 2. Translate
-      const translateRes = await fetch('/api/translate', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ text: markdown }),
+      const sourceTitle = titleMatch ? titleMatch[1] : '';
+      setChapterTitle(sourceTitle);
+      setTranslatedTitle('');
+
+      // 2. Translate (streamed so the Translated pane fills in as text arrives)
+      const { translatedText, done } = await streamTranslation({
+        text: markdown,
+        sourceUrl: targetUrl,
+        targetLanguage,
+        footnotes: showFootnotes,
+        stylePreset: stylePreset || undefined,
+      }, {
+        onText: setTranslatedContent,
+        onModel: (_chunk, model) => setStreamStatus(`Translating with ${model}...`),
+        onFallback: (_chunk, from, to) => setStreamStatus(`${from} failed, falling back to ${to}...`),
       });
-
-      if (!translateRes.ok) throw new Error('Translation failed');
-
-      const { translatedText } = await translateRes.json();
       setTranslatedContent(translatedText || '');
+      setFidelityWarnings(done.fidelity?.findings.map(finding => finding.message) || []);
+      const confidence = done.confidenceDetails;
+      setWeakParagraphs(confidence ? confidence.paragraphs.filter(p => confidence.weakParagraphs.includes(p.index)) : []);
+      setSafetyPassages(done.safetyPassages.filter(passage => passage.outcome === 'machine-translated'));
+      setTranslatedTitle(done.title || '');
+      setFootnotes(done.footnotes || []);
+      setVersionId(done.versionId);
 
       // 3. Navigation (Regex + Heuristic Backup)
       let finalNext: string | null = markdown.match(/\[(?:Next|Continue|下一章)[^\]]*\]\(([^)]+)\)/i)?.[1] || null;
@@ -163,15 +228,188 @@ export default function Home() {
 
       // 4. Save
       if (translatedText) {
-        setTimeout(() => saveChapterData(), 500);
+        setTimeout(() => saveChapterData({
+          novelUrl: targetUrl,
+          chapterTitle: sourceTitle || 'Untitled',
+          translatedTitle: done.title || undefined,
+          translatedText,
+          footnotes: done.footnotes?.length ? done.footnotes : undefined,
+          originalText: markdown,
+          versionId: done.versionId ?? undefined,
+          nextUrl: finalNext || undefined,
+          prevUrl: finalPrev || undefined,
+        }), 500);
       }
     } catch (err: any) {
       setError(err.message);
     } finally {
       setLoading(false);
+      setStreamStatus('');
+    }
+  };
+
+  // Keep a reader's fix of one paragraph locally and send it to the server, which turns recurring
+  // term fixes into glossary proposals
+  const handleSaveCorrection = async (index: number) => {
+    const blocks = splitMarkdownBlocks(translatedContent);
+    const original = blocks[index];
+    const corrected = editDraft.trim();
+    setEditingIndex(null);
+    if (!corrected || corrected === original) return;
+
+    blocks[index] = corrected;
+    const updated = blocks.join('\n\n');
+    setTranslatedContent(updated);
+    await saveChapterData({ translatedText: updated });
+
+    try {
+      const res = await fetch('/api/corrections', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          chapterUrl: url,
+          targetLanguage,
+          versionId: versionId ?? undefined,
+          paragraphIndex: index,
+          original,
+          corrected,
+        }),
+      });
+      if (!res.ok) throw new Error(`Correction was not saved (${res.status})`);
+    } catch (e) {
+      console.error('Correction upload failed', e);
+    }
+  };
+
+  // Summary of a saved chapter: stored with its cached version on the server when there is one, else made
+  // from the local translation; kept in the history either way
+  const fetchSummary = async (chapter: ChapterData): Promise<string | null> => {
+    if (chapter.summary) return chapter.summary;
+
+    const bodies: object[] = [{ text: chapter.translatedText, targetLanguage }];
+    if (chapter.versionId) bodies.unshift({ sourceUrl: chapter.novelUrl, versionId: chapter.versionId });
+
+    for (const body of bodies) {
+      const res = await fetch('/api/summaries', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      if (res.status === 404) continue; // Not a version the server has for this URL
+      if (!res.ok) throw new Error(`Summary failed (${res.status})`);
+
+      const { summary } = await res.json();
+      await saveChapter({ ...chapter, summary });
+      return summary;
+    }
+    return null;
+  };
+
+  // "Previously on": summaries of the chapters before this one, found through the reading history
+  const handleRecap = async (count: number) => {
+    setRecapCount(count);
+    setRecapLoading(true);
+    try {
+      const previous = await getPreviousChapters({ novelUrl: url, prevUrl: prevUrl || undefined }, count);
+      const entries = [];
+      for (const chapter of previous) {
+        let summary: string | null = null;
+        try {
+          summary = await fetchSummary(chapter);
+        } catch (e) {
+          console.error('Summary failed', e);
+        }
+        entries.push({ url: chapter.novelUrl, title: chapter.translatedTitle || chapter.chapterTitle, summary });
+      }
+      setRecap(entries);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setRecapLoading(false);
+    }
+  };
+
+  // Translate the chapter with several providers at once, shown in columns aligned by paragraph
+  const handleCompare = async () => {
+    if (!originalContent || !url) return;
+
+    setComparing(true);
+    setError('');
+    try {
+      const res = await fetch('/api/translate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          text: originalContent,
+          sourceUrl: url,
+          targetLanguage,
+          stylePreset: stylePreset || undefined,
+          compare: true,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.details?.join(', ') || data.error || `Comparison failed (${res.status})`);
+      if (!data.comparison) throw new Error('This chapter needs no translation');
+      setComparison(data.comparison);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setComparing(false);
     }
   };
 
+  // The reader's picks replace the translation shown; the shared version is pinned once enough readers voted
+  const handleVote = async (paragraphIndex: number, candidate: number) => {
+    if (!comparison) return;
+
+    try {
+      const res = await fetch('/api/translate/compare', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ comparisonId: comparison.id, paragraphIndex, candidate }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.details?.join(', ') || data.error || `Vote was not saved (${res.status})`);
+
+      setComparison(data.comparison);
+      setTranslatedContent(data.translatedText);
+      setFootnotes([]);
+      setVersionId(null);
+      setWeakParagraphs([]);
+      setSafetyPassages([]);
+      await saveChapterData({ translatedText: data.translatedText, footnotes: undefined, versionId: undefined });
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  // Footnote markers arrive as "#footnote-n" links and are shown as superscripts with the note on hover
+  const markdownComponents: Components = {
+    a: ({ node, href, children, ...props }) => {
+      const footnoteId = href?.match(/^#footnote-(\d+)$/)?.[1];
+      if (!footnoteId) return <a href={href} {...props}>{children}</a>;
+
+      const footnote = footnotes.find(f => f.id === Number(footnoteId));
+      return (
+        <span className='relative inline-block group/footnote'>
+          <sup className='font-sans text-amber-700 cursor-help'>[{footnoteId}]</sup>
+          {footnote && (
+            <span
+              role='tooltip'
+              className='invisible group-hover/footnote:visible absolute bottom-full left-1/2 -translate-x-1/2 mb-1 w-64 p-2 z-10 rounded shadow-lg bg-amber-900 text-white text-sm font-sans leading-snug'
+            >
+              {footnote.text}
+            </span>
+          )}
+        </span>
+      );
+    },
+  };
+
+  const renderTranslated = (markdown: string, key?: number) => (
+    <ReactMarkdown key={key} components={markdownComponents}>{linkFootnoteMarkers(markdown)}</ReactMarkdown>
+  );
+
   // Navigation Handlers
   const handleNext = () => {
     if (nextUrl) handleTranslate(nextUrl);
@@ -230,7 +468,7 @@ export default function Home() {
                   onClick={() => loadChapter(c)}
                   className='w-full text-left p-2 hover:bg-amber-50 rounded border border-transparent hover:border-amber-200 truncate text-sm'
                 >
-                  {c.chapterTitle}
+                  {c.translatedTitle || c.chapterTitle}
                 </button>
                 <button
                   onClick={(e) => handleDeleteChapter(e, c.novelUrl)}
@@ -264,6 +502,45 @@ export default function Home() {
               disabled={loading}
               onKeyDown={(e) => e.key === 'Enter' && handleTranslate()}
             />
+            <select
+              value={targetLanguage}
+              onChange={e => setTargetLanguage(e.target.value as TargetLanguage)}
+              className='border-2 border-amber-200 p-3 rounded-lg bg-white focus:outline-none focus:border-amber-400'
+              disabled={loading}
+              aria-label='Target language'
+            >
+              {Object.entries(SUPPORTED_TARGET_LANGUAGES).map(([code, name]) => (
+                <option key={code} value={code}>{name}</option>
+              ))}
+            </select>
+            {stylePresets.length > 1 && (
+              <select
+                value={stylePreset}
+                onChange={e => setStylePreset(e.target.value)}
+                className='border-2 border-amber-200 p-3 rounded-lg bg-white focus:outline-none focus:border-amber-400'
+                disabled={loading}
+                aria-label='Translation style'
+              >
+                {stylePresets.map(preset => (
+                  <option key={preset.id} value={preset.id === 'default' ? '' : preset.id} title={preset.description}>
+                    {preset.name}
+                  </option>
+                ))}
+              </select>
+            )}
+            <label
+              className='flex items-center gap-2 border-2 border-amber-200 px-3 rounded-lg bg-white text-amber-900 cursor-pointer'
+              title="Translator's footnotes for idioms, ranks, wordplay and cultural terms"
+            >
+              <input
+                type='checkbox'
+                checked={showFootnotes}
+                onChange={e => setShowFootnotes(e.target.checked)}
+                disabled={loading}
+                className='accent-amber-600'
+              />
+              Notes
+            </label>
             <button
               onClick={() => handleTranslate()}
               disabled={loading}
@@ -271,6 +548,14 @@ export default function Home() {
             >
               {loading ? <Loader2 className='animate-spin w-5 h-5' /> : 'Translate'}
             </button>
+            <button
+              onClick={handleCompare}
+              disabled={loading || comparing || !originalContent}
+              className='border-2 border-amber-600 text-amber-700 px-4 rounded-lg font-bold disabled:opacity-50 flex items-center gap-2'
+              title='Translate this chapter with several models side by side'
+            >
+              {comparing ? <Loader2 className='animate-spin w-5 h-5' /> : 'Compare'}
+            </button>
           </div>
 
           {error && <div className='bg-red-100 text-red-700 p-4 rounded mb-4'>{error}</div>}
@@ -281,6 +566,50 @@ export default function Home() {
             </div>
           )}
 
+          {/* Previously on: recap of the chapters before this one */}
+          {translatedContent && !loading && (
+            <div className='bg-white p-4 rounded shadow border border-amber-100 mb-4 font-sans'>
+              <div className='flex items-center gap-3 text-sm'>
+                <History className='w-4 h-4 text-amber-700' />
+                <button
+                  onClick={() => recap ? setRecap(null) : handleRecap(recapCount)}
+                  disabled={recapLoading}
+                  className='font-semibold text-amber-800 hover:text-amber-900 disabled:opacity-50'
+                >
+                  {recap ? 'Hide recap' : 'Previously on...'}
+                </button>
+                <select
+                  value={recapCount}
+                  onChange={e => handleRecap(Number(e.target.value))}
+                  disabled={recapLoading}
+                  className='border border-amber-200 rounded px-1 bg-white text-gray-700'
+                  aria-label='Chapters to recap'
+                >
+                  {RECAP_CHAPTER_OPTIONS.map(count => (
+                    <option key={count} value={count}>last {count} chapters</option>
+                  ))}
+                </select>
+                {recapLoading && <Loader2 className='animate-spin w-4 h-4 text-amber-700' />}
+              </div>
+              {recap && (
+                recap.length === 0 ? (
+                  <p className='mt-3 text-sm text-gray-600'>No earlier chapters of this novel in your history.</p>
+                ) : (
+                  <ol className='mt-3 space-y-3 text-gray-800'>
+                    {recap.map(entry => (
+                      <li key={entry.url}>
+                        <p className='text-sm font-semibold text-amber-900'>{entry.title}</p>
+                        <p className='font-serif leading-relaxed'>
+                          {entry.summary ?? <span className='text-sm text-gray-500 font-sans'>No summary available.</span>}
+                        </p>
+                      </li>
+                    ))}
+                  </ol>
+                )
+              )}
+            </div>
+          )}
+
           {/* Content Split */}
           {(originalContent || translatedContent) && (
             <div className='grid lg:grid-cols-2 gap-8'>
@@ -292,13 +621,169 @@ export default function Home() {
               </div>
               <div className='bg-white p-6 rounded shadow border border-amber-100'>
                 <h2 className='font-bold text-xl mb-4 text-amber-900 border-b pb-2'>Translated</h2>
+                {streamStatus && (
+                  <div className='flex items-center gap-2 text-sm text-amber-700 mb-4'>
+                    <Loader2 className='animate-spin w-4 h-4' />
+                    <span>{streamStatus}</span>
+                  </div>
+                )}
+                {fidelityWarnings.length > 0 && (
+                  <div className='flex gap-2 text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded p-3 mb-4'>
+                    <AlertTriangle className='w-4 h-4 mt-0.5 shrink-0' />
+                    <div>
+                      <p className='font-semibold'>This translation may be incomplete</p>
+                      <ul className='list-disc ml-4'>
+                        {fidelityWarnings.map((warning, i) => <li key={i}>{warning}</li>)}
+                      </ul>
+                    </div>
+                  </div>
+                )}
+                {safetyPassages.length > 0 && (
+                  <div className='flex gap-2 text-sm text-sky-800 bg-sky-50 border border-sky-200 rounded p-3 mb-4'>
+                    <AlertTriangle className='w-4 h-4 mt-0.5 shrink-0' />
+                    <p>Some passages were blocked by the AI model&apos;s safety filters and machine-translated instead. They are marked in blue.</p>
+                  </div>
+                )}
                 <div className='prose prose-lg max-w-none font-serif text-gray-800 leading-relaxed'>
-                  <ReactMarkdown>{translatedContent}</ReactMarkdown>
+                  {loading ? (
+                    renderTranslated(translatedContent)
+                  ) : (
+                    // Render block by block so passages can be highlighted and corrected
+                    splitMarkdownBlocks(translatedContent).map((block, index) => {
+                      if (editingIndex === index) {
+                        return (
+                          <div key={index} className='not-prose my-4 font-sans'>
+                            <textarea
+                              value={editDraft}
+                              onChange={(e) => setEditDraft(e.target.value)}
+                              rows={Math.max(3, Math.ceil(editDraft.length / 80))}
+                              className='w-full p-2 border border-amber-300 rounded text-base text-gray-800 focus:outline-none focus:ring-2 focus:ring-amber-500'
+                              autoFocus
+                            />
+                            <div className='flex gap-2 mt-2 text-sm'>
+                              <button
+                                onClick={() => handleSaveCorrection(index)}
+                                className='px-3 py-1 bg-amber-600 text-white rounded hover:bg-amber-700'
+                              >
+                                Save correction
+                              </button>
+                              <button
+                                onClick={() => setEditingIndex(null)}
+                                className='px-3 py-1 text-gray-600 rounded hover:bg-gray-100'
+                              >
+                                Cancel
+                              </button>
+                            </div>
+                          </div>
+                        );
+                      }
+
+                      const weak = weakParagraphs.find(p => p.index === index);
+                      const blocked = safetyPassages.some(p => index >= p.blocks[0] && index <= p.blocks[1]);
+                      const highlight = blocked
+                        ? 'bg-sky-50 border-l-4 border-sky-400 pl-3'
+                        : weak ? 'bg-amber-50 border-l-4 border-amber-400 pl-3' : '';
+                      const title = blocked
+                        ? 'Machine-translated: the AI model declined this passage'
+                        : weak ? `Low confidence (${Math.round(weak.score * 100)}%)${weak.issues.length ? `: ${weak.issues.join(', ')}` : ''}` : undefined;
+                      return (
+                        <div key={index} className={`relative group/paragraph ${highlight}`} title={title}>
+                          {renderTranslated(block)}
+                          <button
+                            onClick={() => {
+                              setEditingIndex(index);
+                              setEditDraft(block);
+                            }}
+                            className='invisible group-hover/paragraph:visible absolute top-1 -right-5 text-amber-600 hover:text-amber-800'
+                            title='Correct this paragraph'
+                          >
+                            <Pencil className='w-4 h-4' />
+                          </button>
+                        </div>
+                      );
+                    })
+                  )}
+                  {footnotes.length > 0 && (
+                    <ol className='mt-8 pt-4 border-t border-amber-100 text-sm font-sans text-gray-600 list-none pl-0'>
+                      {footnotes.map(footnote => (
+                        <li key={footnote.id} className='my-1'>
+                          <sup className='text-amber-700 mr-1'>[{footnote.id}]</sup>
+                          {footnote.text}
+                        </li>
+                      ))}
+                    </ol>
+                  )}
                 </div>
               </div>
             </div>
           )}
 
+          {/* Model comparison: one row per source paragraph, one column per provider */}
+          {comparison && (
+            <div className='mt-8 bg-white p-6 rounded shadow border border-amber-100 overflow-x-auto'>
+              <div className='flex items-center justify-between border-b pb-2 mb-4'>
+                <h2 className='font-bold text-xl text-amber-900'>Compare models</h2>
+                <button
+                  onClick={() => setComparison(null)}
+                  className='text-sm text-gray-600 px-3 py-1 rounded hover:bg-gray-100'
+                >
+                  Close
+                </button>
+              </div>
+              <p className='text-sm text-gray-600 mb-4'>
+                Pick the best rendering of each paragraph. Your picks become your translation of this chapter; once
+                enough readers have voted, the most voted paragraphs become the chapter&apos;s translation for everyone.
+              </p>
+              <table className='w-full text-sm font-serif text-gray-800 border-collapse'>
+                <thead>
+                  <tr>
+                    <th className='text-left font-sans text-amber-900 p-2 border-b border-amber-100'>Original</th>
+                    {comparison.candidates.map((candidate, index) => (
+                      <th key={index} className='text-left font-sans text-amber-900 p-2 border-b border-amber-100' title={candidate.error || undefined}>
+                        {candidate.model || candidate.provider}
+                        {candidate.confidence !== null && (
+                          <span className='ml-2 font-normal text-gray-500'>{Math.round(candidate.confidence * 100)}%</span>
+                        )}
+                        {candidate.error && <span className='ml-2 font-normal text-red-600'>failed</span>}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {comparison.sourceParagraphs.map((source, paragraph) => (
+                    <tr key={paragraph} className='align-top border-b border-amber-50'>
+                      <td className='p-2 text-gray-500'>{source}</td>
+                      {comparison.candidates.map((candidate, index) => {
+                        const text = candidate.paragraphs[paragraph];
+                        const chosen = comparison.myVotes[paragraph] === index;
+                        const votes = comparison.votes[paragraph]?.[index] || 0;
+                        return (
+                          <td key={index} className={`p-2 ${chosen ? 'bg-green-50' : ''}`}>
+                            {text === null ? (
+                              <span className='text-gray-400 font-sans'>—</span>
+                            ) : (
+                              <>
+                                <div>{text}</div>
+                                <button
+                                  onClick={() => handleVote(paragraph, index)}
+                                  className={`mt-1 flex items-center gap-1 text-xs font-sans ${chosen ? 'text-green-700' : 'text-amber-600 hover:text-amber-800'}`}
+                                >
+                                  <Check className='w-3 h-3' />
+                                  {chosen ? 'Chosen' : 'Use this'}
+                                  {votes > 0 && <span className='text-gray-500'>· {votes} {votes === 1 ? 'vote' : 'votes'}</span>}
+                                </button>
+                              </>
+                            )}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
           {/* Floating Nav */}
           {(nextUrl || prevUrl) && (
             <div className='fixed bottom-6 left-1/2 -translate-x-1/2 flex gap-4 bg-white/90 backdrop-blur-sm p-2 rounded shadow border border-amber-200 z-50'>